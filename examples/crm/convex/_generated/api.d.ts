@@ -8,10 +8,11 @@
  * @module
  */
 
-import type * as app from "../app.js";
-import type * as constants from "../constants.js";
-import type * as example from "../example.js";
+import type * as authz from "../authz.js";
+import type * as contacts from "../contacts.js";
 import type * as http from "../http.js";
+import type * as org from "../org.js";
+import type * as permissions from "../permissions.js";
 import type * as seed from "../seed.js";
 
 import type {
@@ -21,10 +22,11 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
-  app: typeof app;
-  constants: typeof constants;
-  example: typeof example;
+  authz: typeof authz;
+  contacts: typeof contacts;
   http: typeof http;
+  org: typeof org;
+  permissions: typeof permissions;
   seed: typeof seed;
 }>;
 
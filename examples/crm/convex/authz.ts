@@ -48,4 +48,4 @@ const config = authzConfig({
   allowCustomRoles: true,
 });
 
-export const { authz, P } = createAuthz(components.authz, config);
+export const { authz, P, permissions } = createAuthz(components.authz, config);
@@ -1,6 +1,7 @@
+import type { RoleGrantsMap } from "@djpanda/convex-authz";
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-import { authz, P } from "./authz";
+import { mutation } from "./_generated/server";
+import { authz, P, permissions } from "./authz";
 
 /**
  * CRM: Create a custom role for an Organization (e.g. "Sales Manager")
@@ -10,7 +11,7 @@ export const createRole = mutation({
     args: {
         orgId: v.string(),
         roleName: v.string(), // e.g., "sales_manager"
-        permissions: v.array(v.string()), // e.g., ["contacts:*", "deals:create"]
+        grants: v.record(v.string(), v.array(v.string())), // e.g., { contacts: ["*"], deals: ["create"] }
         parentRole: v.optional(v.string()), // e.g., "org:member"
     },
     handler: async (ctx, args) => {
@@ -22,12 +23,13 @@ export const createRole = mutation({
             throw new Error("Unauthorized");
         }
 
-        // Create the role scoped to this org
-        // Note: In a real app we might validate 'args.permissions' to ensure they are valid patterns
+        // Create the role scoped to this org; assignments in the org resolve
+        // its grants (plus the parent role's) at check time
+        // Note: In a real app we might validate 'args.grants' to ensure they are valid patterns
         await authz.createRole(ctx, orgScope, {
             name: args.roleName,
-            permissions: args.permissions,
-            parentRole: args.parentRole,
+            grants: args.grants as RoleGrantsMap<typeof permissions>,
+            inherits: args.parentRole,
             label: args.roleName, // Use name as label for now
         });
     },
@@ -54,20 +56,3 @@ export const assignRole = mutation({
         await authz.assignRole(ctx, args.targetUserId, args.roleName, orgScope);
     },
 });
-
-/**
- * CRM: Check specific permission (Helper for UI)
- */
-export const checkAccess = query({
-    args: { orgId: v.string() },
-    handler: async (ctx, args) => {
-        const userId = "user123";
-        const orgScope = { type: "org", id: args.orgId };
-
-        return {
-            canViewDeals: await authz.can(userId).perform(P.deals.read).in(orgScope).check(ctx),
-            canCloseDeals: await authz.can(userId).perform(P.deals.close).in(orgScope).check(ctx),
-            canManageBilling: await authz.can(userId).perform(P.org.manage_billing).in(orgScope).check(ctx),
-        };
-    },
-});
@@ -0,0 +1,9 @@
+import { authz } from "./authz";
+
+/**
+ * Public permission queries consumed by the React hooks in src/lib/authz.ts
+ */
+export const { can, roles, explain } = authz.exposeApi({
+  // Demo user; in a real app resolve this from ctx.auth.getUserIdentity()
+  getUserId: () => "user123",
+});
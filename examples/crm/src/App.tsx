@@ -1,17 +1,10 @@
-import { useQuery, useMutation } from "convex/react";
+import { useMutation } from "convex/react";
 import { api as apiGeneric } from "../convex/_generated/api";
 import { useState } from "react";
+import { Can, useCan, useExplain, useRoles } from "./lib/authz";
 
 const api = apiGeneric;
 
-// Simple types for verification
-interface Access {
-  canViewDeals: boolean;
-  canCloseDeals: boolean;
-  canManageBilling: boolean;
-}
-
-
 export default function App() {
   const [orgId, setOrgId] = useState("org_A");
 
@@ -37,7 +30,18 @@ export default function App() {
           <ContactsSection orgId={orgId} />
           <div className="space-y-8">
             <AccessCheckSection orgId={orgId} />
-            <RoleManagementSection orgId={orgId} />
+            <Can
+              permission="org:manage_members"
+              scope={{ type: "org", id: orgId }}
+              loading={<div className="bg-white p-6 rounded shadow">Loading permissions...</div>}
+              fallback={
+                <div className="bg-white p-6 rounded shadow text-sm text-gray-500">
+                  Role management requires `org:manage_members` in this org.
+                </div>
+              }
+            >
+              <RoleManagementSection orgId={orgId} />
+            </Can>
           </div>
         </div>
       </div>
@@ -85,23 +89,44 @@ function ContactsSection({ orgId }: { orgId: string }) {
 }
 
 function AccessCheckSection({ orgId }: { orgId: string }) {
-  const access = useQuery(api.org.checkAccess, { orgId });
-
-  if (!access) return <div className="bg-white p-6 rounded shadow">Loading permissions...</div>;
+  const orgScope = { type: "org", id: orgId };
+  const roles = useRoles(orgScope);
+  const closeDeals = useExplain("deals:close", orgScope);
 
   return (
     <div className="bg-white p-6 rounded shadow">
       <h2 className="text-xl font-semibold mb-4 text-gray-800">Your Permissions</h2>
       <div className="grid grid-cols-3 gap-4">
-        <PermissionBadge label="View Deals" allowed={access.canViewDeals} />
-        <PermissionBadge label="Close Deals" allowed={access.canCloseDeals} />
-        <PermissionBadge label="Manage Billing" allowed={access.canManageBilling} />
+        <PermissionBadge label="View Deals" permission="deals:read" orgId={orgId} />
+        <PermissionBadge label="Close Deals" permission="deals:close" orgId={orgId} />
+        <PermissionBadge label="Manage Billing" permission="org:manage_billing" orgId={orgId} />
       </div>
+      {closeDeals && !closeDeals.allowed && (
+        <p className="text-xs text-gray-500 mt-3">Close Deals: {closeDeals.reason}</p>
+      )}
+      <p className="text-xs text-gray-500 mt-2">
+        Roles: {roles === undefined ? "Loading..." : roles.map(r => r.role).join(", ") || "none"}
+      </p>
     </div>
   );
 }
 
-function PermissionBadge({ label, allowed }: { label: string, allowed: boolean }) {
+function PermissionBadge({ label, permission, orgId }: {
+  label: string,
+  permission: "deals:read" | "deals:close" | "org:manage_billing",
+  orgId: string,
+}) {
+  const { status, allowed } = useCan(permission, { type: "org", id: orgId });
+
+  if (status === "loading") {
+    return (
+      <div className="flex flex-col items-center justify-center p-3 rounded border bg-gray-50 border-gray-200">
+        <span className="font-bold text-gray-400">…</span>
+        <span className="text-xs text-gray-600 mt-1 text-center">{label}</span>
+      </div>
+    );
+  }
+
   return (
     <div className={`flex flex-col items-center justify-center p-3 rounded border ${allowed ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"}`}>
       <span className={`font-bold ${allowed ? "text-green-700" : "text-red-700"}`}>
@@ -137,7 +162,7 @@ function RoleManagementSection({ orgId }: { orgId: string }) {
                 createRole({
                   orgId,
                   roleName,
-                  permissions: ["contacts:read", "deals:read"], // Hardcoded for demo
+                  grants: { contacts: ["read"], deals: ["read", "update"] }, // Hardcoded for demo
                   parentRole: "org:member"
                 }).then(() => { setRoleName(""); alert("Role created!"); })
                   .catch(e => alert(e.message));
@@ -0,0 +1,4 @@
+import { createAuthzHooks } from "@djpanda/convex-authz/react";
+import { api } from "../../convex/_generated/api";
+
+export const { useCan, useRoles, useExplain, Can } = createAuthzHooks(api.permissions);
@@ -1,41 +1,68 @@
-import type {
-  GenericActionCtx,
-  GenericDataModel,
-  GenericMutationCtx,
-  GenericQueryCtx,
+import {
+  queryGeneric,
+  type GenericActionCtx,
+  type GenericDataModel,
+  type GenericMutationCtx,
+  type GenericQueryCtx,
+  type PaginationOptions,
 } from "convex/server";
-import { ConvexError, v, type Validator, type Value } from "convex/values";
+import {
+  ConvexError,
+  v,
+  type Validator,
+  type ValidatorJSON,
+  type Value,
+} from "convex/values";
 import type { ComponentApi } from "../component/_generated/component.js";
 import type { Id } from "../component/_generated/dataModel.js";
+import { evaluateCondition, isCondition } from "../component/conditions.js";
 import {
   createPolicyContext,
-  matchesPermissionPattern,
-  parsePermission,
+  policyPatterns,
 } from "../component/helpers.js";
 import {
+  buildTraversalRules,
+  createRelationSelectors,
   createSelectors,
   normalizePermissionInput,
   normalizeRoleGrants,
 } from "./config.js";
 import type {
+  AsOfCheckResult,
+  AttributeKey,
   AttributeValue,
+  AttributeValueOf,
   Attributes,
+  AttributesConfig,
+  AuditAction,
   AuthzConfig,
   AuthzOptions,
+  CheckManyItem,
   CheckOptions,
   CheckResult,
+  ConditionPolicy,
   EnvironmentContext,
+  ExplainResult,
+  ExposeApiOptions,
   PermissionInput,
   PermissionString,
   PolicyDecision,
   PolicyDefinition,
+  PolicyInputContext,
   RelationInput,
+  RelationSelectors,
+  RelationsConfig,
+  ResourceAttributeLoader,
   ResourceContext,
   RoleName,
   RoleGrantsMap,
   PermissionsConfig,
   Scope,
   SubjectContextInput,
+  TraversalRules,
+  TypedPolicyContext,
+  TypedRelationCheck,
+  TypedRelationTuple,
   ValidPermissionPattern,
 } from "./types.js";
 
@@ -50,6 +77,20 @@ type ActionCtx = Pick<
   "runQuery" | "runMutation" | "runAction"
 >;
 
+type LoaderCtx = Parameters<ResourceAttributeLoader>[0];
+type ResourceCache = Map<string, Promise<Attributes | null>>;
+
+/**
+ * Subject roles (per scope) and attributes read for closure policies,
+ * shared by every item of a checkMany batch
+ */
+type SubjectCache = {
+  roles: Map<string, Promise<string[]>>;
+  attributes?: Promise<Attributes>;
+};
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
 function isScope(value: unknown): value is Scope {
   return !!value
     && typeof value === "object"
@@ -60,12 +101,16 @@ function isScope(value: unknown): value is Scope {
 /**
  * Fluent Builder for Permission Checks
  */
-export class PermissionBuilder<P extends PermissionsConfig> {
+export class PermissionBuilder<
+  P extends PermissionsConfig,
+  R extends RelationsConfig = RelationsConfig,
+  A extends AttributesConfig = AttributesConfig,
+> {
   private permission?: PermissionString<P>;
   private options: CheckOptions<P> = {};
 
   constructor(
-    private authz: Authz<P>,
+    private authz: Authz<P, R, A>,
     private userId: string
   ) { }
 
@@ -127,17 +172,24 @@ export class PermissionBuilder<P extends PermissionsConfig> {
 /**
  * Standard Authz Client (Runtime Role Evaluation)
  */
-export class Authz<P extends PermissionsConfig> {
+export class Authz<
+  P extends PermissionsConfig,
+  R extends RelationsConfig = RelationsConfig,
+  A extends AttributesConfig = AttributesConfig,
+> {
   public readonly validators = {
     role: v.string() as Validator<RoleName<P>>,
     permission: v.string() as Validator<PermissionString<P>>,
     permissionPattern: v.string() as Validator<ValidPermissionPattern<P>>,
   };
   private roleGrantsMap?: Record<string, ValidPermissionPattern<P>[]>;
+  private traversalRules?: TraversalRules;
+  private conditionPolicies?: Record<string, ConditionPolicy> | null;
+  private attributeSchema?: Record<string, unknown> | null;
 
   constructor(
     public component: ComponentApi,
-    public config: AuthzConfig<P>,
+    public config: AuthzConfig<P, R, A>,
     public options: AuthzOptions = {}
   ) { }
 
@@ -178,6 +230,115 @@ export class Authz<P extends PermissionsConfig> {
     return map;
   }
 
+  /**
+   * Helper to build the mapping of role -> parent role (config `inherits`)
+   */
+  protected getRoleParents(): Record<string, string | null> {
+    return Object.fromEntries(
+      Object.entries(this.config.roles).map(([name, def]) => [name, def.inherits ?? null])
+    );
+  }
+
+  /**
+   * Helper to build traversal rules from the configured relations
+   */
+  protected getTraversalRules(): TraversalRules | undefined {
+    if (!this.config.relations) return undefined;
+    if (!this.traversalRules) {
+      this.traversalRules = buildTraversalRules(this.config.relations);
+    }
+    return this.traversalRules;
+  }
+
+  /**
+   * Helper to build the mapping of permission pattern -> granting relations
+   */
+  protected getPermissionRelations(): Record<string, string[]> | undefined {
+    const config = this.config.permissionRelations;
+    if (!config) return undefined;
+
+    const map: Record<string, string[]> = {};
+    for (const [pattern, relations] of Object.entries(config)) {
+      if (relations && relations.length > 0) {
+        map[pattern] = [...(relations as readonly string[])];
+      }
+    }
+    return map;
+  }
+
+  /**
+   * Helper to serialize `config.attributes` validators for the component
+   */
+  protected getAttributeSchema(): Record<string, unknown> | undefined {
+    if (this.attributeSchema === undefined) {
+      const attributes = this.config.attributes;
+      this.attributeSchema = attributes
+        ? Object.fromEntries(
+            Object.entries(attributes).map(([key, validator]) => [
+              key,
+              // The serialized form Convex itself uses for argument validators
+              (validator as unknown as { json: ValidatorJSON }).json,
+            ])
+          )
+        : null;
+    }
+    return this.attributeSchema ?? undefined;
+  }
+
+  /**
+   * Helper to collect config policies with JSON conditions, which are sent
+   * with each check and evaluated inside the component
+   */
+  protected getConditionPolicies(): Record<string, ConditionPolicy> | undefined {
+    if (this.conditionPolicies === undefined) {
+      const map: Record<string, ConditionPolicy> = {};
+      for (const [pattern, policy] of Object.entries(this.config.policies ?? {})) {
+        if (policy && isCondition(policy.condition)) {
+          map[pattern] = {
+            condition: policy.condition,
+            effect: policy.effect,
+            message: policy.message,
+          };
+        }
+      }
+      this.conditionPolicies = Object.keys(map).length > 0 ? map : null;
+    }
+    return this.conditionPolicies ?? undefined;
+  }
+
+  /**
+   * Reject tuples that the configured relations schema does not allow
+   */
+  protected assertRelationAllowed(args: {
+    subjectType: string;
+    subjectId: string;
+    subjectRelation?: string;
+    relation: string;
+    objectType: string;
+  }): void {
+    const relations = this.config.relations;
+    if (!relations) return;
+
+    const definition = relations[args.objectType]?.[args.relation];
+    if (!definition) {
+      throw new ConvexError({
+        code: "INVALID_RELATION",
+        message: `Relation "${args.relation}" is not defined on "${args.objectType}"`,
+      });
+    }
+    const subject = args.subjectRelation
+      ? `${args.subjectType}#${args.subjectRelation}`
+      : args.subjectId === "*"
+        ? `${args.subjectType}:*`
+        : args.subjectType;
+    if (!definition.subjects.includes(subject)) {
+      throw new ConvexError({
+        code: "INVALID_RELATION",
+        message: `Subject type "${subject}" cannot hold "${args.relation}" on "${args.objectType}"`,
+      });
+    }
+  }
+
   /**
    * Parse a role string to determine its scope
    */
@@ -198,7 +359,7 @@ export class Authz<P extends PermissionsConfig> {
    * Start a fluent permission check
    * @param userId The user to check permissions for
    */
-  can(userId: string): PermissionBuilder<P>;
+  can(userId: string): PermissionBuilder<P, R, A>;
 
   /**
    * Check if user has a permission
@@ -215,7 +376,7 @@ export class Authz<P extends PermissionsConfig> {
     arg2?: string,
     arg3?: PermissionInput<P>,
     arg4?: Scope | CheckOptions<P>
-  ): PermissionBuilder<P> | Promise<boolean> {
+  ): PermissionBuilder<P, R, A> | Promise<boolean> {
     // Overload 1: can(userId) -> Builder
     if (typeof arg1 === "string" && !arg2) {
       return new PermissionBuilder(this, arg1);
@@ -237,13 +398,50 @@ export class Authz<P extends PermissionsConfig> {
     ctx: QueryCtx | ActionCtx,
     userId: string,
     permission: PermissionString<P>,
-    scope?: Scope
+    scope?: Scope,
+    context: PolicyInputContext = {},
+    policyDecisions: PolicyDecision[] = []
   ): Promise<CheckResult> {
     return await ctx.runQuery(this.component.queries.checkPermission, {
       userId,
       permission,
       scope,
       rolePermissions: this.getRoleGrantsMap(),
+      permissionRelations: this.getPermissionRelations(),
+      traversalRules: this.getTraversalRules(),
+      policies: this.getConditionPolicies(),
+      policyDecisions,
+      policyCombining: this.config.policyCombining,
+      resource: context.resource,
+      environment: context.environment,
+      subject: context.subject,
+    });
+  }
+
+  /**
+   * Internal implementation of batch permission checking
+   */
+  protected async runCheckMany(
+    ctx: QueryCtx | ActionCtx,
+    userId: string,
+    checks: {
+      permission: PermissionString<P>;
+      scope?: Scope;
+      resource?: ResourceContext;
+      policyDecisions: PolicyDecision[];
+    }[],
+    context: Omit<PolicyInputContext, "resource"> = {}
+  ): Promise<CheckResult[]> {
+    return await ctx.runQuery(this.component.queries.checkPermissions, {
+      userId,
+      checks,
+      rolePermissions: this.getRoleGrantsMap(),
+      permissionRelations: this.getPermissionRelations(),
+      traversalRules: this.getTraversalRules(),
+      policies: this.getConditionPolicies(),
+      policyCombining: this.config.policyCombining,
+      environment: context.environment,
+      subject: context.subject,
     });
   }
 
@@ -269,66 +467,124 @@ export class Authz<P extends PermissionsConfig> {
     return map;
   }
 
-  protected getPolicyForPermission(permission: string): { key: string; policy: PolicyDefinition } | null {
-    const policies = this.config.policies;
-    if (!policies) return null;
-    if (permission in policies) {
-      return { key: permission, policy: policies[permission as keyof typeof policies]! };
+  /**
+   * The `config.resourceLoaders` entry for a check that names a resource, or
+   * only a scope, without attributes
+   */
+  protected resourceLoaderFor(target: { scope?: Scope; resource?: ResourceContext }) {
+    const named = target.resource ?? target.scope;
+    if (!named || target.resource?.attributes) return undefined;
+    return this.config.resourceLoaders?.[named.type];
+  }
+
+  /**
+   * Fill in resource attributes from `config.resourceLoaders` when a check
+   * names a resource, or only a scope, without attributes.
+   * Loads are memoized in `cache` for the duration of a check or batch.
+   */
+  protected async loadResource(
+    ctx: QueryCtx | ActionCtx,
+    target: { scope?: Scope; resource?: ResourceContext },
+    cache: ResourceCache
+  ): Promise<ResourceContext | undefined> {
+    const { resource } = target;
+    const named = resource ?? target.scope;
+    const loader = this.resourceLoaderFor(target);
+    if (!named || !loader) return resource;
+
+    const key = `${named.type}:${named.id}`;
+    let pending = cache.get(key);
+    if (!pending) {
+      pending = Promise.resolve(loader(ctx as LoaderCtx, named.id));
+      cache.set(key, pending);
     }
+    const attributes = await pending;
+    return attributes ? { type: named.type, id: named.id, attributes } : resource;
+  }
 
-    let best: { key: string; policy: PolicyDefinition; score: number } | null = null;
-    for (const [key, policy] of Object.entries(policies)) {
-      if (!policy) continue;
-      if (key === permission) {
-        return { key, policy };
-      }
-      if (!matchesPermissionPattern(permission, key)) continue;
-
-      let score = 0;
-      if (key === "*" || key === "*:*") {
-        score = 0;
-      } else {
-        try {
-          const { resource, action } = parsePermission(key);
-          score = (resource === "*" ? 0 : 2) + (action === "*" ? 0 : 1);
-        } catch {
-          score = 0;
-        }
-      }
+  /**
+   * Closures run in the client; JSON conditions are evaluated by the component
+   */
+  protected evaluatesInClient(policy: PolicyDefinition<A>): boolean {
+    return !isCondition(policy.condition);
+  }
 
-      if (!best || score > best.score) {
-        best = { key, policy, score };
-      }
-    }
+  /**
+   * Config policies matching a permission that run in the client, most
+   * specific first
+   */
+  protected matchClientPolicies(
+    permission: PermissionString<P>
+  ): { key: string; policy: PolicyDefinition<A> }[] {
+    const policies: Partial<Record<string, PolicyDefinition<A>>> =
+      this.config.policies ?? {};
+    return policyPatterns(permission).flatMap((key) => {
+      const policy = policies[key];
+      return policy && this.evaluatesInClient(policy) ? [{ key, policy }] : [];
+    });
+  }
 
-    return best ? { key: best.key, policy: best.policy } : null;
+  /**
+   * Whether client policies could change a result combined without them.
+   * Deny policies only narrow access and allow policies only widen it (never
+   * past an override), so a denied check skips deny policies and an allowed
+   * one skips allow policies.
+   */
+  protected clientPoliciesMayChange(
+    result: CheckResult,
+    permission: PermissionString<P>
+  ): boolean {
+    return this.matchClientPolicies(permission).some(({ policy }) =>
+      (policy.effect ?? "deny") === "deny"
+        ? result.allowed
+        : !result.allowed && !result.matchedOverride
+    );
+  }
+
+  /**
+   * Whether a check has to be repeated: a policy read resource attributes
+   * a loader can provide, or client policies could change the outcome
+   */
+  protected needsRecheck(
+    result: CheckResult,
+    permission: PermissionString<P>,
+    target: { scope?: Scope; resource?: ResourceContext }
+  ): boolean {
+    return (
+      (!!result.missingResourceAttributes && !!this.resourceLoaderFor(target)) ||
+      this.clientPoliciesMayChange(result, permission)
+    );
   }
 
-  protected async applyPolicyIfNeeded(
+  /**
+   * Evaluate the config policies matching a permission that run in the
+   * client. Their decisions are combined with the other policies by the
+   * check.
+   */
+  protected async evaluateClientPolicies(
     ctx: QueryCtx | ActionCtx,
     userId: string,
     permission: PermissionString<P>,
-    base: CheckResult,
-    options: CheckOptions<P>
-  ): Promise<CheckResult> {
-    const policyMatch = this.getPolicyForPermission(permission);
-    if (!policyMatch) return base;
-
-    const effect = policyMatch.policy.effect ?? "deny";
-    if (effect === "deny" && !base.allowed) {
-      return base;
-    }
-    if (effect === "allow" && base.allowed) {
-      return base;
-    }
-    if (effect === "allow" && !base.allowed && base.matchedOverride) {
-      return base;
+    options: CheckOptions<P>,
+    cache: SubjectCache = { roles: new Map() }
+  ): Promise<PolicyDecision[]> {
+    const matches = this.matchClientPolicies(permission);
+    if (matches.length === 0) return [];
+
+    let roles = options.subject?.roles;
+    if (!roles) {
+      const scopeKey = options.scope ? `${options.scope.type}:${options.scope.id}` : "";
+      let pending = cache.roles.get(scopeKey);
+      if (!pending) {
+        pending = this.getUserRoles(ctx, userId, options.scope).then((assigned) =>
+          assigned.map((r) => r.role)
+        );
+        cache.roles.set(scopeKey, pending);
+      }
+      roles = await pending;
     }
-
-    const roles = options.subject?.roles
-      ?? (await this.getUserRoles(ctx, userId, options.scope)).map((r) => r.role);
     const attributes = options.subject?.attributes
-      ?? (await this.getUserAttributeMap(ctx, userId));
+      ?? (await (cache.attributes ??= this.getUserAttributeMap(ctx, userId)));
 
     const policyContext = createPolicyContext(
       userId,
@@ -336,43 +592,23 @@ export class Authz<P extends PermissionsConfig> {
       attributes,
       permission,
       options.resource,
-      { ip: options.environment?.ip }
+      options.environment
     );
 
-    if (options.environment?.timestamp) {
-      policyContext.environment.timestamp = options.environment.timestamp;
+    const decisions: PolicyDecision[] = [];
+    for (const { key, policy } of matches) {
+      const condition = policy.condition;
+      const passed = isCondition(condition)
+        ? evaluateCondition(condition, policyContext)
+        : Boolean(await condition(policyContext as TypedPolicyContext<A>));
+      decisions.push({
+        key,
+        effect: policy.effect ?? "deny",
+        passed,
+        message: policy.message,
+      });
     }
-
-    const passed = Boolean(await policyMatch.policy.condition(policyContext));
-    const decision: PolicyDecision = {
-      key: policyMatch.key,
-      effect,
-      passed,
-      message: policyMatch.policy.message,
-    };
-
-    if (effect === "deny") {
-      if (!passed) {
-        return {
-          ...base,
-          allowed: false,
-          reason: policyMatch.policy.message ?? "Denied by policy",
-          policy: decision,
-        };
-      }
-      return { ...base, policy: decision };
-    }
-
-    if (passed) {
-      return {
-        ...base,
-        allowed: true,
-        reason: policyMatch.policy.message ?? "Allowed by policy",
-        policy: decision,
-      };
-    }
-
-    return { ...base, policy: decision };
+    return decisions;
   }
 
   async check(
@@ -383,8 +619,36 @@ export class Authz<P extends PermissionsConfig> {
   ): Promise<CheckResult> {
     const normalizedPermission = normalizePermissionInput(permission);
     const normalizedOptions = this.normalizeCheckOptions(options);
-    const base = await this.runCheck(ctx, userId, normalizedPermission, normalizedOptions.scope);
-    const result = await this.applyPolicyIfNeeded(ctx, userId, normalizedPermission, base, normalizedOptions);
+    let result = await this.runCheck(
+      ctx,
+      userId,
+      normalizedPermission,
+      normalizedOptions.scope,
+      normalizedOptions
+    );
+    // Resource attributes are loaded, closure policies run and the check is
+    // repeated only when a policy reads the resource or closures could
+    // change the outcome
+    if (this.needsRecheck(result, normalizedPermission, normalizedOptions)) {
+      const recheckOptions: CheckOptions<P> = {
+        ...normalizedOptions,
+        resource: await this.loadResource(ctx, normalizedOptions, new Map()),
+      };
+      const policyDecisions = await this.evaluateClientPolicies(
+        ctx,
+        userId,
+        normalizedPermission,
+        recheckOptions
+      );
+      result = await this.runCheck(
+        ctx,
+        userId,
+        normalizedPermission,
+        recheckOptions.scope,
+        recheckOptions,
+        policyDecisions
+      );
+    }
 
     if (normalizedOptions.audit ?? this.options.auditChecks) {
       if ("runMutation" in ctx) {
@@ -401,6 +665,81 @@ export class Authz<P extends PermissionsConfig> {
     return result;
   }
 
+  /**
+   * Check many permissions for a user in a single component round-trip.
+   * Items whose policies read resource attributes a loader can provide, or
+   * whose closure policies could change their outcome, are checked again in
+   * one more round-trip. Resources are loaded once per batch, and closures
+   * run against roles and attributes read once for the batch (roles once
+   * per distinct scope). Results keep the input order.
+   */
+  async checkMany(
+    ctx: QueryCtx | ActionCtx,
+    userId: string,
+    checks: CheckManyItem<P>[],
+    options?: Omit<CheckOptions<P>, "scope" | "resource">
+  ): Promise<CheckResult[]> {
+    if (checks.length === 0) return [];
+
+    const normalizedChecks = checks.map((item) => ({
+      permission: normalizePermissionInput(item.permission),
+      scope: item.scope,
+      resource: item.resource,
+      policyDecisions: [] as PolicyDecision[],
+    }));
+    const context = {
+      environment: options?.environment,
+      subject: options?.subject,
+    };
+    const results = await this.runCheckMany(ctx, userId, normalizedChecks, context);
+
+    const retry = normalizedChecks.flatMap((check, i) =>
+      this.needsRecheck(results[i], check.permission, check) ? [i] : []
+    );
+    if (retry.length > 0) {
+      // Shared across items, so each resource and the subject are loaded once
+      const loaded: ResourceCache = new Map();
+      const subject: SubjectCache = { roles: new Map() };
+      const retried = [];
+      for (const i of retry) {
+        const check = normalizedChecks[i];
+        const resource = await this.loadResource(ctx, check, loaded);
+        retried.push({
+          ...check,
+          resource,
+          policyDecisions: await this.evaluateClientPolicies(
+            ctx,
+            userId,
+            check.permission,
+            { ...options, scope: check.scope, resource },
+            subject
+          ),
+        });
+      }
+      const retriedResults = await this.runCheckMany(ctx, userId, retried, context);
+      retry.forEach((index, n) => {
+        results[index] = retriedResults[n];
+      });
+    }
+
+    for (let i = 0; i < checks.length; i++) {
+      const result = results[i];
+      if (options?.audit ?? this.options.auditChecks) {
+        if ("runMutation" in ctx) {
+          await ctx.runMutation(this.component.mutations.logPermissionCheck, {
+            userId,
+            permission: normalizedChecks[i].permission,
+            result: result.allowed,
+            scope: normalizedChecks[i].scope,
+            reason: result.reason,
+          });
+        }
+      }
+    }
+
+    return results;
+  }
+
   async explain(
     ctx: QueryCtx | ActionCtx,
     userId: string,
@@ -459,6 +798,58 @@ export class Authz<P extends PermissionsConfig> {
     });
   }
 
+  /**
+   * Check if a user holds a role, or a role inheriting from it, in a scope
+   * (or one of its ancestors). The hierarchy follows `inherits` in the config
+   * and `parentRole` of roles created at runtime.
+   */
+  async isAtLeast<R extends RoleName<P> | string>(
+    ctx: QueryCtx | ActionCtx,
+    userId: string,
+    role: R,
+    scope?: Scope
+  ): Promise<boolean> {
+    return await ctx.runQuery(this.component.queries.isAtLeast, {
+      userId,
+      role,
+      scope,
+      roleParents: this.getRoleParents(),
+    });
+  }
+
+  /**
+   * Check if an actor may assign (or revoke) a role in a scope: they must be
+   * at least that role there, so nobody can grant more than they hold
+   */
+  async canAssignRole<R extends RoleName<P> | string>(
+    ctx: QueryCtx | ActionCtx,
+    actorId: string,
+    role: R,
+    scope?: Scope
+  ): Promise<boolean> {
+    return await this.isAtLeast(ctx, actorId, role, scope);
+  }
+
+  /**
+   * Throw FORBIDDEN unless the actor may assign the role in the scope.
+   * Call before assignRole/revokeRole when members manage each other.
+   */
+  async requireCanAssignRole<R extends RoleName<P> | string>(
+    ctx: QueryCtx | ActionCtx,
+    actorId: string,
+    role: R,
+    scope?: Scope
+  ): Promise<void> {
+    if (await this.canAssignRole(ctx, actorId, role, scope)) return;
+
+    throw new ConvexError({
+      code: "FORBIDDEN",
+      message: `${actorId} cannot assign role "${role}" without holding it`,
+      role,
+      scope: scope ? { type: scope.type, id: scope.id } : undefined,
+    });
+  }
+
   /* --- Management Mutations --- */
 
   async assignRole<R extends RoleName<P> | string>(
@@ -552,6 +943,37 @@ export class Authz<P extends PermissionsConfig> {
     });
   }
 
+  /**
+   * Page through users holding a role (global holders and holders on an ancestor scope are included for scoped queries, each user once)
+   */
+  async getUsersWithRolePage(
+    ctx: QueryCtx | ActionCtx,
+    role: RoleName<P> | string,
+    paginationOpts: PaginationOptions,
+    scope?: Scope
+  ) {
+    return await ctx.runQuery(this.component.queries.getUsersWithRolePage, {
+      role,
+      scope,
+      paginationOpts,
+    });
+  }
+
+  /**
+   * Page through audit log entries, newest first
+   */
+  async getAuditLogPage(
+    ctx: QueryCtx | ActionCtx,
+    paginationOpts: PaginationOptions,
+    filters: { userId?: string; action?: AuditAction } = {}
+  ) {
+    return await ctx.runQuery(this.component.queries.getAuditLogPage, {
+      userId: filters.userId,
+      action: filters.action,
+      paginationOpts,
+    });
+  }
+
   /**
    * Grant a direct permission override
    */
@@ -604,17 +1026,48 @@ export class Authz<P extends PermissionsConfig> {
     });
   }
 
-  async setAttribute(
+  async getUserAttributesPage(
+    ctx: QueryCtx | ActionCtx,
+    userId: string,
+    paginationOpts: PaginationOptions
+  ) {
+    return await ctx.runQuery(this.component.queries.getUserAttributesPage, {
+      userId,
+      paginationOpts,
+    });
+  }
+
+  /**
+   * Get a single user attribute, typed by `config.attributes`
+   */
+  async getAttribute<K extends AttributeKey<A>>(
+    ctx: QueryCtx | ActionCtx,
+    userId: string,
+    key: K
+  ): Promise<AttributeValueOf<A, K> | null> {
+    const attribute = await ctx.runQuery(this.component.queries.getUserAttribute, {
+      userId,
+      key,
+    });
+    return attribute === null ? null : (attribute as AttributeValueOf<A, K>);
+  }
+
+  /**
+   * Set a user attribute. With `config.attributes`, unknown keys and values
+   * that fail the key's validator are rejected with INVALID_ATTRIBUTE.
+   */
+  async setAttribute<K extends AttributeKey<A>>(
     ctx: MutationCtx | ActionCtx,
     userId: string,
-    key: string,
-    value: AttributeValue,
+    key: K,
+    value: AttributeValueOf<A, K>,
     assignedBy?: string
   ): Promise<string> {
     return await ctx.runMutation(this.component.mutations.setAttribute, {
       userId,
       key,
       value,
+      attributeSchema: this.getAttributeSchema(),
       setBy: assignedBy ?? this.options.defaultActorId,
       enableAudit: true,
     });
@@ -640,41 +1093,54 @@ export class Authz<P extends PermissionsConfig> {
 
   async addRelation(
     ctx: MutationCtx | ActionCtx,
-    args: RelationInput
+    args: TypedRelationTuple<R> & Pick<
+      RelationInput,
+      "inheritedRelations" | "expiresAt" | "condition" | "createdBy"
+    >
   ): Promise<string> {
+    this.assertRelationAllowed(args);
     return await ctx.runMutation(this.component.rebac.addRelation, {
       subjectType: args.subjectType,
       subjectId: args.subjectId,
+      subjectRelation: args.subjectRelation,
       relation: args.relation,
       objectType: args.objectType,
       objectId: args.objectId,
-      createdBy: args.createdBy,
+      expiresAt: args.expiresAt,
+      condition: args.condition,
+      createdBy: args.createdBy ?? this.options.defaultActorId,
+      enableAudit: true,
     });
   }
 
   async removeRelation(
     ctx: MutationCtx | ActionCtx,
-    args: Omit<RelationInput, "createdBy" | "inheritedRelations">
+    args: TypedRelationTuple<R> & { removedBy?: string }
   ): Promise<boolean> {
     return await ctx.runMutation(this.component.rebac.removeRelation, {
       subjectType: args.subjectType,
       subjectId: args.subjectId,
+      subjectRelation: args.subjectRelation,
       relation: args.relation,
       objectType: args.objectType,
       objectId: args.objectId,
+      removedBy: args.removedBy ?? this.options.defaultActorId,
+      enableAudit: true,
     });
   }
 
   async hasRelation(
     ctx: QueryCtx | ActionCtx,
-    args: Omit<RelationInput, "createdBy" | "inheritedRelations">
+    args: TypedRelationTuple<R> & { environment?: EnvironmentContext }
   ): Promise<boolean> {
     return await ctx.runQuery(this.component.rebac.hasDirectRelation, {
       subjectType: args.subjectType,
       subjectId: args.subjectId,
+      subjectRelation: args.subjectRelation,
       relation: args.relation,
       objectType: args.objectType,
       objectId: args.objectId,
+      environment: args.environment,
     });
   }
 
@@ -692,43 +1158,233 @@ export class Authz<P extends PermissionsConfig> {
     return await ctx.runQuery(this.component.rebac.getObjectRelations, args);
   }
 
+  async getSubjectRelationsPage(
+    ctx: QueryCtx | ActionCtx,
+    args: { subjectType: string; subjectId: string; objectType?: string },
+    paginationOpts: PaginationOptions
+  ) {
+    return await ctx.runQuery(this.component.rebac.getSubjectRelationsPage, {
+      ...args,
+      paginationOpts,
+    });
+  }
+
+  async getObjectRelationsPage(
+    ctx: QueryCtx | ActionCtx,
+    args: { objectType: string; objectId: string; relation?: string },
+    paginationOpts: PaginationOptions
+  ) {
+    return await ctx.runQuery(this.component.rebac.getObjectRelationsPage, {
+      ...args,
+      paginationOpts,
+    });
+  }
+
+  /**
+   * Check a relation, following traversal rules.
+   * Defaults to the rules compiled from `config.relations`.
+   */
   async checkRelationWithTraversal(
     ctx: QueryCtx | ActionCtx,
-    args: {
-      subjectType: string;
-      subjectId: string;
-      relation: string;
-      objectType: string;
-      objectId: string;
-      traversalRules?: unknown;
+    args: TypedRelationCheck<R> & {
+      traversalRules?: TraversalRules;
       maxDepth?: number;
+      environment?: EnvironmentContext;
     }
   ) {
-    return await ctx.runQuery(this.component.rebac.checkRelationWithTraversal, args);
+    return await ctx.runQuery(this.component.rebac.checkRelationWithTraversal, {
+      subjectType: args.subjectType,
+      subjectId: args.subjectId,
+      relation: args.relation,
+      objectType: args.objectType,
+      objectId: args.objectId,
+      traversalRules: args.traversalRules ?? this.getTraversalRules(),
+      maxDepth: args.maxDepth,
+      environment: args.environment,
+    });
   }
 
   async listAccessibleObjects(
     ctx: QueryCtx | ActionCtx,
-    args: {
-      subjectType: string;
-      subjectId: string;
-      relation: string;
-      objectType: string;
-      traversalRules?: unknown;
+    args: DistributiveOmit<TypedRelationCheck<R>, "objectId"> & {
+      traversalRules?: TraversalRules;
+      maxDepth?: number;
+      environment?: EnvironmentContext;
     }
   ) {
-    return await ctx.runQuery(this.component.rebac.listAccessibleObjects, args);
+    return await ctx.runQuery(this.component.rebac.listAccessibleObjects, {
+      subjectType: args.subjectType,
+      subjectId: args.subjectId,
+      relation: args.relation,
+      objectType: args.objectType,
+      traversalRules: args.traversalRules ?? this.getTraversalRules(),
+      maxDepth: args.maxDepth,
+      environment: args.environment,
+    });
   }
 
   async listUsersWithAccess(
     ctx: QueryCtx | ActionCtx,
-    args: {
-      objectType: string;
-      objectId: string;
-      relation: string;
+    args: DistributiveOmit<TypedRelationCheck<R>, "subjectType" | "subjectId"> & {
+      traversalRules?: TraversalRules;
+      maxDepth?: number;
+      environment?: EnvironmentContext;
     }
   ) {
-    return await ctx.runQuery(this.component.rebac.listUsersWithAccess, args);
+    return await ctx.runQuery(this.component.rebac.listUsersWithAccess, {
+      objectType: args.objectType,
+      objectId: args.objectId,
+      relation: args.relation,
+      traversalRules: args.traversalRules ?? this.getTraversalRules(),
+      maxDepth: args.maxDepth,
+      environment: args.environment,
+    });
+  }
+
+  // =========================================================================
+  // Scope Hierarchy
+  // =========================================================================
+
+  /**
+   * Nest a scope under a parent (e.g. document -> project -> org).
+   * Roles and overrides on the parent then apply to the scope.
+   */
+  async setScopeParent(
+    ctx: MutationCtx | ActionCtx,
+    scope: Scope,
+    parent: Scope
+  ): Promise<string> {
+    return await ctx.runMutation(this.component.scopes.setScopeParent, {
+      scope,
+      parent,
+      createdBy: this.options.defaultActorId,
+      enableAudit: true,
+    });
+  }
+
+  /**
+   * Detach a scope from its parent
+   */
+  async removeScopeParent(
+    ctx: MutationCtx | ActionCtx,
+    scope: Scope
+  ): Promise<boolean> {
+    return await ctx.runMutation(this.component.scopes.removeScopeParent, {
+      scope,
+      removedBy: this.options.defaultActorId,
+      enableAudit: true,
+    });
+  }
+
+  /**
+   * Get the ancestors of a scope, nearest first
+   */
+  async getScopeAncestors(ctx: QueryCtx | ActionCtx, scope: Scope) {
+    return await ctx.runQuery(this.component.scopes.getScopeAncestors, {
+      scope,
+    });
+  }
+
+  // =========================================================================
+  // History
+  // =========================================================================
+
+  /**
+   * Check a permission as it stood at a past time (e.g. for an incident
+   * review). Uses the role assignments and overrides in effect at
+   * `timestamp`. This is narrower than `can`:
+   * - relation grants are not evaluated (relations are not versioned)
+   * - stored, config and scope-attached policies are not evaluated
+   * - custom role definitions and the scope hierarchy are read as they are now
+   * The result's `asOf` lists the skipped and current-state inputs.
+   */
+  async checkAsOf(
+    ctx: QueryCtx | ActionCtx,
+    userId: string,
+    permission: PermissionInput<P>,
+    scope: Scope | undefined,
+    timestamp: number
+  ): Promise<AsOfCheckResult> {
+    return await ctx.runQuery(this.component.queries.checkPermissionAsOf, {
+      userId,
+      permission: normalizePermissionInput(permission),
+      scope,
+      rolePermissions: this.getRoleGrantsMap(),
+      timestamp,
+    });
+  }
+
+  /**
+   * Get how long revoked and expired grants are kept (null = forever)
+   */
+  async getHistoryRetention(ctx: QueryCtx | ActionCtx): Promise<number | null> {
+    return await ctx.runQuery(this.component.history.getHistoryRetention, {});
+  }
+
+  /**
+   * Set how long revoked and expired grants are kept (null = forever).
+   * Older history is purged by the expiry sweep.
+   */
+  async setHistoryRetention(
+    ctx: MutationCtx | ActionCtx,
+    retentionMs: number | null
+  ): Promise<void> {
+    await ctx.runMutation(this.component.history.setHistoryRetention, {
+      retentionMs,
+      updatedBy: this.options.defaultActorId,
+      enableAudit: true,
+    });
+  }
+
+  // =========================================================================
+  // Stored Policies
+  // =========================================================================
+
+  /**
+   * Store a JSON-condition policy for a permission pattern, replacing any
+   * existing one. Stored system policies are evaluated inside standard
+   * checks and win over a config policy with the same pattern.
+   * Pass a scope (e.g. the tenant's org) to attach a tenant policy instead;
+   * tenant policies must use the deny effect, so they can only narrow access.
+   */
+  async setPolicy(
+    ctx: MutationCtx | ActionCtx,
+    permission: ValidPermissionPattern<P>,
+    policy: ConditionPolicy,
+    scope?: Scope
+  ): Promise<string> {
+    return await ctx.runMutation(this.component.policies.setPolicy, {
+      permission,
+      scope,
+      condition: policy.condition,
+      effect: policy.effect,
+      message: policy.message,
+      updatedBy: this.options.defaultActorId,
+      enableAudit: true,
+    });
+  }
+
+  /**
+   * Delete the stored policy for a permission pattern (in a scope)
+   */
+  async deletePolicy(
+    ctx: MutationCtx | ActionCtx,
+    permission: ValidPermissionPattern<P>,
+    scope?: Scope
+  ): Promise<boolean> {
+    return await ctx.runMutation(this.component.policies.deletePolicy, {
+      permission,
+      scope,
+      deletedBy: this.options.defaultActorId,
+      enableAudit: true,
+    });
+  }
+
+  /**
+   * List a scope's tenant policies, or the stored system policies
+   */
+  async listPolicies(ctx: QueryCtx | ActionCtx, scope?: Scope) {
+    return await ctx.runQuery(this.component.policies.listPolicies, { scope });
   }
 
   // =========================================================================
@@ -762,6 +1418,8 @@ export class Authz<P extends PermissionsConfig> {
 
     return await ctx.runMutation(this.component.mutations.syncSystemRoles, {
       roles,
+      syncedBy: this.options.defaultActorId,
+      enableAudit: true,
     });
   }
 
@@ -788,6 +1446,8 @@ export class Authz<P extends PermissionsConfig> {
       label: definition.label,
       description: definition.description,
       createdBy: this.options.defaultActorId,
+      staticRoleNames: Object.keys(this.config.roles),
+      enableAudit: true,
     });
   }
 
@@ -811,6 +1471,8 @@ export class Authz<P extends PermissionsConfig> {
       label: updates.label,
       description: updates.description,
       updatedBy: this.options.defaultActorId,
+      staticRoles: this.getRoleGrantsMap(),
+      enableAudit: true,
     });
   }
 
@@ -824,6 +1486,8 @@ export class Authz<P extends PermissionsConfig> {
     return await ctx.runMutation(this.component.mutations.deleteRoleDefinition, {
       roleId: roleId as Id<"roleDefinitions">,
       deletedBy: this.options.defaultActorId,
+      staticRoles: this.getRoleGrantsMap(),
+      enableAudit: true,
     });
   }
 
@@ -840,28 +1504,126 @@ export class Authz<P extends PermissionsConfig> {
       scope,
     });
   }
+
+  /**
+   * Build public queries for the React hooks in `@djpanda/convex-authz/react`.
+   * Re-export them from a module in your convex/ folder, e.g.
+   * `export const { can, roles, explain } = authz.exposeApi({ getUserId });`
+   * `explain` returns only the decision, its reason and the matched role or
+   * relation; policy decisions, override ids, paths and scopes stay on the
+   * server.
+   */
+  exposeApi(options: ExposeApiOptions) {
+    const scopeValidator = v.object({ type: v.string(), id: v.string() });
+
+    return {
+      can: queryGeneric({
+        args: { permission: this.validators.permission, scope: v.optional(scopeValidator) },
+        returns: v.boolean(),
+        handler: async (ctx, args): Promise<boolean> => {
+          const userId = await options.getUserId(ctx);
+          if (!userId) return false;
+          return await this.can(ctx, userId, args.permission, args.scope);
+        },
+      }),
+      roles: queryGeneric({
+        args: { scope: v.optional(scopeValidator) },
+        returns: v.array(
+          v.object({
+            role: v.string(),
+            scope: v.optional(scopeValidator),
+            expiresAt: v.optional(v.number()),
+          })
+        ),
+        handler: async (ctx, args) => {
+          const userId = await options.getUserId(ctx);
+          if (!userId) return [];
+          return await this.getUserRoles(ctx, userId, args.scope);
+        },
+      }),
+      explain: queryGeneric({
+        args: { permission: this.validators.permission, scope: v.optional(scopeValidator) },
+        returns: v.object({
+          allowed: v.boolean(),
+          reason: v.string(),
+          matchedRole: v.optional(v.string()),
+          matchedRelation: v.optional(v.string()),
+        }),
+        handler: async (ctx, args): Promise<ExplainResult> => {
+          const userId = await options.getUserId(ctx);
+          if (!userId) {
+            return { allowed: false, reason: "Not authenticated" };
+          }
+          const result = await this.check(ctx, userId, args.permission, args.scope);
+          return {
+            allowed: result.allowed,
+            reason: result.reason,
+            matchedRole: result.matchedRole,
+            matchedRelation: result.matchedRelation,
+          };
+        },
+      }),
+    };
+  }
 }
 
 /**
  * Indexed Authz Client (O(1) lookups)
  */
-export class IndexedAuthz<P extends PermissionsConfig> extends Authz<P> {
+export class IndexedAuthz<
+  P extends PermissionsConfig,
+  R extends RelationsConfig = RelationsConfig,
+  A extends AttributesConfig = AttributesConfig,
+> extends Authz<P, R, A> {
   protected async runCheck(
     ctx: QueryCtx | ActionCtx,
     userId: string,
     permission: PermissionString<P>,
-    scope?: Scope
+    scope?: Scope,
+    context: PolicyInputContext = {},
+    policyDecisions: PolicyDecision[] = []
   ): Promise<CheckResult> {
-    const allowed = await ctx.runQuery(this.component.indexed.checkPermissionFast, {
+    return await ctx.runQuery(this.component.indexed.checkPermissionFast, {
       userId,
       permission,
       objectType: scope?.type,
       objectId: scope?.id,
+      permissionRelations: this.getPermissionRelations(),
+      policies: this.getConditionPolicies(),
+      policyDecisions,
+      policyCombining: this.config.policyCombining,
+      resource: context.resource,
+      environment: context.environment,
+      subject: context.subject,
+    });
+  }
+
+  protected async runCheckMany(
+    ctx: QueryCtx | ActionCtx,
+    userId: string,
+    checks: {
+      permission: PermissionString<P>;
+      scope?: Scope;
+      resource?: ResourceContext;
+      policyDecisions: PolicyDecision[];
+    }[],
+    context: Omit<PolicyInputContext, "resource"> = {}
+  ): Promise<CheckResult[]> {
+    return await ctx.runQuery(this.component.indexed.checkPermissionsFast, {
+      userId,
+      checks: checks.map((check) => ({
+        permission: check.permission,
+        objectType: check.scope?.type,
+        objectId: check.scope?.id,
+        resource: check.resource,
+        policyDecisions: check.policyDecisions,
+      })),
+      permissionRelations: this.getPermissionRelations(),
+      policies: this.getConditionPolicies(),
+      policyCombining: this.config.policyCombining,
+      environment: context.environment,
+      subject: context.subject,
     });
-    return {
-      allowed,
-      reason: allowed ? "Allowed by indexed permissions" : "No indexed permission match",
-    };
   }
 
   async hasRole<R extends RoleName<P> | string>(
@@ -889,6 +1651,21 @@ export class IndexedAuthz<P extends PermissionsConfig> extends Authz<P> {
     });
   }
 
+  async isAtLeast<R extends RoleName<P> | string>(
+    ctx: QueryCtx | ActionCtx,
+    userId: string,
+    role: R,
+    scope?: Scope
+  ): Promise<boolean> {
+    return await ctx.runQuery(this.component.indexed.isAtLeastFast, {
+      userId,
+      role,
+      objectType: scope?.type,
+      objectId: scope?.id,
+      roleParents: this.getRoleParents(),
+    });
+  }
+
   async assignRole<R extends RoleName<P> | string>(
     ctx: MutationCtx | ActionCtx,
     userId: string,
@@ -924,6 +1701,8 @@ export class IndexedAuthz<P extends PermissionsConfig> extends Authz<P> {
       scope,
       expiresAt,
       assignedBy: this.options.defaultActorId,
+      staticRoles: this.getRoleGrantsMap(),
+      enableAudit: true,
     });
   }
 
@@ -952,6 +1731,9 @@ export class IndexedAuthz<P extends PermissionsConfig> extends Authz<P> {
       role: parsedRoleName,
       rolePermissions,
       scope,
+      staticRoles: this.getRoleGrantsMap(),
+      revokedBy: this.options.defaultActorId,
+      enableAudit: true,
     });
   }
 
@@ -1000,6 +1782,29 @@ export class IndexedAuthz<P extends PermissionsConfig> extends Authz<P> {
     };
   }
 
+  /**
+   * Sync the configured role grants into the component.
+   * If any role's grants changed since the last sync, existing assignments
+   * are recomputed in the background; watch progress with getRecomputeStatus.
+   * Call this from a mutation run on deploy.
+   */
+  async syncRolePermissions(ctx: MutationCtx | ActionCtx) {
+    return await ctx.runMutation(this.component.indexed.syncRolePermissions, {
+      rolePermissions: this.getRoleGrantsMap(),
+      syncedBy: this.options.defaultActorId,
+      enableAudit: true,
+    });
+  }
+
+  /**
+   * Get the progress of a recompute job (latest job when no ID is given)
+   */
+  async getRecomputeStatus(ctx: QueryCtx | ActionCtx, jobId?: string) {
+    return await ctx.runQuery(this.component.indexed.getRecomputeStatus, {
+      jobId,
+    });
+  }
+
   async grantPermission(
     ctx: MutationCtx | ActionCtx,
     userId: string,
@@ -1016,6 +1821,7 @@ export class IndexedAuthz<P extends PermissionsConfig> extends Authz<P> {
       reason,
       expiresAt,
       grantedBy: createdBy ?? this.options.defaultActorId,
+      enableAudit: true,
     });
   }
 
@@ -1035,47 +1841,69 @@ export class IndexedAuthz<P extends PermissionsConfig> extends Authz<P> {
       reason,
       expiresAt,
       deniedBy: deniedBy ?? this.options.defaultActorId,
+      enableAudit: true,
     });
   }
 
+  /**
+   * Add a relation and update the materialized relations it affects.
+   * Pass the `maxDepth` your traversal checks use, if not the default.
+   */
   async addRelation(
     ctx: MutationCtx | ActionCtx,
-    args: RelationInput
+    args: TypedRelationTuple<R> & Pick<
+      RelationInput,
+      "inheritedRelations" | "expiresAt" | "condition" | "createdBy"
+    > & { maxDepth?: number }
   ): Promise<string> {
+    this.assertRelationAllowed(args);
     return await ctx.runMutation(this.component.indexed.addRelationWithCompute, {
       subjectType: args.subjectType,
       subjectId: args.subjectId,
+      subjectRelation: args.subjectRelation,
       relation: args.relation,
       objectType: args.objectType,
       objectId: args.objectId,
+      traversalRules: this.getTraversalRules(),
       inheritedRelations: args.inheritedRelations,
-      createdBy: args.createdBy,
+      maxDepth: args.maxDepth,
+      expiresAt: args.expiresAt,
+      condition: args.condition,
+      createdBy: args.createdBy ?? this.options.defaultActorId,
+      enableAudit: true,
     });
   }
 
   async removeRelation(
     ctx: MutationCtx | ActionCtx,
-    args: Omit<RelationInput, "createdBy" | "inheritedRelations">
+    args: TypedRelationTuple<R> & { removedBy?: string; maxDepth?: number }
   ): Promise<boolean> {
     return await ctx.runMutation(this.component.indexed.removeRelationWithCompute, {
       subjectType: args.subjectType,
       subjectId: args.subjectId,
+      subjectRelation: args.subjectRelation,
       relation: args.relation,
       objectType: args.objectType,
       objectId: args.objectId,
+      traversalRules: this.getTraversalRules(),
+      maxDepth: args.maxDepth,
+      removedBy: args.removedBy ?? this.options.defaultActorId,
+      enableAudit: true,
     });
   }
 
   async hasRelation(
     ctx: QueryCtx | ActionCtx,
-    args: Omit<RelationInput, "createdBy" | "inheritedRelations">
+    args: TypedRelationTuple<R> & { environment?: EnvironmentContext }
   ): Promise<boolean> {
     return await ctx.runQuery(this.component.indexed.hasRelationFast, {
       subjectType: args.subjectType,
       subjectId: args.subjectId,
+      subjectRelation: args.subjectRelation,
       relation: args.relation,
       objectType: args.objectType,
       objectId: args.objectId,
+      environment: args.environment,
     });
   }
 }
@@ -1089,27 +1917,34 @@ export class IndexedAuthz<P extends PermissionsConfig> extends Authz<P> {
  */
 export function createAuthz<
   const P extends PermissionsConfig,
+  const R extends RelationsConfig = RelationsConfig,
+  const A extends AttributesConfig = AttributesConfig,
 >(
   component: ComponentApi,
-  config: AuthzConfig<P>,
+  config: AuthzConfig<P, R, A>,
   options?: AuthzOptions
 ) {
+  const Rel = createRelationSelectors(config.relations ?? {}) as RelationSelectors<R>;
   if (options?.strategy === "indexed") {
-    const authz = new IndexedAuthz<P>(component, config, options);
+    const authz = new IndexedAuthz<P, R, A>(component, config, options);
     return {
       authz,
       P: createSelectors(config.permissions),
+      Rel,
       permissions: config.permissions,
       roles: config.roles,
       policies: config.policies,
+      relations: config.relations,
     };
   }
-  const authz = new Authz<P>(component, config, options);
+  const authz = new Authz<P, R, A>(component, config, options);
   return {
     authz,
     P: createSelectors(config.permissions),
+    Rel,
     permissions: config.permissions,
     roles: config.roles,
     policies: config.policies,
+    relations: config.relations,
   };
 }
@@ -1,4 +1,5 @@
 import type {
+  AttributesConfig,
   AuthzConfig,
   AuthzConfigDefinition,
   PermissionsConfig,
@@ -9,7 +10,11 @@ import type {
   NormalizedRolesConfig,
   PermissionInput,
   PermissionString,
+  RelationSelectors,
+  RelationsConfig,
   Selectors,
+  TraversalRule,
+  TraversalRules,
   ValidPermissionPattern,
 } from "./types.js";
 
@@ -33,9 +38,126 @@ export function createSelectors<const P extends PermissionsConfig>(permissions:
   return selectors as Selectors<P>;
 }
 
-export function authzConfig<const P extends PermissionsConfig>(
-  config: AuthzConfigDefinition<P>
-): AuthzConfig<P> {
+/**
+ * Helper to generate the runtime 'Rel' object
+ */
+export function createRelationSelectors<const R extends RelationsConfig>(
+  relations: R
+): RelationSelectors<R> {
+  const selectors: Record<string, Record<string, { objectType: string; relation: string }>> = {};
+
+  for (const objectType of Object.keys(relations)) {
+    selectors[objectType] = {};
+    for (const relation of Object.keys(relations[objectType])) {
+      selectors[objectType][relation] = { objectType, relation };
+    }
+  }
+
+  return selectors as RelationSelectors<R>;
+}
+
+/**
+ * Compile the `computed` entries of a RelationsConfig into traversal rules.
+ * "owner" becomes a same-object rewrite; "parent->viewer" becomes one rule
+ * per subject type allowed on `parent`. Relations with an `intersection` or
+ * `exclusion` compile to a rewrite holding those alongside the union.
+ */
+export function buildTraversalRules(relations: RelationsConfig): TraversalRules {
+  const rules: TraversalRules = {};
+
+  for (const [objectType, objectRelations] of Object.entries(relations)) {
+    for (const [relation, definition] of Object.entries(objectRelations)) {
+      const key = `${objectType}:${relation}`;
+      for (const subject of definition.subjects) {
+        const [subjectType, subjectRelation] = subject.split("#");
+        if (subjectRelation && relations[subjectType] && !relations[subjectType][subjectRelation]) {
+          throw new Error(
+            `Invalid userset "${subject}" on ${key}: "${subjectRelation}" is not a relation of "${subjectType}"`
+          );
+        }
+      }
+
+      const intersection = definition.intersection ?? [];
+      const exclusion = definition.exclusion ?? [];
+      for (const [operator, names] of [["intersection", intersection], ["exclusion", exclusion]] as const) {
+        for (const name of names) {
+          if (!objectRelations[name]) {
+            throw new Error(
+              `Invalid ${operator} "${name}" on ${key}: "${name}" is not a relation of "${objectType}"`
+            );
+          }
+        }
+      }
+
+      const union = definition.computed
+        ? compileComputed(relations, objectType, key, definition.computed)
+        : [];
+
+      if (intersection.length === 0 && exclusion.length === 0) {
+        if (definition.computed) rules[key] = union;
+        continue;
+      }
+
+      // Without subjects or computed entries the intersection alone decides
+      const hasUnion = definition.subjects.length > 0 || definition.computed !== undefined;
+      rules[key] = {
+        ...(hasUnion ? { union } : {}),
+        ...(intersection.length > 0 ? { intersection: [...intersection] } : {}),
+        ...(exclusion.length > 0 ? { exclusion: [...exclusion] } : {}),
+      };
+    }
+  }
+
+  return rules;
+}
+
+function compileComputed(
+  relations: RelationsConfig,
+  objectType: string,
+  key: string,
+  computed: readonly string[]
+): TraversalRule[] {
+  const objectRelations = relations[objectType];
+  const rules: TraversalRule[] = [];
+
+  for (const entry of computed) {
+    const [via, inherit] = entry.split("->");
+    const viaDefinition = objectRelations[via];
+    if (!viaDefinition) {
+      throw new Error(
+        `Invalid computed relation "${entry}" on ${key}: "${via}" is not a relation of "${objectType}"`
+      );
+    }
+
+    if (inherit === undefined) {
+      rules.push({ inherit: via });
+      continue;
+    }
+
+    for (const through of viaDefinition.subjects) {
+      // Usersets are expanded by the component and wildcards only stand
+      // for the checked subject, so neither is followed as a parent
+      if (through.includes("#") || through.endsWith(":*")) continue;
+      if (relations[through] && !relations[through][inherit]) continue;
+      rules.push({ through, via, inherit });
+    }
+  }
+
+  return rules;
+}
+
+export function authzConfig<
+  const P extends PermissionsConfig,
+  const R extends RelationsConfig = RelationsConfig,
+  const A extends AttributesConfig = AttributesConfig,
+>(
+  config: AuthzConfigDefinition<P, R, A>
+): AuthzConfig<P, R, A> {
+  if (config.relations) {
+    // Fail fast on rules that reference undeclared relations
+    buildTraversalRules(config.relations);
+  }
+
   return {
     ...config,
     roles: normalizeRoles(config.permissions, config.roles),
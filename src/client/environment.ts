@@ -0,0 +1,34 @@
+import type { EnvironmentContext } from "./types.js";
+
+export interface EnvironmentFromRequestOptions {
+  /**
+   * Headers your proxy sets to the client IP, checked in order. Clients can
+   * send any header themselves, so none are read unless listed here.
+   * @default []
+   */
+  ipHeaders?: string[];
+}
+
+/**
+ * Build the policy environment for a Convex HTTP action request, so
+ * `ipInCidr` and schedule conditions work without parsing headers by hand.
+ * For `x-forwarded-for`, the last address is used: the one your proxy
+ * appended, rather than the client-supplied entries before it.
+ */
+export function environmentFromRequest(
+  request: Request,
+  options: EnvironmentFromRequestOptions = {}
+): EnvironmentContext {
+  let ip: string | undefined;
+  for (const header of options.ipHeaders ?? []) {
+    const hops = request.headers.get(header)?.split(",") ?? [];
+    const value = (
+      header.toLowerCase() === "x-forwarded-for" ? hops[hops.length - 1] : hops[0]
+    )?.trim();
+    if (value) {
+      ip = value;
+      break;
+    }
+  }
+  return { ip, timestamp: Date.now() };
+}
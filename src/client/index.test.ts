@@ -1,15 +1,57 @@
-import { describe, expect, it, vi } from "vitest";
-import { authzConfig, createAuthz, type ComponentApi } from "./index.js";
-import type { GenericQueryCtx, GenericDataModel } from "convex/server";
+import { describe, expect, it, vi, type Mock } from "vitest";
+import { convexTest } from "convex-test";
+import { v } from "convex/values";
+import {
+  anyApi,
+  componentsGeneric,
+  type ApiFromModules,
+  type GenericDataModel,
+  type GenericMutationCtx,
+  type GenericQueryCtx,
+} from "convex/server";
+import { register } from "../test.js";
+import {
+  authzConfig,
+  createAuthz,
+  environmentFromRequest,
+  type ComponentApi,
+  type Condition,
+} from "./index.js";
 
 type QueryCtx = Pick<GenericQueryCtx<GenericDataModel>, "runQuery">;
+type MutationCtx = Pick<GenericMutationCtx<GenericDataModel>, "runMutation">;
+
+type MockRun = Mock<(reference: unknown, args?: any) => Promise<any>>;
+type MockCtx = QueryCtx & MutationCtx & { runQuery: MockRun; runMutation: MockRun };
+
+/**
+ * A ctx whose runQuery and runMutation resolve to what `respond` returns
+ * for the called function reference
+ */
+function mockCtx(respond: (reference: unknown) => unknown = () => undefined): MockCtx {
+  return {
+    runQuery: vi.fn(async (reference: unknown) => respond(reference)),
+    runMutation: vi.fn(async (reference: unknown) => respond(reference)),
+  } as unknown as MockCtx;
+}
 
 // Mock component API
 const mockComponent: ComponentApi = {
   queries: {
     checkPermission: "checkPermission",
+    checkPermissions: "checkPermissions",
     hasRole: "hasRole",
+    isAtLeast: "isAtLeast",
     getUserRoles: "getUserRoles",
+    getUserAttributes: "getUserAttributes",
+  },
+  indexed: {
+    checkPermissionFast: "checkPermissionFast",
+  },
+  rebac: {
+    addRelation: "addRelation",
+    checkRelationWithTraversal: "checkRelationWithTraversal",
+    hasDirectRelation: "hasDirectRelation",
   },
   mutations: {
     assignRole: "assignRole",
@@ -22,6 +64,32 @@ const mockComponent: ComponentApi = {
   },
 } as any as ComponentApi; // We still need a small cast here because we're not providing all methods, but using any for easier mocking in tests is generally acceptable IF it doesn't leak. However, I will try to make it cleaner.
 
+// exposeApi queries run for real against the component in convex-test
+const components = componentsGeneric() as unknown as { authz: ComponentApi };
+const { authz: exposedAuthz } = createAuthz(
+  components.authz,
+  authzConfig({
+    permissions: { threads: ["read"] },
+    roles: { member: { grants: { threads: ["read"] } } },
+  })
+);
+export const { can, roles, explain } = exposedAuthz.exposeApi({
+  getUserId: async (ctx) => (await ctx.auth.getUserIdentity())?.subject ?? null,
+});
+type TestApi = ApiFromModules<{ "index.test": typeof import("./index.test.js") }>;
+const exposedApi = (anyApi as unknown as TestApi)["index.test"];
+// import.meta.glob never matches the importing file, so list this one by hand
+const modules = {
+  ...import.meta.glob("./_generated/**/*.ts"),
+  "./index.test.ts": () => import("./index.test.js"),
+};
+
+function exposeTest() {
+  const t = convexTest(undefined, modules);
+  register(t, "authz");
+  return t;
+}
+
 describe("createAuthz", () => {
   it("should create an authz client with config and generators", () => {
     const { authz, P } = createAuthz(
@@ -107,9 +175,7 @@ describe("Authz Client", () => {
 
   describe("Fluent API", () => {
     it("should chain perform and check correctly", async () => {
-      const ctx = {
-        runQuery: vi.fn().mockResolvedValue({ allowed: true, reason: "ok" })
-      } as any as QueryCtx;
+      const ctx = mockCtx(() => ({ allowed: true, reason: "ok" }));
       const userId = "user1";
 
       // Builder usage
@@ -126,9 +192,7 @@ describe("Authz Client", () => {
     });
 
     it("should chain scope correctly", async () => {
-      const ctx = {
-        runQuery: vi.fn().mockResolvedValue({ allowed: true, reason: "ok" })
-      } as any as QueryCtx;
+      const ctx = mockCtx(() => ({ allowed: true, reason: "ok" }));
       const userId = "user1";
       const orgScope = { type: "org", id: "1" };
 
@@ -145,4 +209,635 @@ describe("Authz Client", () => {
       );
     });
   });
+
+  describe("checkMany", () => {
+    it("should send all checks in a single query", async () => {
+      const ctx = mockCtx(() => [
+        { allowed: true, reason: "ok" },
+        { allowed: false, reason: "no" },
+      ]);
+      const orgScope = { type: "org", id: "1" };
+
+      const results = await authz.checkMany(ctx, "user1", [
+        { permission: P.threads.read },
+        { permission: P.org.manage, scope: orgScope },
+      ]);
+
+      expect(results.map((r) => r.allowed)).toEqual([true, false]);
+      expect(ctx.runQuery).toHaveBeenCalledTimes(1);
+      expect(ctx.runQuery).toHaveBeenCalledWith(
+        mockComponent.queries.checkPermissions,
+        expect.objectContaining({
+          userId: "user1",
+          checks: [
+            { permission: "threads:read", scope: undefined, policyDecisions: [] },
+            { permission: "org:manage", scope: orgScope, policyDecisions: [] },
+          ],
+        })
+      );
+    });
+  });
+
+  describe("JSON condition policies", () => {
+    const { authz: policyAuthz, P: PP } = createAuthz(
+      mockComponent,
+      authzConfig({
+        permissions: { threads: ["read", "delete"] },
+        roles: { member: { grants: { threads: ["read", "delete"] } } },
+        policies: {
+          "threads:delete": {
+            condition: {
+              eq: [{ ref: "resource.attributes.ownerId" }, { ref: "subject.userId" }],
+            },
+            message: "Only the author can delete",
+          },
+        },
+      })
+    );
+
+    it("should send JSON policies and request context to the component", async () => {
+      const ctx = mockCtx(() => ({ allowed: true, reason: "ok" }));
+      const resource = { type: "thread", id: "t1", attributes: { ownerId: "user1" } };
+
+      const result = await policyAuthz.check(ctx, "user1", PP.threads.delete, {
+        resource,
+        environment: { ip: "10.0.0.1" },
+      });
+
+      // Evaluated by the component, not again in the client
+      expect(result.allowed).toBe(true);
+      expect(ctx.runQuery).toHaveBeenCalledTimes(1);
+      expect(ctx.runQuery).toHaveBeenCalledWith(
+        mockComponent.queries.checkPermission,
+        expect.objectContaining({
+          resource,
+          environment: { ip: "10.0.0.1" },
+          policies: {
+            "threads:delete": {
+              condition: {
+                eq: [{ ref: "resource.attributes.ownerId" }, { ref: "subject.userId" }],
+              },
+              effect: undefined,
+              message: "Only the author can delete",
+            },
+          },
+        })
+      );
+    });
+  });
+
+  describe("policy combining", () => {
+    const config = authzConfig({
+      permissions: { deals: ["read", "update"] },
+      roles: {},
+      policies: {
+        "deals:update": {
+          effect: "allow",
+          condition: (ctx) => ctx.hasRole("approver"),
+          message: "Approvers can update deals",
+        },
+        "*": {
+          condition: { neq: [{ ref: "environment.ip" }, "10.0.0.66"] },
+          message: "Blocked network",
+        },
+      },
+      policyCombining: "permit-overrides",
+    });
+
+    it("should send closure decisions to be combined in the component", async () => {
+      const { authz: combiningAuthz, P: CP } = createAuthz(mockComponent, config);
+      const ctx = mockCtx(() => ({ allowed: false, reason: "no" }));
+
+      await combiningAuthz.check(ctx, "user1", CP.deals.update, {
+        subject: { roles: ["approver"], attributes: {} },
+      });
+
+      // The allow policy could grant the denied check, so it is repeated
+      expect(ctx.runQuery).toHaveBeenCalledTimes(2);
+      expect(ctx.runQuery).toHaveBeenLastCalledWith(
+        mockComponent.queries.checkPermission,
+        expect.objectContaining({
+          policyCombining: "permit-overrides",
+          policyDecisions: [
+            {
+              key: "deals:update",
+              effect: "allow",
+              passed: true,
+              message: "Approvers can update deals",
+            },
+          ],
+        })
+      );
+    });
+
+    it("should skip closures that cannot change the outcome", async () => {
+      const { authz: combiningAuthz, P: CP } = createAuthz(mockComponent, config);
+      const ctx = mockCtx(() => ({ allowed: true, reason: "ok" }));
+
+      await combiningAuthz.check(ctx, "user1", CP.deals.update);
+
+      // An allow policy cannot change an allowed check
+      expect(ctx.runQuery).toHaveBeenCalledTimes(1);
+      expect(ctx.runQuery).toHaveBeenCalledWith(
+        mockComponent.queries.checkPermission,
+        expect.objectContaining({ policyDecisions: [] })
+      );
+    });
+
+    it("should send policies to the component for the indexed strategy", async () => {
+      const { authz: indexedAuthz, P: CP } = createAuthz(mockComponent, config, {
+        strategy: "indexed",
+      });
+      const ctx = mockCtx(() => ({ allowed: false, reason: "no" }));
+
+      await indexedAuthz.check(ctx, "user1", CP.deals.update, {
+        subject: { roles: ["approver"], attributes: {} },
+        environment: { ip: "10.0.0.66" },
+      });
+
+      // Stored, config and tenant policies are combined by the fast check
+      expect(ctx.runQuery).toHaveBeenCalledTimes(2);
+      expect(ctx.runQuery).toHaveBeenLastCalledWith(
+        mockComponent.indexed.checkPermissionFast,
+        expect.objectContaining({
+          policyCombining: "permit-overrides",
+          policies: {
+            "*": {
+              condition: { neq: [{ ref: "environment.ip" }, "10.0.0.66"] },
+              effect: undefined,
+              message: "Blocked network",
+            },
+          },
+          policyDecisions: [
+            {
+              key: "deals:update",
+              effect: "allow",
+              passed: true,
+              message: "Approvers can update deals",
+            },
+          ],
+          environment: { ip: "10.0.0.66" },
+        })
+      );
+    });
+  });
+
+  describe("closure policies in batches", () => {
+    it("should read the subject once per batch", async () => {
+      const { authz: closureAuthz, P: CP } = createAuthz(
+        mockComponent,
+        authzConfig({
+          permissions: { deals: ["read", "update", "close"] },
+          roles: {},
+          policies: {
+            "deals:*": { condition: (ctx) => ctx.hasRole("sales") },
+          },
+        })
+      );
+      const ctx = mockCtx((ref) => {
+        if (ref === mockComponent.queries.getUserRoles) return [{ role: "sales" }];
+        if (ref === mockComponent.queries.getUserAttributes) return [];
+        return [1, 2, 3].map(() => ({ allowed: true, reason: "ok" }));
+      });
+      const org = { type: "org", id: "1" };
+
+      await closureAuthz.checkMany(ctx, "user1", [
+        { permission: CP.deals.read, scope: org },
+        { permission: CP.deals.update, scope: org },
+        { permission: CP.deals.close },
+      ]);
+
+      const calls = ctx.runQuery.mock.calls.map(([ref]) => ref);
+      // Roles once per distinct scope, attributes once
+      expect(calls.filter((ref) => ref === mockComponent.queries.getUserRoles)).toHaveLength(2);
+      expect(
+        calls.filter((ref) => ref === mockComponent.queries.getUserAttributes)
+      ).toHaveLength(1);
+      // Once without closure decisions, once more with them
+      expect(calls.filter((ref) => ref === mockComponent.queries.checkPermissions)).toHaveLength(2);
+    });
+
+    it("should not read the subject when every check is already denied", async () => {
+      const { authz: closureAuthz, P: CP } = createAuthz(
+        mockComponent,
+        authzConfig({
+          permissions: { deals: ["read", "update"] },
+          roles: {},
+          policies: {
+            "deals:*": { condition: (ctx) => ctx.hasRole("sales") },
+          },
+        })
+      );
+      const ctx = mockCtx(() => [
+        { allowed: false, reason: "no" },
+        { allowed: false, reason: "no" },
+      ]);
+
+      await closureAuthz.checkMany(ctx, "user1", [
+        { permission: CP.deals.read },
+        { permission: CP.deals.update },
+      ]);
+
+      expect(ctx.runQuery).toHaveBeenCalledTimes(1);
+      expect(ctx.runQuery).toHaveBeenCalledWith(
+        mockComponent.queries.checkPermissions,
+        expect.anything()
+      );
+    });
+  });
+
+  describe("resource loaders", () => {
+    const loadDeal = vi.fn().mockResolvedValue({ amount: 250_000 });
+    const { authz: loaderAuthz, P: LP } = createAuthz(
+      mockComponent,
+      authzConfig({
+        permissions: { deals: ["read", "update"] },
+        roles: {},
+        resourceLoaders: { deal: loadDeal },
+      })
+    );
+    const deal = { type: "deal", id: "d1" };
+
+    it("should load attributes a policy reads and memoize them per batch", async () => {
+      loadDeal.mockClear();
+      const ctx = mockCtx(() => [
+        { allowed: true, reason: "ok", missingResourceAttributes: true },
+        { allowed: true, reason: "ok", missingResourceAttributes: true },
+      ]);
+
+      await loaderAuthz.checkMany(ctx, "user1", [
+        { permission: LP.deals.read, scope: deal },
+        { permission: LP.deals.update, scope: deal },
+      ]);
+
+      expect(loadDeal).toHaveBeenCalledTimes(1);
+      expect(loadDeal).toHaveBeenCalledWith(ctx, "d1");
+      expect(ctx.runQuery).toHaveBeenCalledTimes(2);
+      const { checks } = ctx.runQuery.mock.calls[1][1];
+      expect(checks.map((c: any) => c.resource)).toEqual([
+        { ...deal, attributes: { amount: 250_000 } },
+        { ...deal, attributes: { amount: 250_000 } },
+      ]);
+    });
+
+    it("should not load attributes no policy reads", async () => {
+      loadDeal.mockClear();
+      const ctx = mockCtx(() => ({ allowed: true, reason: "ok" }));
+
+      await loaderAuthz.check(ctx, "user1", LP.deals.read, deal);
+      expect(loadDeal).not.toHaveBeenCalled();
+      expect(ctx.runQuery).toHaveBeenCalledTimes(1);
+
+      // Attributes passed by the caller are used as-is
+      await loaderAuthz.check(ctx, "user1", LP.deals.read, {
+        resource: { ...deal, attributes: { amount: 1 } },
+      });
+      expect(loadDeal).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("attribute schema", () => {
+    const { authz: typedAuthz } = createAuthz(
+      mockComponent,
+      authzConfig({
+        permissions: { deals: ["close"] },
+        roles: {},
+        attributes: {
+          clearanceLevel: v.number(),
+          canCloseDeals: v.boolean(),
+        },
+        policies: {
+          "deals:close": {
+            condition: (ctx) =>
+              ctx.getAttribute("canCloseDeals", false) &&
+              ctx.getAttribute("clearanceLevel", 0) >= 3 &&
+              // @ts-expect-error - typo in the attribute key
+              ctx.hasAttribute("canCloseDeal"),
+          },
+        },
+      })
+    );
+
+    it("should send the schema with setAttribute and type keys and values", async () => {
+      const ctx = mockCtx(() => "attr1");
+
+      await typedAuthz.setAttribute(ctx, "user1", "clearanceLevel", 3);
+      // @ts-expect-error - wrong value type
+      await typedAuthz.setAttribute(ctx, "user1", "clearanceLevel", "3");
+      // @ts-expect-error - unknown key
+      await typedAuthz.setAttribute(ctx, "user1", "canCloseDeal", true);
+
+      expect(ctx.runMutation).toHaveBeenCalledWith(
+        mockComponent.mutations.setAttribute,
+        expect.objectContaining({
+          key: "clearanceLevel",
+          value: 3,
+          attributeSchema: {
+            clearanceLevel: { type: "number" },
+            canCloseDeals: { type: "boolean" },
+          },
+        })
+      );
+    });
+  });
+
+  describe("role hierarchy", () => {
+    const { authz: hierarchyAuthz } = createAuthz(
+      mockComponent,
+      authzConfig({
+        permissions: { org: ["manage"] },
+        roles: {
+          "org:admin": { grants: { org: ["manage"] }, inherits: "org:member" },
+          "org:member": { grants: {} },
+        },
+      })
+    );
+    const org = { type: "org", id: "acme" };
+
+    it("should send the configured inherits graph", async () => {
+      const ctx = mockCtx(() => true);
+
+      expect(await hierarchyAuthz.isAtLeast(ctx, "user1", "org:member", org)).toBe(true);
+      expect(ctx.runQuery).toHaveBeenCalledWith(mockComponent.queries.isAtLeast, {
+        userId: "user1",
+        role: "org:member",
+        scope: org,
+        roleParents: { "org:admin": "org:member", "org:member": null },
+      });
+    });
+
+    it("should refuse to let an actor assign a role above their own", async () => {
+      const ctx = mockCtx(() => false);
+
+      await expect(
+        hierarchyAuthz.requireCanAssignRole(ctx, "member1", "org:admin", org)
+      ).rejects.toThrow(/FORBIDDEN/);
+    });
+  });
+
+  describe("exposeApi", () => {
+    it("should check permissions for the resolved user", async () => {
+      const t = exposeTest();
+      await t.run((ctx) => exposedAuthz.assignRole(ctx, "user1", "member"));
+      const asUser = t.withIdentity({ subject: "user1" });
+
+      expect(await asUser.query(exposedApi.can, { permission: "threads:read" })).toBe(true);
+      expect(await asUser.query(exposedApi.roles, {})).toEqual([
+        expect.objectContaining({ role: "member" }),
+      ]);
+
+      // Only the decision, reason and matched role or relation reach the browser
+      const result = await asUser.query(exposedApi.explain, { permission: "threads:read" });
+      expect(Object.keys(result).sort()).toEqual(["allowed", "matchedRole", "reason"]);
+      expect(result).toMatchObject({ allowed: true, matchedRole: "member" });
+    });
+
+    it("should deny anonymous callers", async () => {
+      const t = exposeTest();
+      await t.run((ctx) => exposedAuthz.assignRole(ctx, "user1", "member"));
+
+      expect(await t.query(exposedApi.can, { permission: "threads:read" })).toBe(false);
+      expect(await t.query(exposedApi.roles, {})).toEqual([]);
+      expect(await t.query(exposedApi.explain, { permission: "threads:read" })).toEqual({
+        allowed: false,
+        reason: "Not authenticated",
+      });
+    });
+  });
+});
+
+describe("Typed relations", () => {
+  const { authz, Rel } = createAuthz(
+    mockComponent,
+    authzConfig({
+      permissions: { deals: ["read"] },
+      roles: {},
+      relations: {
+        team: { member: { subjects: ["user"] } },
+        document: { viewer: { subjects: ["user", "team#member", "user:*"] } },
+        account: {
+          owner: { subjects: ["team"] },
+          viewer: { subjects: ["user"], computed: ["owner->member"] },
+        },
+        deal: {
+          parent: { subjects: ["account"] },
+          owner: { subjects: ["user"] },
+          viewer: { subjects: ["user"], computed: ["owner", "parent->viewer"] },
+        },
+      },
+    })
+  );
+
+  it("should generate relation selectors", () => {
+    expect(Rel.deal.viewer).toEqual({ objectType: "deal", relation: "viewer" });
+  });
+
+  it("should compile computed relations into traversal rules", async () => {
+    const ctx = mockCtx(() => ({ allowed: true, path: [], reason: "ok" }));
+
+    await authz.checkRelationWithTraversal(ctx, {
+      ...Rel.deal.viewer,
+      subjectType: "user",
+      subjectId: "alice",
+      objectId: "d1",
+    });
+
+    expect(ctx.runQuery).toHaveBeenCalledWith(
+      mockComponent.rebac.checkRelationWithTraversal,
+      expect.objectContaining({
+        traversalRules: {
+          "account:viewer": [{ through: "team", via: "owner", inherit: "member" }],
+          "deal:viewer": [
+            { inherit: "owner" },
+            { through: "account", via: "parent", inherit: "viewer" },
+          ],
+        },
+      })
+    );
+  });
+
+  it("should compile intersections and exclusions into rewrites", async () => {
+    const { authz: documents } = createAuthz(
+      mockComponent,
+      authzConfig({
+        permissions: {},
+        roles: {},
+        relations: {
+          document: {
+            member: { subjects: ["user"] },
+            blocked: { subjects: ["user"] },
+            editor: { subjects: ["user"] },
+            manager: { subjects: ["user"] },
+            viewer: { subjects: [], computed: ["member"], exclusion: ["blocked"] },
+            can_approve: { subjects: [], intersection: ["editor", "manager"] },
+          },
+        },
+      })
+    );
+    const ctx = mockCtx(() => ({ allowed: true, path: [], reason: "ok" }));
+
+    await documents.checkRelationWithTraversal(ctx, {
+      objectType: "document",
+      relation: "viewer",
+      subjectType: "user",
+      subjectId: "alice",
+      objectId: "d1",
+    });
+
+    expect(ctx.runQuery).toHaveBeenCalledWith(
+      mockComponent.rebac.checkRelationWithTraversal,
+      expect.objectContaining({
+        traversalRules: {
+          "document:viewer": { union: [{ inherit: "member" }], exclusion: ["blocked"] },
+          "document:can_approve": { intersection: ["editor", "manager"] },
+        },
+      })
+    );
+  });
+
+  it("should reject tuples outside the schema", async () => {
+    const ctx = mockCtx();
+
+    await expect(
+      // @ts-expect-error - teams cannot own deals
+      authz.addRelation(ctx, {
+        subjectType: "team",
+        subjectId: "sales",
+        relation: "owner",
+        objectType: "deal",
+        objectId: "d1",
+      })
+    ).rejects.toThrow();
+    expect(ctx.runMutation).not.toHaveBeenCalled();
+  });
+
+  it("should accept userset subjects declared in the schema", async () => {
+    const ctx = mockCtx(() => "rel1");
+    const engViewers = {
+      subjectType: "team",
+      subjectId: "eng",
+      relation: "viewer",
+      objectType: "document",
+      objectId: "42",
+    } as const;
+
+    await authz.addRelation(ctx, { ...engViewers, subjectRelation: "member" });
+    expect(ctx.runMutation).toHaveBeenCalledWith(
+      mockComponent.rebac.addRelation,
+      expect.objectContaining({ subjectType: "team", subjectRelation: "member" })
+    );
+
+    // @ts-expect-error - only the team's members, not the team, can view
+    await expect(authz.addRelation(ctx, engViewers)).rejects.toThrow(/team/);
+  });
+
+  it("should accept wildcard subjects only where declared", async () => {
+    const ctx = mockCtx(() => "rel1");
+
+    await authz.addRelation(ctx, {
+      subjectType: "user",
+      subjectId: "*",
+      relation: "viewer",
+      objectType: "document",
+      objectId: "42",
+    });
+    expect(ctx.runMutation).toHaveBeenCalledWith(
+      mockComponent.rebac.addRelation,
+      expect.objectContaining({ subjectType: "user", subjectId: "*" })
+    );
+
+    await expect(
+      authz.addRelation(ctx, {
+        subjectType: "user",
+        subjectId: "*",
+        relation: "owner",
+        objectType: "deal",
+        objectId: "d1",
+      })
+    ).rejects.toThrow(/user:\*/);
+  });
+
+  it("should pass tuple terms and the check environment through", async () => {
+    const ctx = mockCtx((ref) => (ref === mockComponent.rebac.addRelation ? "rel1" : true));
+    const aliceViews = {
+      subjectType: "user",
+      subjectId: "alice",
+      relation: "viewer",
+      objectType: "document",
+      objectId: "42",
+    } as const;
+    const condition: Condition = { ipInCidr: [{ ref: "environment.ip" }, "10.0.0.0/8"] };
+
+    await authz.addRelation(ctx, { ...aliceViews, expiresAt: 1000, condition });
+    expect(ctx.runMutation).toHaveBeenCalledWith(
+      mockComponent.rebac.addRelation,
+      expect.objectContaining({ expiresAt: 1000, condition })
+    );
+
+    await authz.hasRelation(ctx, { ...aliceViews, environment: { ip: "10.1.2.3" } });
+    expect(ctx.runQuery).toHaveBeenCalledWith(
+      mockComponent.rebac.hasDirectRelation,
+      expect.objectContaining({ environment: { ip: "10.1.2.3" } })
+    );
+  });
+
+  it("should reject usersets of unknown relations", () => {
+    expect(() =>
+      authzConfig({
+        permissions: {},
+        roles: {},
+        relations: {
+          team: { member: { subjects: ["user"] } },
+          document: { viewer: { subjects: ["team#admin"] } },
+        },
+      })
+    ).toThrow(/admin/);
+  });
+
+  it("should reject computed relations that reference unknown relations", () => {
+    expect(() =>
+      authzConfig({
+        permissions: {},
+        roles: {},
+        relations: {
+          deal: { viewer: { subjects: ["user"], computed: ["parent->viewer"] } },
+        },
+      })
+    ).toThrow(/parent/);
+  });
+
+  it("should reject exclusions of unknown relations", () => {
+    expect(() =>
+      authzConfig({
+        permissions: {},
+        roles: {},
+        relations: {
+          document: { viewer: { subjects: ["user"], exclusion: ["blocked"] } },
+        },
+      })
+    ).toThrow(/blocked/);
+  });
+});
+
+describe("environmentFromRequest", () => {
+  it("should read the client IP only from the listed headers", () => {
+    const request = new Request("https://example.com/api", {
+      headers: {
+        "x-forwarded-for": "10.0.0.1, 203.0.113.7",
+        "cf-connecting-ip": "198.51.100.4",
+      },
+    });
+
+    const environment = environmentFromRequest(request);
+    expect(environment.ip).toBeUndefined();
+    expect(environment.timestamp).toBeTypeOf("number");
+
+    // The proxy appends the address it saw; earlier entries are client-supplied
+    expect(
+      environmentFromRequest(request, { ipHeaders: ["x-forwarded-for"] }).ip
+    ).toBe("203.0.113.7");
+    expect(
+      environmentFromRequest(request, { ipHeaders: ["x-real-ip", "cf-connecting-ip"] }).ip
+    ).toBe("198.51.100.4");
+  });
 });
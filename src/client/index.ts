@@ -10,9 +10,13 @@ export {
 
 export {
   createSelectors,
+  createRelationSelectors,
   authzConfig,
 } from "./config.js";
 
+export { environmentFromRequest } from "./environment.js";
+export type { EnvironmentFromRequestOptions } from "./environment.js";
+
 export type {
   PermissionsConfig,
   ValidPermissionPattern,
@@ -23,16 +27,40 @@ export type {
   NormalizedRolesConfig,
   AttributeValue,
   Attributes,
+  AttributesConfig,
+  AttributeKey,
+  AttributeValueOf,
+  TypedPolicyContext,
   ResourceContext,
+  ResourceAttributeLoader,
+  ResourceLoadersConfig,
   SubjectContextInput,
   EnvironmentContext,
   RelationInput,
+  RelationDefinition,
+  RelationsConfig,
+  RelationRewrite,
+  TraversalRule,
+  TraversalRules,
+  TypedRelationTuple,
+  TypedRelationCheck,
+  RelationSelector,
+  RelationSelectors,
+  RelationName,
+  PermissionRelationsConfig,
   PolicyEffect,
   PolicyDefinition,
   PoliciesConfig,
+  PolicyCombiningAlgorithm,
+  ConditionPolicy,
+  Condition,
+  ConditionOperand,
   AuthzConfig,
   AuthzConfigDefinition,
   AuthzOptions,
+  AuditAction,
+  ExplainResult,
+  ExposeApiOptions,
   RoleName,
   PermissionString,
   ScopeName,
@@ -43,6 +71,9 @@ export type {
   PermissionSelectorFor,
   PermissionInput,
   CheckOptions,
+  CheckManyItem,
   PolicyDecision,
   CheckResult,
+  AsOfCheckResult,
+  IndexedPermissionMatch,
 } from "./types.js";
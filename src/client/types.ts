@@ -1,4 +1,14 @@
-import type { PolicyContext } from "../component/helpers.js";
+import type {
+  GenericActionCtx,
+  GenericDataModel,
+  GenericQueryCtx,
+} from "convex/server";
+import type { GenericValidator, Infer } from "convex/values";
+import type { Condition, ConditionOperand } from "../component/conditions.js";
+import type {
+  PolicyCombiningAlgorithm,
+  PolicyContext,
+} from "../component/helpers.js";
 
 /**
  * Configuration of Resources and their valid actions.
@@ -90,12 +100,62 @@ export type AttributeValue =
 
 export type Attributes = Record<string, AttributeValue>;
 
+/**
+ * Declared user attributes: key -> Convex validator for its value.
+ * Example: { department: v.string(), clearanceLevel: v.number() }
+ */
+export type AttributesConfig = Record<string, GenericValidator>;
+
+/**
+ * Attribute keys a config allows (any string when none are declared)
+ */
+export type AttributeKey<A extends AttributesConfig> = keyof A & string;
+
+/**
+ * Value type of an attribute (any AttributeValue when none are declared)
+ */
+export type AttributeValueOf<
+  A extends AttributesConfig,
+  K extends AttributeKey<A>,
+> = string extends keyof A ? AttributeValue : Infer<A[K]>;
+
+/**
+ * Policy context with attribute access typed by `config.attributes`
+ */
+export type TypedPolicyContext<A extends AttributesConfig> = string extends keyof A
+  ? PolicyContext
+  : Omit<PolicyContext, "subject" | "hasAttribute" | "getAttribute"> & {
+      subject: Omit<PolicyContext["subject"], "attributes"> & {
+        attributes: { [K in AttributeKey<A>]?: Infer<A[K]> };
+      };
+      hasAttribute: (key: AttributeKey<A>) => boolean;
+      getAttribute: {
+        <K extends AttributeKey<A>>(key: K): Infer<A[K]> | undefined;
+        <K extends AttributeKey<A>>(key: K, defaultValue: Infer<A[K]>): Infer<A[K]>;
+      };
+    };
+
 export interface ResourceContext {
   type: string;
   id: string;
   attributes?: Attributes;
 }
 
+/**
+ * Load a resource's attributes by id, for policies on checks that name a
+ * resource or scope without attributes. Runs with the ctx the check was
+ * called with; return null when the resource does not exist.
+ */
+export type ResourceAttributeLoader = (
+  ctx: GenericQueryCtx<GenericDataModel> | GenericActionCtx<GenericDataModel>,
+  id: string
+) => Attributes | null | Promise<Attributes | null>;
+
+/**
+ * Resource type -> attribute loader, e.g. { document: (ctx, id) => ... }
+ */
+export type ResourceLoadersConfig = Record<string, ResourceAttributeLoader>;
+
 export interface SubjectContextInput {
   roles?: string[];
   attributes?: Attributes;
@@ -109,6 +169,7 @@ export interface EnvironmentContext {
 export interface RelationInput {
   subjectType: string;
   subjectId: string;
+  subjectRelation?: string;
   relation: string;
   objectType: string;
   objectId: string;
@@ -117,35 +178,237 @@ export interface RelationInput {
     fromObjectType: string;
     fromRelation: string;
   }>;
+  /**
+   * The tuple stops holding at this time (ms since epoch)
+   */
+  expiresAt?: number;
+  /**
+   * The tuple only holds while this condition passes. It may only
+   * reference `environment.*`, e.g. { ipInCidr: [{ ref: "environment.ip" }, "10.0.0.0/8"] }
+   */
+  condition?: Condition;
   createdBy?: string;
 }
 
+/**
+ * Definition of a single ReBAC relation on an object type.
+ */
+export interface RelationDefinition {
+  /**
+   * Subject types allowed to hold this relation directly (e.g. ["user", "team"]).
+   * "team#member" allows the userset of everyone who is member of a team,
+   * and "user:*" a wildcard tuple granting the relation to every user.
+   */
+  subjects: readonly string[];
+  /**
+   * Relations that also grant this one, Zanzibar-style:
+   * - "owner": anyone who is owner of the same object
+   * - "parent->viewer": viewers of the objects holding `parent` on this one
+   */
+  computed?: readonly string[];
+  /**
+   * Relations on the same object that must also be held, e.g. ["manager"]
+   * for "editors who are also managers". Without `subjects` or `computed`
+   * entries, the intersection alone decides.
+   */
+  intersection?: readonly string[];
+  /**
+   * Relations on the same object that take this one away, e.g. ["blocked"]
+   */
+  exclusion?: readonly string[];
+}
+
+/**
+ * ReBAC schema: object type -> relation name -> definition.
+ * Example: { deal: { parent: { subjects: ["account"] }, viewer: { subjects: ["user"], computed: ["parent->viewer"] } } }
+ */
+export type RelationsConfig = {
+  readonly [objectType: string]: {
+    readonly [relation: string]: RelationDefinition;
+  };
+};
+
+/**
+ * A single traversal rule as understood by the component.
+ * Rules without `through`/`via` rewrite to another relation on the same object.
+ */
+export interface TraversalRule {
+  through?: string;
+  via?: string;
+  inherit: string;
+}
+
+/**
+ * A relation that is more than a union of its rules: held when the union
+ * holds, every intersection relation is held and no exclusion relation is.
+ * Without `union`, the intersection alone decides.
+ */
+export interface RelationRewrite {
+  union?: TraversalRule[];
+  intersection?: string[];
+  exclusion?: string[];
+}
+
+/**
+ * Traversal rules keyed by "objectType:relation". A plain array is a union.
+ */
+export type TraversalRules = Record<string, TraversalRule[] | RelationRewrite>;
+
+/**
+ * Subject fields for a declared subject type. A userset such as
+ * "team#member" is given as subjectType "team" and subjectRelation "member";
+ * a wildcard such as "user:*" as subjectType "user" and subjectId "*".
+ */
+export type RelationSubject<S extends string> = S extends `${infer T}#${infer Rel}`
+  ? { subjectType: T; subjectRelation: Rel }
+  : S extends `${infer T}:*`
+    ? { subjectType: T; subjectId: "*"; subjectRelation?: undefined }
+    : { subjectType: S; subjectRelation?: undefined };
+
+/**
+ * A relation tuple typed against the RelationsConfig.
+ * Only declared object types, relations and subject types are accepted.
+ */
+export type TypedRelationTuple<R extends RelationsConfig> = {
+  [O in keyof R & string]: {
+    [K in keyof R[O] & string]: RelationSubject<R[O][K]["subjects"][number] & string> & {
+      subjectId: string;
+      relation: K;
+      objectType: O;
+      objectId: string;
+    };
+  }[keyof R[O] & string];
+}[keyof R & string];
+
+/**
+ * A relation check typed against the RelationsConfig.
+ * The subject type is free because computed relations can be held indirectly.
+ */
+export type TypedRelationCheck<R extends RelationsConfig> = {
+  [O in keyof R & string]: {
+    [K in keyof R[O] & string]: {
+      subjectType: string;
+      subjectId: string;
+      relation: K;
+      objectType: O;
+      objectId: string;
+    };
+  }[keyof R[O] & string];
+}[keyof R & string];
+
+/**
+ * A typed relation selector (e.g. Rel.deal.viewer)
+ */
+export interface RelationSelector<ObjectType extends string, Relation extends string> {
+  objectType: ObjectType;
+  relation: Relation;
+}
+
+/**
+ * Type helper to generate the structure of 'Rel' from RelationsConfig
+ */
+export type RelationSelectors<R extends RelationsConfig> = {
+  [O in keyof R & string]: {
+    [K in keyof R[O] & string]: RelationSelector<O, K>;
+  };
+};
+
+/**
+ * Any relation name declared in the RelationsConfig
+ */
+export type RelationName<R extends RelationsConfig> = {
+  [O in keyof R & string]: keyof R[O] & string;
+}[keyof R & string];
+
+/**
+ * Permission pattern -> relations on the scoped object that grant it.
+ * Example: { "documents:*": ["owner"], "documents:read": ["viewer"] }
+ */
+export type PermissionRelationsConfig<
+  P extends PermissionsConfig,
+  R extends RelationsConfig,
+> = Partial<Record<ValidPermissionPattern<P>, readonly RelationName<R>[]>>;
+
 export type PolicyEffect = "allow" | "deny";
 
-export interface PolicyDefinition {
-  condition: (ctx: PolicyContext) => boolean | Promise<boolean>;
+export interface PolicyDefinition<A extends AttributesConfig = AttributesConfig> {
+  /**
+   * A closure evaluated in the client, or a JSON condition evaluated inside
+   * the component (see `Condition`)
+   */
+  condition: ((ctx: TypedPolicyContext<A>) => boolean | Promise<boolean>) | Condition;
+  effect?: PolicyEffect;
+  message?: string;
+}
+
+/**
+ * A policy with a JSON condition, as sent to and stored by the component
+ */
+export interface ConditionPolicy {
+  condition: Condition;
   effect?: PolicyEffect;
   message?: string;
 }
 
-export type PoliciesConfig<P extends PermissionsConfig> = Partial<
-  Record<ValidPermissionPattern<P>, PolicyDefinition>
->;
+export type PoliciesConfig<
+  P extends PermissionsConfig,
+  A extends AttributesConfig = AttributesConfig,
+> = Partial<Record<ValidPermissionPattern<P>, PolicyDefinition<A>>>;
 
 /**
  * Main Authz Configuration
  */
-export interface AuthzConfig<P extends PermissionsConfig = PermissionsConfig> {
+export interface AuthzConfig<
+  P extends PermissionsConfig = PermissionsConfig,
+  R extends RelationsConfig = RelationsConfig,
+  A extends AttributesConfig = AttributesConfig,
+> {
   permissions: P;
   roles: NormalizedRolesConfig<P>;
-  policies?: PoliciesConfig<P>;
+  /**
+   * Declared user attributes, enforced by `setAttribute` and typed in policies
+   */
+  attributes?: A;
+  policies?: PoliciesConfig<P, A>;
+  /**
+   * How the decisions of all policies matching a permission are combined
+   * @default "deny-overrides"
+   */
+  policyCombining?: PolicyCombiningAlgorithm;
+  /**
+   * Attribute loaders per resource type, used when a check names a
+   * resource or scope without attributes
+   */
+  resourceLoaders?: ResourceLoadersConfig;
+  relations?: R;
+  permissionRelations?: PermissionRelationsConfig<P, R>;
   allowCustomRoles?: boolean;
 }
 
-export interface AuthzConfigDefinition<P extends PermissionsConfig = PermissionsConfig> {
+export interface AuthzConfigDefinition<
+  P extends PermissionsConfig = PermissionsConfig,
+  R extends RelationsConfig = RelationsConfig,
+  A extends AttributesConfig = AttributesConfig,
+> {
   permissions: P;
   roles: RolesConfig<P>;
-  policies?: PoliciesConfig<P>;
+  /**
+   * Declared user attributes, enforced by `setAttribute` and typed in policies
+   */
+  attributes?: A;
+  policies?: PoliciesConfig<P, A>;
+  /**
+   * How the decisions of all policies matching a permission are combined
+   * @default "deny-overrides"
+   */
+  policyCombining?: PolicyCombiningAlgorithm;
+  /**
+   * Attribute loaders per resource type, used when a check names a
+   * resource or scope without attributes
+   */
+  resourceLoaders?: ResourceLoadersConfig;
+  relations?: R;
+  permissionRelations?: PermissionRelationsConfig<P, R>;
   allowCustomRoles?: boolean;
 }
 
@@ -170,6 +433,45 @@ export interface AuthzOptions {
   auditChecks?: boolean;
 }
 
+/**
+ * Actions recorded in the audit log
+ */
+export type AuditAction =
+  | "permission_check"
+  | "role_assigned"
+  | "role_revoked"
+  | "role_expired"
+  | "permission_granted"
+  | "permission_denied"
+  | "permission_revoked"
+  | "override_expired"
+  | "attribute_set"
+  | "attribute_removed"
+  | "role_definition_created"
+  | "role_definition_updated"
+  | "role_definition_deleted"
+  | "role_permissions_synced"
+  | "relation_added"
+  | "relation_removed"
+  | "scope_parent_set"
+  | "scope_parent_removed"
+  | "history_retention_updated"
+  | "policy_created"
+  | "policy_updated"
+  | "policy_deleted";
+
+/**
+ * Options for exposing permission queries to React clients.
+ */
+export interface ExposeApiOptions {
+  /**
+   * Resolve the calling user. Return null for anonymous callers, who are denied.
+   */
+  getUserId: (
+    ctx: GenericQueryCtx<GenericDataModel>
+  ) => string | null | Promise<string | null>;
+}
+
 /**
  * Extract all valid role names from the config
  */
@@ -246,11 +548,51 @@ export interface CheckOptions<P extends PermissionsConfig> {
   audit?: boolean;
 }
 
+/**
+ * Request context that policies are evaluated against
+ */
+export type PolicyInputContext = Pick<
+  CheckOptions<PermissionsConfig>,
+  "resource" | "subject" | "environment"
+>;
+
+/**
+ * A single item in a batch permission check (see `Authz.checkMany`).
+ */
+export interface CheckManyItem<P extends PermissionsConfig> {
+  permission: PermissionInput<P>;
+  scope?: Scope;
+  resource?: ResourceContext;
+}
+
 export interface PolicyDecision {
   key: string;
   effect: PolicyEffect;
   passed: boolean;
   message?: string;
+  /**
+   * Scope of the tenant policy that made this decision (unset for system policies)
+   */
+  scope?: Scope;
+}
+
+/**
+ * The effectivePermissions row that decided an indexed check
+ */
+export interface IndexedPermissionMatch {
+  /**
+   * Stored permission that matched (the exact permission or a wildcard like "documents:*")
+   */
+  permission: string;
+  scopeKey: string;
+  effect: string;
+  /**
+   * Roles that contributed this permission
+   */
+  sources: string[];
+  directGrant?: boolean;
+  directDeny?: boolean;
+  expiresAt?: number;
 }
 
 export interface CheckResult {
@@ -258,7 +600,63 @@ export interface CheckResult {
   reason: string;
   matchedRole?: string;
   matchedOverride?: string;
-  policy?: PolicyDecision;
+  /**
+   * Relation that granted access when no role or override matched
+   */
+  matchedRelation?: string;
+  /**
+   * Scope the matched role or override was granted on. Differs from the
+   * checked scope when access is inherited from an ancestor scope.
+   */
+  matchedScope?: Scope;
+  /**
+   * Relationship edges walked to reach the matched relation
+   */
+  path?: string[];
+  /**
+   * Matched row details (indexed strategy only)
+   */
+  match?: IndexedPermissionMatch;
+  /**
+   * Decisions of every policy matching the permission, most specific first,
+   * followed by tenant policies
+   */
+  policies?: PolicyDecision[];  /**
+   * Set when a policy read resource attributes the check was not given and
+   * no `resourceLoaders` entry could load them
+   */
+  missingResourceAttributes?: boolean;
+}
+
+/**
+ * Check result returned to browsers by the `explain` query of exposeApi
+ */
+export type ExplainResult = Pick<
+  CheckResult,
+  "allowed" | "reason" | "matchedRole" | "matchedRelation"
+>;
+
+/**
+ * Result of a point-in-time check (see Authz.checkAsOf)
+ */
+export interface AsOfCheckResult extends CheckResult {
+  asOf: {
+    timestamp: number;
+    /**
+     * Inputs of a regular check that were skipped ("relations", "policies")
+     */
+    notEvaluated: string[];
+    /**
+     * Inputs read as they are now rather than at the timestamp
+     * ("roleDefinitions", "scopeHierarchy")
+     */
+    readAsCurrent: string[];
+  };
 }
 
-export type { PolicyContext };
+export type {
+  Condition,
+  ConditionOperand,
+  PolicyCombiningAlgorithm,
+  PolicyContext,
+};
@@ -8,11 +8,17 @@
  * @module
  */
 
+import type * as audit from "../audit.js";
+import type * as conditions from "../conditions.js";
+import type * as expiry from "../expiry.js";
 import type * as helpers from "../helpers.js";
+import type * as history from "../history.js";
 import type * as indexed from "../indexed.js";
 import type * as mutations from "../mutations.js";
+import type * as policies from "../policies.js";
 import type * as queries from "../queries.js";
 import type * as rebac from "../rebac.js";
+import type * as scopes from "../scopes.js";
 
 import type {
   ApiFromModules,
@@ -22,11 +28,17 @@ import type {
 import { anyApi, componentsGeneric } from "convex/server";
 
 const fullApi: ApiFromModules<{
+  audit: typeof audit;
+  conditions: typeof conditions;
+  expiry: typeof expiry;
   helpers: typeof helpers;
+  history: typeof history;
   indexed: typeof indexed;
   mutations: typeof mutations;
+  policies: typeof policies;
   queries: typeof queries;
   rebac: typeof rebac;
+  scopes: typeof scopes;
 }> = anyApi as any;
 
 /**
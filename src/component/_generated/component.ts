@@ -23,22 +23,48 @@ import type { FunctionReference } from "convex/server";
  */
 export type ComponentApi<Name extends string | undefined = string | undefined> =
   {
+    history: {
+      getHistoryRetention: FunctionReference<
+        "query",
+        "internal",
+        {},
+        number | null,
+        Name
+      >;
+      setHistoryRetention: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          enableAudit?: boolean;
+          retentionMs: number | null;
+          updatedBy?: string;
+        },
+        null,
+        Name
+      >;
+    };
     indexed: {
       addRelationWithCompute: FunctionReference<
         "mutation",
         "internal",
         {
+          condition?: any;
           createdBy?: string;
+          enableAudit?: boolean;
+          expiresAt?: number;
           inheritedRelations?: Array<{
             fromObjectType: string;
             fromRelation: string;
             relation: string;
           }>;
+          maxDepth?: number;
           objectId: string;
           objectType: string;
           relation: string;
           subjectId: string;
+          subjectRelation?: string;
           subjectType: string;
+          traversalRules?: any;
         },
         string,
         Name
@@ -48,10 +74,12 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "internal",
         {
           assignedBy?: string;
+          enableAudit?: boolean;
           expiresAt?: number;
           role: string;
           rolePermissions: Array<string>;
           scope?: { id: string; type: string };
+          staticRoles?: Record<string, Array<string>>;
           userId: string;
         },
         string,
@@ -61,12 +89,112 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "query",
         "internal",
         {
+          environment?: { ip?: string; timestamp?: number };
           objectId?: string;
           objectType?: string;
           permission: string;
+          permissionRelations?: Record<string, Array<string>>;
+          policies?: Record<
+            string,
+            { condition: any; effect?: "allow" | "deny"; message?: string }
+          >;
+          policyCombining?:
+            | "deny-overrides"
+            | "permit-overrides"
+            | "first-applicable";
+          policyDecisions?: Array<{
+            effect: "allow" | "deny";
+            key: string;
+            message?: string;
+            passed: boolean;
+            scope?: { id: string; type: string };
+          }>;
+          resource?: { attributes?: any; id: string; type: string };
+          subject?: { attributes?: any; roles?: Array<string> };
           userId: string;
         },
-        boolean,
+        {
+          allowed: boolean;
+          match?: {
+            directDeny?: boolean;
+            directGrant?: boolean;
+            effect: string;
+            expiresAt?: number;
+            permission: string;
+            scopeKey: string;
+            sources: Array<string>;
+          };
+          matchedOverride?: string;
+          matchedRelation?: string;
+          matchedRole?: string;
+          matchedScope?: { id: string; type: string };
+          missingResourceAttributes?: boolean;
+          policies?: Array<{
+            effect: "allow" | "deny";
+            key: string;
+            message?: string;
+            passed: boolean;
+            scope?: { id: string; type: string };
+          }>;
+          reason: string;
+        },
+        Name
+      >;
+      checkPermissionsFast: FunctionReference<
+        "query",
+        "internal",
+        {
+          checks: Array<{
+            objectId?: string;
+            objectType?: string;
+            permission: string;
+            policyDecisions?: Array<{
+              effect: "allow" | "deny";
+              key: string;
+              message?: string;
+              passed: boolean;
+              scope?: { id: string; type: string };
+            }>;
+            resource?: { attributes?: any; id: string; type: string };
+          }>;
+          environment?: { ip?: string; timestamp?: number };
+          permissionRelations?: Record<string, Array<string>>;
+          policies?: Record<
+            string,
+            { condition: any; effect?: "allow" | "deny"; message?: string }
+          >;
+          policyCombining?:
+            | "deny-overrides"
+            | "permit-overrides"
+            | "first-applicable";
+          subject?: { attributes?: any; roles?: Array<string> };
+          userId: string;
+        },
+        Array<{
+          allowed: boolean;
+          match?: {
+            directDeny?: boolean;
+            directGrant?: boolean;
+            effect: string;
+            expiresAt?: number;
+            permission: string;
+            scopeKey: string;
+            sources: Array<string>;
+          };
+          matchedOverride?: string;
+          matchedRelation?: string;
+          matchedRole?: string;
+          matchedScope?: { id: string; type: string };
+          missingResourceAttributes?: boolean;
+          policies?: Array<{
+            effect: "allow" | "deny";
+            key: string;
+            message?: string;
+            passed: boolean;
+            scope?: { id: string; type: string };
+          }>;
+          reason: string;
+        }>,
         Name
       >;
       cleanupExpired: FunctionReference<
@@ -81,6 +209,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "internal",
         {
           deniedBy?: string;
+          enableAudit?: boolean;
           expiresAt?: number;
           permission: string;
           reason?: string;
@@ -90,6 +219,25 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         string,
         Name
       >;
+      getRecomputeStatus: FunctionReference<
+        "query",
+        "internal",
+        { jobId?: string },
+        null | {
+          completedAt?: number;
+          configHash?: string;
+          currentRole?: string;
+          jobId: string;
+          processed: number;
+          roles: Array<string>;
+          rolesCompleted: number;
+          startedAt: number;
+          status: string;
+          trigger: string;
+          updatedAt: number;
+        },
+        Name
+      >;
       getUserPermissionsFast: FunctionReference<
         "query",
         "internal",
@@ -107,6 +255,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "internal",
         { scopeKey?: string; userId: string },
         Array<{
+          expiresAt?: number;
           role: string;
           scope?: { id: string; type: string };
           scopeKey: string;
@@ -117,6 +266,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "mutation",
         "internal",
         {
+          enableAudit?: boolean;
           expiresAt?: number;
           grantedBy?: string;
           permission: string;
@@ -131,10 +281,12 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "query",
         "internal",
         {
+          environment?: { ip?: string; timestamp?: number };
           objectId: string;
           objectType: string;
           relation: string;
           subjectId: string;
+          subjectRelation?: string;
           subjectType: string;
         },
         boolean,
@@ -152,15 +304,33 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         boolean,
         Name
       >;
+      isAtLeastFast: FunctionReference<
+        "query",
+        "internal",
+        {
+          objectId?: string;
+          objectType?: string;
+          role: string;
+          roleParents?: Record<string, string | null>;
+          userId: string;
+        },
+        boolean,
+        Name
+      >;
       removeRelationWithCompute: FunctionReference<
         "mutation",
         "internal",
         {
+          enableAudit?: boolean;
+          maxDepth?: number;
           objectId: string;
           objectType: string;
           relation: string;
+          removedBy?: string;
           subjectId: string;
+          subjectRelation?: string;
           subjectType: string;
+          traversalRules?: any;
         },
         boolean,
         Name
@@ -169,14 +339,33 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "mutation",
         "internal",
         {
+          enableAudit?: boolean;
+          revokedBy?: string;
           role: string;
           rolePermissions: Array<string>;
           scope?: { id: string; type: string };
+          staticRoles?: Record<string, Array<string>>;
           userId: string;
         },
         boolean,
         Name
       >;
+      syncRolePermissions: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          enableAudit?: boolean;
+          rolePermissions: Record<string, Array<string>>;
+          syncedBy?: string;
+        },
+        {
+          changed: boolean;
+          configHash: string;
+          jobId?: string;
+          roles: Array<string>;
+        },
+        Name
+      >;
     };
     mutations: {
       assignRole: FunctionReference<
@@ -305,6 +494,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "mutation",
         "internal",
         {
+          attributeSchema?: Record<string, any>;
           enableAudit?: boolean;
           key: string;
           setBy?: string;
@@ -326,6 +516,8 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           label?: string;
           description?: string;
           createdBy?: string;
+          staticRoleNames?: Array<string>;
+          enableAudit?: boolean;
         },
         string,
         Name
@@ -340,6 +532,8 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           label?: string;
           description?: string;
           updatedBy?: string;
+          staticRoles?: Record<string, Array<string>>;
+          enableAudit?: boolean;
         },
         boolean,
         Name
@@ -350,6 +544,8 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         {
           roleId: any;
           deletedBy?: string;
+          staticRoles?: Record<string, Array<string>>;
+          enableAudit?: boolean;
         },
         boolean,
         Name
@@ -365,29 +561,192 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             label?: string;
             description?: string;
           }>;
+          syncedBy?: string;
+          enableAudit?: boolean;
         },
         { created: number; updated: number },
         Name
       >;
     };
+    policies: {
+      deletePolicy: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          deletedBy?: string;
+          enableAudit?: boolean;
+          permission: string;
+          scope?: { id: string; type: string };
+        },
+        boolean,
+        Name
+      >;
+      listPolicies: FunctionReference<
+        "query",
+        "internal",
+        { scope?: { id: string; type: string } },
+        Array<{
+          _id: string;
+          condition: any;
+          createdAt: number;
+          createdBy?: string;
+          effect: "allow" | "deny";
+          message?: string;
+          permission: string;
+          scope?: { id: string; type: string };
+          updatedAt: number;
+        }>,
+        Name
+      >;
+      setPolicy: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          condition: any;
+          effect?: "allow" | "deny";
+          enableAudit?: boolean;
+          message?: string;
+          permission: string;
+          scope?: { id: string; type: string };
+          updatedBy?: string;
+        },
+        string,
+        Name
+      >;
+    };
     queries: {
       checkPermission: FunctionReference<
+        "query",
+        "internal",
+        {
+          environment?: { ip?: string; timestamp?: number };
+          permission: string;
+          permissionRelations?: Record<string, Array<string>>;
+          policies?: Record<
+            string,
+            { condition: any; effect?: "allow" | "deny"; message?: string }
+          >;
+          policyCombining?:
+            | "deny-overrides"
+            | "permit-overrides"
+            | "first-applicable";
+          policyDecisions?: Array<{
+            effect: "allow" | "deny";
+            key: string;
+            message?: string;
+            passed: boolean;
+            scope?: { id: string; type: string };
+          }>;
+          resource?: { attributes?: any; id: string; type: string };
+          rolePermissions: Record<string, Array<string>>;
+          scope?: { id: string; type: string };
+          subject?: { attributes?: any; roles?: Array<string> };
+          traversalRules?: any;
+          userId: string;
+        },
+        {
+          allowed: boolean;
+          matchedOverride?: string;
+          matchedRelation?: string;
+          matchedRole?: string;
+          matchedScope?: { id: string; type: string };
+          missingResourceAttributes?: boolean;
+          path?: Array<string>;
+          policies?: Array<{
+            effect: "allow" | "deny";
+            key: string;
+            message?: string;
+            passed: boolean;
+            scope?: { id: string; type: string };
+          }>;
+          reason: string;
+        },
+        Name
+      >;
+      checkPermissionAsOf: FunctionReference<
         "query",
         "internal",
         {
           permission: string;
           rolePermissions: Record<string, Array<string>>;
           scope?: { id: string; type: string };
+          timestamp: number;
           userId: string;
         },
         {
           allowed: boolean;
+          asOf: {
+            notEvaluated: Array<string>;
+            readAsCurrent: Array<string>;
+            timestamp: number;
+          };
           matchedOverride?: string;
+          matchedRelation?: string;
           matchedRole?: string;
+          matchedScope?: { id: string; type: string };
+          missingResourceAttributes?: boolean;
+          path?: Array<string>;
+          policies?: Array<{
+            effect: "allow" | "deny";
+            key: string;
+            message?: string;
+            passed: boolean;
+            scope?: { id: string; type: string };
+          }>;
           reason: string;
         },
         Name
       >;
+      checkPermissions: FunctionReference<
+        "query",
+        "internal",
+        {
+          checks: Array<{
+            permission: string;
+            policyDecisions?: Array<{
+              effect: "allow" | "deny";
+              key: string;
+              message?: string;
+              passed: boolean;
+              scope?: { id: string; type: string };
+            }>;
+            resource?: { attributes?: any; id: string; type: string };
+            scope?: { id: string; type: string };
+          }>;
+          environment?: { ip?: string; timestamp?: number };
+          permissionRelations?: Record<string, Array<string>>;
+          policies?: Record<
+            string,
+            { condition: any; effect?: "allow" | "deny"; message?: string }
+          >;
+          policyCombining?:
+            | "deny-overrides"
+            | "permit-overrides"
+            | "first-applicable";
+          rolePermissions: Record<string, Array<string>>;
+          subject?: { attributes?: any; roles?: Array<string> };
+          traversalRules?: any;
+          userId: string;
+        },
+        Array<{
+          allowed: boolean;
+          matchedOverride?: string;
+          matchedRelation?: string;
+          matchedRole?: string;
+          matchedScope?: { id: string; type: string };
+          missingResourceAttributes?: boolean;
+          path?: Array<string>;
+          policies?: Array<{
+            effect: "allow" | "deny";
+            key: string;
+            message?: string;
+            passed: boolean;
+            scope?: { id: string; type: string };
+          }>;
+          reason: string;
+        }>,
+        Name
+      >;
       getAuditLog: FunctionReference<
         "query",
         "internal",
@@ -396,10 +755,25 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           | "permission_check"
           | "role_assigned"
           | "role_revoked"
+          | "role_expired"
           | "permission_granted"
           | "permission_denied"
+          | "permission_revoked"
+          | "override_expired"
           | "attribute_set"
-          | "attribute_removed";
+          | "attribute_removed"
+          | "role_definition_created"
+          | "role_definition_updated"
+          | "role_definition_deleted"
+          | "role_permissions_synced"
+          | "relation_added"
+          | "relation_removed"
+          | "scope_parent_set"
+          | "scope_parent_removed"
+          | "history_retention_updated"
+          | "policy_created"
+          | "policy_updated"
+          | "policy_deleted";
           limit?: number;
           userId?: string;
         },
@@ -413,6 +787,59 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         }>,
         Name
       >;
+      getAuditLogPage: FunctionReference<
+        "query",
+        "internal",
+        {
+          action?:
+          | "permission_check"
+          | "role_assigned"
+          | "role_revoked"
+          | "role_expired"
+          | "permission_granted"
+          | "permission_denied"
+          | "permission_revoked"
+          | "override_expired"
+          | "attribute_set"
+          | "attribute_removed"
+          | "role_definition_created"
+          | "role_definition_updated"
+          | "role_definition_deleted"
+          | "role_permissions_synced"
+          | "relation_added"
+          | "relation_removed"
+          | "scope_parent_set"
+          | "scope_parent_removed"
+          | "history_retention_updated"
+          | "policy_created"
+          | "policy_updated"
+          | "policy_deleted";
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          userId?: string;
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            _id: string;
+            action: string;
+            actorId?: string;
+            details: any;
+            timestamp: number;
+            userId: string;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
       getEffectivePermissions: FunctionReference<
         "query",
         "internal",
@@ -456,6 +883,29 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         Array<{ _id: string; key: string; value: any }>,
         Name
       >;
+      getUserAttributesPage: FunctionReference<
+        "query",
+        "internal",
+        {
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          userId: string;
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{ _id: string; key: string; value: any }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
       getUserRoles: FunctionReference<
         "query",
         "internal",
@@ -476,6 +926,30 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         Array<{ assignedAt: number; expiresAt?: number; userId: string }>,
         Name
       >;
+      getUsersWithRolePage: FunctionReference<
+        "query",
+        "internal",
+        {
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          role: string;
+          scope?: { id: string; type: string };
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{ assignedAt: number; expiresAt?: number; userId: string }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
       hasRole: FunctionReference<
         "query",
         "internal",
@@ -483,6 +957,18 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         boolean,
         Name
       >;
+      isAtLeast: FunctionReference<
+        "query",
+        "internal",
+        {
+          role: string;
+          roleParents?: Record<string, string | null>;
+          scope?: { id: string; type: string };
+          userId: string;
+        },
+        boolean,
+        Name
+      >;
       getRoleDefinitions: FunctionReference<
         "query",
         "internal",
@@ -512,11 +998,15 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "mutation",
         "internal",
         {
+          condition?: any;
           createdBy?: string;
+          enableAudit?: boolean;
+          expiresAt?: number;
           objectId: string;
           objectType: string;
           relation: string;
           subjectId: string;
+          subjectRelation?: string;
           subjectType: string;
         },
         string,
@@ -526,6 +1016,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "query",
         "internal",
         {
+          environment?: { ip?: string; timestamp?: number };
           maxDepth?: number;
           objectId: string;
           objectType: string;
@@ -545,10 +1036,42 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           _id: string;
           relation: string;
           subjectId: string;
+          subjectRelation?: string;
           subjectType: string;
         }>,
         Name
       >;
+      getObjectRelationsPage: FunctionReference<
+        "query",
+        "internal",
+        {
+          objectId: string;
+          objectType: string;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          relation?: string;
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            _id: string;
+            relation: string;
+            subjectId: string;
+            subjectRelation?: string;
+            subjectType: string;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
       getSubjectRelations: FunctionReference<
         "query",
         "internal",
@@ -558,17 +1081,51 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           objectId: string;
           objectType: string;
           relation: string;
+          subjectRelation?: string;
         }>,
         Name
       >;
+      getSubjectRelationsPage: FunctionReference<
+        "query",
+        "internal",
+        {
+          objectType?: string;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          subjectId: string;
+          subjectType: string;
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            _id: string;
+            objectId: string;
+            objectType: string;
+            relation: string;
+            subjectRelation?: string;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
       hasDirectRelation: FunctionReference<
         "query",
         "internal",
         {
+          environment?: { ip?: string; timestamp?: number };
           objectId: string;
           objectType: string;
           relation: string;
           subjectId: string;
+          subjectRelation?: string;
           subjectType: string;
         },
         boolean,
@@ -578,34 +1135,85 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         "query",
         "internal",
         {
+          environment?: { ip?: string; timestamp?: number };
+          maxDepth?: number;
           objectType: string;
           relation: string;
           subjectId: string;
           subjectType: string;
           traversalRules?: any;
         },
-        Array<{ objectId: string; via: string }>,
+        Array<{ objectId: string; path: Array<string>; via: string }>,
         Name
       >;
       listUsersWithAccess: FunctionReference<
         "query",
         "internal",
-        { objectId: string; objectType: string; relation: string },
-        Array<{ userId: string; via: string }>,
+        {
+          environment?: { ip?: string; timestamp?: number };
+          maxDepth?: number;
+          objectId: string;
+          objectType: string;
+          relation: string;
+          traversalRules?: any;
+        },
+        Array<{ path: Array<string>; userId: string; via: string }>,
         Name
       >;
       removeRelation: FunctionReference<
         "mutation",
         "internal",
         {
+          enableAudit?: boolean;
           objectId: string;
           objectType: string;
           relation: string;
+          removedBy?: string;
           subjectId: string;
+          subjectRelation?: string;
           subjectType: string;
         },
         boolean,
         Name
       >;
     };
+    scopes: {
+      getScopeAncestors: FunctionReference<
+        "query",
+        "internal",
+        { scope: { id: string; type: string } },
+        Array<{ id: string; type: string }>,
+        Name
+      >;
+      getScopeChildren: FunctionReference<
+        "query",
+        "internal",
+        { scope: { id: string; type: string } },
+        Array<{ id: string; type: string }>,
+        Name
+      >;
+      removeScopeParent: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          enableAudit?: boolean;
+          removedBy?: string;
+          scope: { id: string; type: string };
+        },
+        boolean,
+        Name
+      >;
+      setScopeParent: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          createdBy?: string;
+          enableAudit?: boolean;
+          parent: { id: string; type: string };
+          scope: { id: string; type: string };
+        },
+        string,
+        Name
+      >;
+    };
   };
@@ -0,0 +1,71 @@
+/**
+ * Audit Trail
+ *
+ * Shared helpers for writing audit log entries from mutations.
+ * Entries about a user use the plain user ID as `userId`; entries about other
+ * entities use a typed key ("role:editor", "team:eng", "document:42") so the
+ * by_user index can still find every change to that entity.
+ */
+
+import type { Doc } from "./_generated/dataModel";
+import type { MutationCtx } from "./_generated/server";
+
+type AuditEntry = Omit<Doc<"auditLog">, "_id" | "_creationTime" | "timestamp">;
+
+/**
+ * Insert an audit log entry stamped with the current time
+ */
+export async function writeAuditEntry(
+  ctx: Pick<MutationCtx, "db">,
+  entry: AuditEntry
+): Promise<void> {
+  await ctx.db.insert("auditLog", { timestamp: Date.now(), ...entry });
+}
+
+/**
+ * Audit key for a relationship subject: plain ID for users, typed otherwise
+ */
+export function subjectAuditKey(subjectType: string, subjectId: string): string {
+  return subjectType === "user" ? subjectId : `${subjectType}:${subjectId}`;
+}
+
+/**
+ * Audit key for a role definition
+ */
+export function roleAuditKey(name: string): string {
+  return `role:${name}`;
+}
+
+/**
+ * Audit key for a stored policy
+ */
+export function policyAuditKey(permission: string): string {
+  return `policy:${permission}`;
+}
+
+/**
+ * Audit snapshot of a relationship tuple
+ */
+export function relationSnapshot(tuple: {
+  subjectType: string;
+  subjectId: string;
+  subjectRelation?: string;
+  relation: string;
+  objectType: string;
+  objectId: string;
+  expiresAt?: number;
+  condition?: unknown;
+  createdBy?: string;
+}) {
+  return {
+    subjectType: tuple.subjectType,
+    subjectId: tuple.subjectId,
+    subjectRelation: tuple.subjectRelation,
+    relation: tuple.relation,
+    objectType: tuple.objectType,
+    objectId: tuple.objectId,
+    expiresAt: tuple.expiresAt,
+    condition: tuple.condition,
+    createdBy: tuple.createdBy,
+  };
+}
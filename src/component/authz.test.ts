@@ -1,7 +1,8 @@
 import { convexTest } from "convex-test";
-import { describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import schema from "./schema.js";
 import { api } from "./_generated/api.js";
+import type { Id } from "./_generated/dataModel.js";
 
 const modules = import.meta.glob("./**/*.ts");
 
@@ -186,6 +187,136 @@ describe("authz component", () => {
     });
   });
 
+  describe("batch permission checks", () => {
+    it("should check many permissions in order", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.mutations.assignRole, {
+        userId: "user_123",
+        role: "editor",
+        scope: { type: "project", id: "p1" },
+      });
+      await t.mutation(api.mutations.denyPermission, {
+        userId: "user_123",
+        permission: "documents:update",
+        scope: { type: "project", id: "p1" },
+      });
+
+      const results = await t.query(api.queries.checkPermissions, {
+        userId: "user_123",
+        checks: [
+          { permission: "documents:read", scope: { type: "project", id: "p1" } },
+          { permission: "documents:read", scope: { type: "project", id: "p2" } },
+          { permission: "documents:update", scope: { type: "project", id: "p1" } },
+        ],
+        rolePermissions: {
+          editor: ["documents:read", "documents:update"],
+        },
+      });
+
+      expect(results.map((r) => r.allowed)).toEqual([true, false, false]);
+      expect(results[0].matchedRole).toBe("editor");
+      expect(results[2].matchedOverride).toBeDefined();
+    });
+  });
+
+  describe("relation-based permissions", () => {
+    it("should grant a permission through a mapped relation", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.rebac.addRelation, {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "owner",
+        objectType: "document",
+        objectId: "42",
+      });
+
+      const result = await t.query(api.queries.checkPermission, {
+        userId: "alice",
+        permission: "documents:delete",
+        scope: { type: "document", id: "42" },
+        rolePermissions: {},
+        permissionRelations: { "documents:*": ["owner"] },
+      });
+
+      expect(result.allowed).toBe(true);
+      expect(result.matchedRelation).toBe("owner");
+      expect(result.path).toEqual(["user:alice -[owner]-> document:42"]);
+
+      const otherDoc = await t.query(api.queries.checkPermission, {
+        userId: "alice",
+        permission: "documents:delete",
+        scope: { type: "document", id: "43" },
+        rolePermissions: {},
+        permissionRelations: { "documents:*": ["owner"] },
+      });
+      expect(otherDoc.allowed).toBe(false);
+    });
+
+    it("should follow traversal rules to inherited relations", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.rebac.addRelation, {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "viewer",
+        objectType: "folder",
+        objectId: "f1",
+      });
+      await t.mutation(api.rebac.addRelation, {
+        subjectType: "folder",
+        subjectId: "f1",
+        relation: "parent",
+        objectType: "document",
+        objectId: "42",
+      });
+
+      const result = await t.query(api.queries.checkPermission, {
+        userId: "alice",
+        permission: "documents:read",
+        scope: { type: "document", id: "42" },
+        rolePermissions: {},
+        permissionRelations: { "documents:read": ["viewer"] },
+        traversalRules: {
+          "document:viewer": [{ through: "folder", via: "parent", inherit: "viewer" }],
+        },
+      });
+
+      expect(result.allowed).toBe(true);
+      expect(result.matchedRelation).toBe("viewer");
+      expect(result.path).toHaveLength(2);
+    });
+
+    it("should let deny overrides win over relations", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.rebac.addRelation, {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "owner",
+        objectType: "document",
+        objectId: "42",
+      });
+      await t.mutation(api.mutations.denyPermission, {
+        userId: "alice",
+        permission: "documents:delete",
+      });
+
+      const result = await t.query(api.queries.checkPermission, {
+        userId: "alice",
+        permission: "documents:delete",
+        scope: { type: "document", id: "42" },
+        rolePermissions: {},
+        permissionRelations: { "documents:*": ["owner"] },
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.matchedOverride).toBeDefined();
+      expect(result.matchedRelation).toBeUndefined();
+    });
+  });
+
   describe("permission overrides", () => {
     it("should grant explicit permission", async () => {
       const t = convexTest(schema, modules);
@@ -298,6 +429,42 @@ describe("authz component", () => {
 
       expect(value).toBeNull();
     });
+
+    it("should enforce a declared attribute schema", async () => {
+      const t = convexTest(schema, modules);
+      const attributeSchema = {
+        clearanceLevel: { type: "number" },
+        regions: { type: "array", value: { type: "string" } },
+      };
+
+      await t.mutation(api.mutations.setAttribute, {
+        userId: "user_123",
+        key: "regions",
+        value: ["eu", "us"],
+        attributeSchema,
+      });
+      await expect(
+        t.mutation(api.mutations.setAttribute, {
+          userId: "user_123",
+          key: "clearanceLevel",
+          value: "3",
+          attributeSchema,
+        })
+      ).rejects.toThrow(/INVALID_ATTRIBUTE/);
+      await expect(
+        t.mutation(api.mutations.setAttribute, {
+          userId: "user_123",
+          key: "clearance",
+          value: 3,
+          attributeSchema,
+        })
+      ).rejects.toThrow(/Unknown attribute/);
+
+      const attributes = await t.query(api.queries.getUserAttributes, {
+        userId: "user_123",
+      });
+      expect(attributes.map((a) => a.key)).toEqual(["regions"]);
+    });
   });
 
   describe("effective permissions", () => {
@@ -347,6 +514,230 @@ describe("authz component", () => {
     });
   });
 
+  describe("dynamic roles", () => {
+    const orgA = { type: "org", id: "a" };
+    const orgB = { type: "org", id: "b" };
+    const staticRoles = { "org:member": ["contacts:read"] };
+
+    async function setupSalesManager() {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.mutations.createRoleDefinition, {
+        name: "sales_manager",
+        scope: orgA,
+        permissions: ["deals:close"],
+        parentRole: "org:member",
+        isSystem: false,
+        staticRoleNames: ["org:member"],
+      });
+      await t.mutation(api.mutations.assignRole, {
+        userId: "user_123",
+        role: "sales_manager",
+        scope: orgA,
+      });
+
+      return t;
+    }
+
+    it("should grant custom role permissions within its scope", async () => {
+      const t = await setupSalesManager();
+
+      const results = await t.query(api.queries.checkPermissions, {
+        userId: "user_123",
+        checks: [
+          { permission: "deals:close", scope: orgA },
+          { permission: "contacts:read", scope: orgA },
+          { permission: "deals:close", scope: orgB },
+        ],
+        rolePermissions: staticRoles,
+      });
+
+      expect(results.map((r) => r.allowed)).toEqual([true, true, false]);
+      expect(results[0].matchedRole).toBe("sales_manager");
+    });
+
+    it("should include custom role permissions in effective permissions", async () => {
+      const t = await setupSalesManager();
+
+      const result = await t.query(api.queries.getEffectivePermissions, {
+        userId: "user_123",
+        scope: orgA,
+        rolePermissions: staticRoles,
+      });
+
+      expect(result.permissions.sort()).toEqual(["contacts:read", "deals:close"]);
+    });
+
+    it("should prefer static roles over stored definitions", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.mutations.createRoleDefinition, {
+        name: "org:member",
+        permissions: ["*"],
+        isSystem: true,
+      });
+      await t.mutation(api.mutations.assignRole, {
+        userId: "user_123",
+        role: "org:member",
+      });
+
+      const result = await t.query(api.queries.checkPermission, {
+        userId: "user_123",
+        permission: "deals:close",
+        rolePermissions: staticRoles,
+      });
+
+      expect(result.allowed).toBe(false);
+    });
+
+    it("should compare roles through inherits and parentRole", async () => {
+      const t = await setupSalesManager();
+      const roleParents = { "org:admin": "org:member", "org:member": null };
+
+      const isAtLeast = (role: string, scope?: typeof orgA) =>
+        t.query(api.queries.isAtLeast, {
+          userId: "user_123",
+          role,
+          scope,
+          roleParents,
+        });
+
+      expect(await isAtLeast("sales_manager", orgA)).toBe(true);
+      expect(await isAtLeast("org:member", orgA)).toBe(true);
+      expect(await isAtLeast("org:admin", orgA)).toBe(false);
+      expect(await isAtLeast("org:member", orgB)).toBe(false);
+    });
+  });
+
+  describe("scope hierarchies", () => {
+    const org = { type: "org", id: "acme" };
+    const project = { type: "project", id: "p1" };
+    const doc = { type: "document", id: "42" };
+
+    async function setupHierarchy() {
+      const t = convexTest(schema, modules);
+      await t.mutation(api.scopes.setScopeParent, { scope: doc, parent: project });
+      await t.mutation(api.scopes.setScopeParent, { scope: project, parent: org });
+      return t;
+    }
+
+    it("should return ancestors nearest first", async () => {
+      const t = await setupHierarchy();
+
+      const ancestors = await t.query(api.scopes.getScopeAncestors, {
+        scope: doc,
+      });
+      expect(ancestors).toEqual([project, org]);
+    });
+
+    it("should apply roles granted on an ancestor scope", async () => {
+      const t = await setupHierarchy();
+
+      await t.mutation(api.mutations.assignRole, {
+        userId: "user_123",
+        role: "editor",
+        scope: org,
+      });
+
+      const result = await t.query(api.queries.checkPermission, {
+        userId: "user_123",
+        permission: "documents:update",
+        scope: doc,
+        rolePermissions: { editor: ["documents:update"] },
+      });
+
+      expect(result.allowed).toBe(true);
+      expect(result.matchedRole).toBe("editor");
+      expect(result.matchedScope).toEqual(org);
+
+      const hasRole = await t.query(api.queries.hasRole, {
+        userId: "user_123",
+        role: "editor",
+        scope: doc,
+      });
+      expect(hasRole).toBe(true);
+    });
+
+    it("should let an ancestor deny override a closer allow", async () => {
+      const t = await setupHierarchy();
+
+      await t.mutation(api.mutations.grantPermission, {
+        userId: "user_123",
+        permission: "documents:delete",
+        scope: doc,
+      });
+      await t.mutation(api.mutations.denyPermission, {
+        userId: "user_123",
+        permission: "documents:delete",
+        scope: project,
+      });
+
+      const result = await t.query(api.queries.checkPermission, {
+        userId: "user_123",
+        permission: "documents:delete",
+        scope: doc,
+        rolePermissions: {},
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.matchedScope).toEqual(project);
+    });
+
+    it("should stop inheriting once a scope is detached", async () => {
+      const t = await setupHierarchy();
+
+      await t.mutation(api.mutations.assignRole, {
+        userId: "user_123",
+        role: "editor",
+        scope: org,
+      });
+      await t.mutation(api.scopes.removeScopeParent, { scope: project });
+
+      const result = await t.query(api.queries.checkPermission, {
+        userId: "user_123",
+        permission: "documents:update",
+        scope: doc,
+        rolePermissions: { editor: ["documents:update"] },
+      });
+      expect(result.allowed).toBe(false);
+    });
+
+    it("should reject cycles", async () => {
+      const t = await setupHierarchy();
+
+      await expect(
+        t.mutation(api.scopes.setScopeParent, { scope: org, parent: doc })
+      ).rejects.toThrow(/cannot be its own ancestor/);
+    });
+
+    it("should reject chains deeper than the ancestor limit", async () => {
+      const t = convexTest(schema, modules);
+      const folder = (i: number) => ({ type: "folder", id: `f${i}` });
+
+      // f10 -> f9 -> ... -> f0 gives f10 ten ancestors, the most allowed
+      for (let i = 1; i <= 10; i++) {
+        await t.mutation(api.scopes.setScopeParent, {
+          scope: folder(i),
+          parent: folder(i - 1),
+        });
+      }
+
+      await expect(
+        t.mutation(api.scopes.setScopeParent, { scope: folder(11), parent: folder(10) })
+      ).rejects.toThrow(/nested 11 levels deep/);
+
+      // Hanging f0 under a new root would push f10 past the limit too
+      await expect(
+        t.mutation(api.scopes.setScopeParent, { scope: folder(0), parent: org })
+      ).rejects.toThrow(/nested 11 levels deep/);
+
+      // Closing the chain into a cycle is caught past the limit as well
+      await expect(
+        t.mutation(api.scopes.setScopeParent, { scope: folder(0), parent: folder(10) })
+      ).rejects.toThrow(/cannot be its own ancestor/);
+    });
+  });
+
   describe("audit logging", () => {
     it("should log role assignment with audit enabled", async () => {
       const t = convexTest(schema, modules);
@@ -366,5 +757,866 @@ describe("authz component", () => {
       expect(logs[0].action).toBe("role_assigned");
       expect((logs[0].details as { role: string }).role).toBe("admin");
     });
+
+    it("should log role definition changes with before and after snapshots", async () => {
+      vi.useFakeTimers();
+      const t = convexTest(schema, modules);
+      const scope = { type: "org", id: "o1" };
+
+      const roleId = await t.mutation(api.mutations.createRoleDefinition, {
+        name: "auditor",
+        scope,
+        permissions: ["reports:read"],
+        isSystem: false,
+        createdBy: "admin_user",
+        enableAudit: true,
+      });
+      await t.mutation(api.mutations.updateRoleDefinition, {
+        roleId: roleId as Id<"roleDefinitions">,
+        permissions: ["reports:read", "reports:export"],
+        updatedBy: "admin_user",
+        enableAudit: true,
+      });
+      await t.mutation(api.mutations.deleteRoleDefinition, {
+        roleId: roleId as Id<"roleDefinitions">,
+        deletedBy: "admin_user",
+        enableAudit: true,
+      });
+
+      const logs = await t.query(api.queries.getAuditLog, {
+        userId: "role:auditor",
+      });
+
+      expect(logs.map((l) => l.action)).toEqual([
+        "role_definition_deleted",
+        "role_definition_updated",
+        "role_definition_created",
+      ]);
+      expect(logs.every((l) => l.actorId === "admin_user")).toBe(true);
+      expect(logs[1].details.before).toMatchObject({
+        permissions: ["reports:read"],
+      });
+      expect(logs[1].details.after).toMatchObject({
+        permissions: ["reports:read", "reports:export"],
+      });
+      expect(logs[0].details.scope).toEqual(scope);
+
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+      vi.useRealTimers();
+    });
+
+    it("should log relation and override removals", async () => {
+      const t = convexTest(schema, modules);
+      const tuple = {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "member",
+        objectType: "team",
+        objectId: "sales",
+      };
+
+      await t.mutation(api.rebac.addRelation, {
+        ...tuple,
+        createdBy: "admin_user",
+        enableAudit: true,
+      });
+      await t.mutation(api.rebac.removeRelation, {
+        ...tuple,
+        removedBy: "admin_user",
+        enableAudit: true,
+      });
+      await t.mutation(api.mutations.grantPermission, {
+        userId: "alice",
+        permission: "documents:delete",
+        reason: "migration",
+      });
+      await t.mutation(api.mutations.removePermissionOverride, {
+        userId: "alice",
+        permission: "documents:delete",
+        removedBy: "admin_user",
+        enableAudit: true,
+      });
+
+      const logs = await t.query(api.queries.getAuditLog, { userId: "alice" });
+
+      expect(logs.map((l) => l.action)).toEqual([
+        "permission_revoked",
+        "relation_removed",
+        "relation_added",
+      ]);
+      expect(logs[0].details.before).toMatchObject({
+        effect: "allow",
+        reason: "migration",
+      });
+      expect(logs[1].details.before).toMatchObject(tuple);
+      expect(logs[2].details.scope).toEqual({ type: "team", id: "sales" });
+    });
+
+    it("should page through audit entries newest first", async () => {
+      const t = convexTest(schema, modules);
+
+      for (const role of ["viewer", "editor", "admin"]) {
+        await t.mutation(api.mutations.assignRole, {
+          userId: "user_123",
+          role,
+          enableAudit: true,
+        });
+      }
+      await t.mutation(api.mutations.revokeRole, {
+        userId: "user_123",
+        role: "viewer",
+        enableAudit: true,
+      });
+
+      const first = await t.query(api.queries.getAuditLogPage, {
+        userId: "user_123",
+        action: "role_assigned",
+        paginationOpts: { numItems: 2, cursor: null },
+      });
+      expect(first.page.map((e) => e.details.role)).toEqual(["admin", "editor"]);
+      expect(first.isDone).toBe(false);
+
+      const second = await t.query(api.queries.getAuditLogPage, {
+        userId: "user_123",
+        action: "role_assigned",
+        paginationOpts: { numItems: 2, cursor: first.continueCursor },
+      });
+      expect(second.page.map((e) => e.details.role)).toEqual(["viewer"]);
+      expect(second.isDone).toBe(true);
+    });
+  });
+
+  describe("scheduled expiry", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should remove expiring roles and overrides on time", async () => {
+      const t = convexTest(schema, modules);
+      const expiresAt = Date.now() + 60_000;
+
+      await t.mutation(api.mutations.assignRole, {
+        userId: "user_123",
+        role: "editor",
+        expiresAt,
+      });
+      await t.mutation(api.mutations.grantPermission, {
+        userId: "user_123",
+        permission: "billing:read",
+        expiresAt,
+      });
+      await t.mutation(api.mutations.assignRole, {
+        userId: "user_123",
+        role: "viewer",
+      });
+
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      const roles = await t.query(api.queries.getUserRoles, {
+        userId: "user_123",
+      });
+      expect(roles.map((r) => r.role)).toEqual(["viewer"]);
+
+      // Expired rows are closed at their expiry and kept as history
+      const overrides = await t.run((ctx) =>
+        ctx.db.query("permissionOverrides").collect()
+      );
+      expect(overrides).toHaveLength(1);
+      expect(overrides[0].validTo).toBe(expiresAt);
+
+      const logs = await t.query(api.queries.getAuditLog, {
+        userId: "user_123",
+      });
+      expect(logs.map((l) => l.action).sort()).toEqual([
+        "override_expired",
+        "role_expired",
+      ]);
+    });
+
+    it("should leave access alone when the expiry was extended", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.mutations.grantPermission, {
+        userId: "user_123",
+        permission: "billing:read",
+        expiresAt: Date.now() + 1_000,
+      });
+      await t.mutation(api.mutations.grantPermission, {
+        userId: "user_123",
+        permission: "billing:read",
+        expiresAt: Date.now() + 60_000,
+      });
+
+      vi.advanceTimersByTime(2_000);
+      await t.finishInProgressScheduledFunctions();
+
+      const result = await t.query(api.queries.checkPermission, {
+        userId: "user_123",
+        permission: "billing:read",
+        rolePermissions: {},
+      });
+      expect(result.allowed).toBe(true);
+
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+    });
+
+    it("should sweep rows that expired without a scheduled job", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.run(async (ctx) => {
+        await ctx.db.insert("roleAssignments", {
+          userId: "user_123",
+          role: "editor",
+          expiresAt: Date.now() - 1_000,
+        });
+        await ctx.db.insert("roleAssignments", {
+          userId: "user_123",
+          role: "viewer",
+          expiresAt: Date.now() + 60_000,
+        });
+        await ctx.db.insert("roleAssignments", {
+          userId: "user_123",
+          role: "member",
+        });
+      });
+
+      const result = await t.mutation(api.mutations.cleanupExpired, {});
+      expect(result).toEqual({ expiredRoles: 1, expiredOverrides: 0 });
+
+      const roles = await t.run((ctx) => ctx.db.query("roleAssignments").collect());
+      const open = roles.filter((r) => r.validTo === undefined);
+      expect(open.map((r) => r.role).sort()).toEqual(["member", "viewer"]);
+    });
+  });
+
+  describe("JSON policies", () => {
+    const rolePermissions = { editor: ["documents:read", "documents:update"] };
+    const ownerOnly = {
+      eq: [{ ref: "resource.attributes.ownerId" }, { ref: "subject.userId" }],
+    };
+
+    it("should evaluate stored policies inside checkPermission", async () => {
+      const t = convexTest(schema, modules);
+      await t.mutation(api.mutations.assignRole, {
+        userId: "alice",
+        role: "editor",
+      });
+      await t.mutation(api.policies.setPolicy, {
+        permission: "documents:update",
+        condition: ownerOnly,
+        message: "Only the owner can update",
+      });
+
+      const check = (ownerId: string) =>
+        t.query(api.queries.checkPermission, {
+          userId: "alice",
+          permission: "documents:update",
+          rolePermissions,
+          resource: { type: "document", id: "doc1", attributes: { ownerId } },
+        });
+
+      const owner = await check("alice");
+      expect(owner.allowed).toBe(true);
+      expect(owner.policies).toEqual([
+        {
+          key: "documents:update",
+          effect: "deny",
+          passed: true,
+          message: "Only the owner can update",
+        },
+      ]);
+
+      const other = await check("bob");
+      expect(other).toMatchObject({
+        allowed: false,
+        reason: "Only the owner can update",
+        matchedRole: "editor",
+      });
+      expect(other.missingResourceAttributes).toBeUndefined();
+
+      // Flagged so the client can load the attributes and check again
+      const unloaded = await t.query(api.queries.checkPermission, {
+        userId: "alice",
+        permission: "documents:update",
+        rolePermissions,
+        scope: { type: "document", id: "doc1" },
+      });
+      expect(unloaded.missingResourceAttributes).toBe(true);
+
+      // Other permissions are unaffected
+      const read = await t.query(api.queries.checkPermission, {
+        userId: "alice",
+        permission: "documents:read",
+        rolePermissions,
+      });
+      expect(read.policies).toBeUndefined();
+    });
+
+    it("should resolve subject attributes and roles in the component", async () => {
+      const t = convexTest(schema, modules);
+      await t.mutation(api.mutations.setAttribute, {
+        userId: "alice",
+        key: "clearance",
+        value: 3,
+      });
+      await t.mutation(api.policies.setPolicy, {
+        permission: "reports:*",
+        effect: "allow",
+        condition: {
+          and: [
+            { gte: [{ ref: "subject.attributes.clearance" }, 3] },
+            { lt: [{ ref: "environment.timestamp" }, 2_000] },
+          ],
+        },
+      });
+
+      const at = (timestamp: number) =>
+        t.query(api.queries.checkPermissions, {
+          userId: "alice",
+          checks: [{ permission: "reports:view" }],
+          rolePermissions: {},
+          environment: { timestamp },
+        });
+
+      expect((await at(1_000))[0]).toMatchObject({
+        allowed: true,
+        reason: "Allowed by policy",
+        policies: [{ key: "reports:*", effect: "allow", passed: true }],
+      });
+      expect((await at(3_000))[0].allowed).toBe(false);
+    });
+
+    it("should apply config policies and prefer stored ones", async () => {
+      const t = convexTest(schema, modules);
+      await t.mutation(api.mutations.assignRole, {
+        userId: "alice",
+        role: "editor",
+      });
+      const policies = {
+        "documents:*": { condition: { eq: [{ ref: "subject.userId" }, "bob"] } },
+      };
+
+      const viaConfig = await t.query(api.queries.checkPermission, {
+        userId: "alice",
+        permission: "documents:read",
+        rolePermissions,
+        policies,
+      });
+      expect(viaConfig.allowed).toBe(false);
+      expect(viaConfig.policies?.map((p) => p.key)).toEqual(["documents:*"]);
+
+      await t.mutation(api.policies.setPolicy, {
+        permission: "documents:*",
+        condition: { eq: [{ ref: "subject.userId" }, "alice"] },
+        updatedBy: "admin_user",
+        enableAudit: true,
+      });
+      const viaStored = await t.query(api.queries.checkPermission, {
+        userId: "alice",
+        permission: "documents:read",
+        rolePermissions,
+        policies,
+      });
+      expect(viaStored.allowed).toBe(true);
+
+      expect(
+        await t.mutation(api.policies.deletePolicy, {
+          permission: "documents:*",
+          deletedBy: "admin_user",
+          enableAudit: true,
+        })
+      ).toBe(true);
+      expect(await t.query(api.policies.listPolicies, {})).toEqual([]);
+
+      const logs = await t.query(api.queries.getAuditLog, {
+        userId: "policy:documents:*",
+      });
+      expect(logs.map((l) => l.action)).toEqual(["policy_deleted", "policy_created"]);
+    });
+
+    it("should narrow access with tenant policies on a scope", async () => {
+      const t = convexTest(schema, modules);
+      const acme = { type: "org", id: "acme" };
+      const dealPermissions = { sales: ["deals:update"] };
+
+      await t.mutation(api.mutations.assignRole, {
+        userId: "alice",
+        role: "sales",
+      });
+      await t.mutation(api.scopes.setScopeParent, {
+        scope: { type: "deal", id: "big" },
+        parent: acme,
+      });
+      await t.mutation(api.policies.setPolicy, {
+        permission: "deals:update",
+        scope: acme,
+        condition: {
+          or: [
+            { lte: [{ ref: "resource.attributes.amount" }, 100_000] },
+            { eq: [{ ref: "subject.attributes.approver" }, true] },
+          ],
+        },
+        message: "Deals over $100k require an approver",
+      });
+
+      const check = (scope: { type: string; id: string }) =>
+        t.query(api.queries.checkPermission, {
+          userId: "alice",
+          permission: "deals:update",
+          scope,
+          rolePermissions: dealPermissions,
+          resource: { type: "deal", id: "big", attributes: { amount: 250_000 } },
+        });
+
+      // Applies on the tenant's scope and scopes nested under it
+      const denied = await check({ type: "deal", id: "big" });
+      expect(denied).toMatchObject({
+        allowed: false,
+        reason: "Deals over $100k require an approver",
+        policies: [
+          { key: "deals:update", effect: "deny", passed: false, scope: acme },
+        ],
+      });
+      expect((await check({ type: "org", id: "globex" })).allowed).toBe(true);
+
+      await t.mutation(api.mutations.setAttribute, {
+        userId: "alice",
+        key: "approver",
+        value: true,
+      });
+      expect((await check({ type: "deal", id: "big" })).allowed).toBe(true);
+
+      const policies = await t.query(api.policies.listPolicies, { scope: acme });
+      expect(policies.map((p) => p.permission)).toEqual(["deals:update"]);
+      expect(await t.query(api.policies.listPolicies, {})).toEqual([]);
+    });
+
+    it("should not let tenant policies widen access", async () => {
+      const t = convexTest(schema, modules);
+      const acme = { type: "org", id: "acme" };
+
+      await expect(
+        t.mutation(api.policies.setPolicy, {
+          permission: "billing:*",
+          scope: acme,
+          effect: "allow",
+          condition: { eq: [1, 1] },
+        })
+      ).rejects.toThrow(/INVALID_POLICY/);
+
+      // A system deny policy still applies when the tenant's own passes
+      await t.mutation(api.mutations.assignRole, {
+        userId: "alice",
+        role: "editor",
+      });
+      await t.mutation(api.policies.setPolicy, {
+        permission: "documents:update",
+        condition: { eq: [{ ref: "resource.attributes.locked" }, false] },
+      });
+      await t.mutation(api.policies.setPolicy, {
+        permission: "documents:*",
+        scope: acme,
+        condition: { eq: [1, 1] },
+      });
+      const result = await t.query(api.queries.checkPermission, {
+        userId: "alice",
+        permission: "documents:update",
+        scope: acme,
+        rolePermissions,
+        resource: { type: "document", id: "d1", attributes: { locked: true } },
+      });
+      expect(result).toMatchObject({
+        allowed: false,
+        policies: [
+          { key: "documents:update", passed: false },
+          { key: "documents:*", passed: true, scope: acme },
+        ],
+      });
+    });
+
+    it("should combine every matching policy", async () => {
+      const t = convexTest(schema, modules);
+      await t.mutation(api.mutations.assignRole, {
+        userId: "alice",
+        role: "editor",
+      });
+      // A catch-all deny is no longer shadowed by a more specific policy
+      const policies = {
+        "documents:*": {
+          effect: "allow" as const,
+          condition: { eq: [{ ref: "subject.attributes.team" }, "docs"] },
+        },
+        "*": {
+          condition: { neq: [{ ref: "environment.ip" }, "10.0.0.66"] },
+          message: "Blocked network",
+        },
+      };
+      const check = (
+        policyCombining?: "deny-overrides" | "permit-overrides" | "first-applicable"
+      ) =>
+        t.query(api.queries.checkPermission, {
+          userId: "alice",
+          permission: "documents:update",
+          rolePermissions,
+          policies,
+          policyCombining,
+          environment: { ip: "10.0.0.66" },
+          subject: { attributes: { team: "docs" } },
+        });
+
+      const denyOverrides = await check();
+      expect(denyOverrides).toMatchObject({
+        allowed: false,
+        reason: "Blocked network",
+        policies: [
+          { key: "documents:*", effect: "allow", passed: true },
+          { key: "*", effect: "deny", passed: false },
+        ],
+      });
+      expect((await check("permit-overrides")).allowed).toBe(true);
+      // The most specific applicable policy is documents:*, which allows
+      expect((await check("first-applicable")).allowed).toBe(true);
+
+      // Decisions made in the client for closures are combined too, unless
+      // a stored policy replaces them
+      const withClient = await t.query(api.queries.checkPermission, {
+        userId: "alice",
+        permission: "documents:update",
+        rolePermissions,
+        policyDecisions: [
+          { key: "documents:update", effect: "deny", passed: false, message: "Locked" },
+        ],
+      });
+      expect(withClient).toMatchObject({ allowed: false, reason: "Locked" });
+
+      await t.mutation(api.policies.setPolicy, {
+        permission: "documents:update",
+        condition: { eq: [1, 1] },
+      });
+      const replaced = await t.query(api.queries.checkPermission, {
+        userId: "alice",
+        permission: "documents:update",
+        rolePermissions,
+        policyDecisions: [
+          { key: "documents:update", effect: "deny", passed: false, message: "Locked" },
+        ],
+      });
+      expect(replaced.allowed).toBe(true);
+    });
+
+    it("should reject malformed conditions", async () => {
+      const t = convexTest(schema, modules);
+      await expect(
+        t.mutation(api.policies.setPolicy, {
+          permission: "documents:update",
+          condition: { like: [{ ref: "subject.userId" }, "a%"] },
+        })
+      ).rejects.toThrow(/INVALID_CONDITION/);
+    });
+  });
+
+  describe("point-in-time checks", () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const rolePermissions = { editor: ["documents:read", "documents:update"] };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2026-03-02T09:00:00Z"));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should answer checks against revoked roles", async () => {
+      const t = convexTest(schema, modules);
+      const beforeAssign = Date.now() - DAY;
+
+      await t.mutation(api.mutations.assignRole, {
+        userId: "alice",
+        role: "editor",
+      });
+      const whileAssigned = Date.now() + DAY;
+      vi.setSystemTime(Date.now() + 2 * DAY);
+      await t.mutation(api.mutations.revokeRole, {
+        userId: "alice",
+        role: "editor",
+        revokedBy: "admin_user",
+      });
+
+      const checkAt = (timestamp: number) =>
+        t.query(api.queries.checkPermissionAsOf, {
+          userId: "alice",
+          permission: "documents:read",
+          rolePermissions,
+          timestamp,
+        });
+
+      expect((await checkAt(beforeAssign)).allowed).toBe(false);
+      const past = await checkAt(whileAssigned);
+      expect(past.allowed).toBe(true);
+      expect(past.matchedRole).toBe("editor");
+      expect(past.asOf).toEqual({
+        timestamp: whileAssigned,
+        notEvaluated: ["relations", "policies"],
+        readAsCurrent: ["roleDefinitions", "scopeHierarchy"],
+      });
+      expect((await checkAt(Date.now())).allowed).toBe(false);
+
+      // The closed assignment is history only
+      const now = await t.query(api.queries.checkPermission, {
+        userId: "alice",
+        permission: "documents:read",
+        rolePermissions,
+      });
+      expect(now.allowed).toBe(false);
+      const roles = await t.run((ctx) => ctx.db.query("roleAssignments").collect());
+      expect(roles[0]).toMatchObject({ validTo: Date.now(), revokedBy: "admin_user" });
+
+      // Reassigning is not blocked by the closed row
+      await t.mutation(api.mutations.assignRole, {
+        userId: "alice",
+        role: "editor",
+      });
+      expect(
+        await t.query(api.queries.hasRole, { userId: "alice", role: "editor" })
+      ).toBe(true);
+    });
+
+    it("should keep replaced overrides as history", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.mutations.grantPermission, {
+        userId: "alice",
+        permission: "billing:read",
+      });
+      const whileGranted = Date.now() + DAY;
+      vi.setSystemTime(Date.now() + 2 * DAY);
+      await t.mutation(api.mutations.denyPermission, {
+        userId: "alice",
+        permission: "billing:read",
+        reason: "Under review",
+      });
+
+      const granted = await t.query(api.queries.checkPermissionAsOf, {
+        userId: "alice",
+        permission: "billing:read",
+        rolePermissions: {},
+        timestamp: whileGranted,
+      });
+      expect(granted.allowed).toBe(true);
+
+      const denied = await t.query(api.queries.checkPermissionAsOf, {
+        userId: "alice",
+        permission: "billing:read",
+        rolePermissions: {},
+        timestamp: Date.now(),
+      });
+      expect(denied).toMatchObject({ allowed: false, reason: "Under review" });
+
+      const overrides = await t.query(api.queries.getPermissionOverrides, {
+        userId: "alice",
+      });
+      expect(overrides.map((o) => o.effect)).toEqual(["deny"]);
+    });
+
+    it("should purge history past the retention window", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.history.setHistoryRetention, {
+        retentionMs: 7 * DAY,
+        updatedBy: "admin_user",
+        enableAudit: true,
+      });
+      expect(await t.query(api.history.getHistoryRetention, {})).toBe(7 * DAY);
+
+      await t.mutation(api.mutations.assignRole, {
+        userId: "alice",
+        role: "editor",
+      });
+      const assignedAt = Date.now();
+      await t.mutation(api.mutations.revokeRole, {
+        userId: "alice",
+        role: "editor",
+      });
+
+      vi.setSystemTime(Date.now() + 8 * DAY);
+
+      await expect(
+        t.query(api.queries.checkPermissionAsOf, {
+          userId: "alice",
+          permission: "documents:read",
+          rolePermissions,
+          timestamp: assignedAt,
+        })
+      ).rejects.toThrow(/History is only kept/);
+
+      await t.mutation(api.mutations.cleanupExpired, {});
+      const roles = await t.run((ctx) => ctx.db.query("roleAssignments").collect());
+      expect(roles).toEqual([]);
+
+      const logs = await t.query(api.queries.getAuditLog, {
+        action: "history_retention_updated",
+      });
+      expect(logs[0].details.after).toEqual({ retentionMs: 7 * DAY });
+    });
+  });
+
+  describe("paginated queries", () => {
+    it("should page through role holders, skipping expired and other scopes", async () => {
+      const t = convexTest(schema, modules);
+      const team = { type: "team", id: "t1" };
+
+      await t.mutation(api.mutations.assignRole, {
+        userId: "global_admin",
+        role: "admin",
+      });
+      await t.mutation(api.mutations.assignRole, {
+        userId: "team_admin",
+        role: "admin",
+        scope: team,
+      });
+      await t.mutation(api.mutations.assignRole, {
+        userId: "other_team_admin",
+        role: "admin",
+        scope: { type: "team", id: "t2" },
+      });
+      // Expired but not yet swept
+      await t.run(async (ctx) => {
+        await ctx.db.insert("roleAssignments", {
+          userId: "expired_admin",
+          role: "admin",
+          scope: team,
+          expiresAt: Date.now() - 1000,
+        });
+      });
+
+      const result = await t.query(api.queries.getUsersWithRolePage, {
+        role: "admin",
+        scope: team,
+        paginationOpts: { numItems: 10, cursor: null },
+      });
+      expect(result.page.map((u) => u.userId).sort()).toEqual([
+        "global_admin",
+        "team_admin",
+      ]);
+      expect(result.isDone).toBe(true);
+    });
+
+    it("should list holders assigned on an ancestor scope", async () => {
+      const t = convexTest(schema, modules);
+      const org = { type: "org", id: "acme" };
+      const project = { type: "project", id: "p1" };
+
+      await t.mutation(api.scopes.setScopeParent, { scope: project, parent: org });
+      await t.mutation(api.mutations.assignRole, {
+        userId: "org_admin",
+        role: "admin",
+        scope: org,
+      });
+      await t.mutation(api.mutations.assignRole, {
+        userId: "other_org_admin",
+        role: "admin",
+        scope: { type: "org", id: "other" },
+      });
+
+      const page = await t.query(api.queries.getUsersWithRolePage, {
+        role: "admin",
+        scope: project,
+        paginationOpts: { numItems: 10, cursor: null },
+      });
+      const all = await t.query(api.queries.getUsersWithRole, {
+        role: "admin",
+        scope: project,
+      });
+      const hasRole = await t.query(api.queries.hasRole, {
+        userId: "org_admin",
+        role: "admin",
+        scope: project,
+      });
+
+      expect(page.page.map((u) => u.userId)).toEqual(["org_admin"]);
+      expect(all.map((u) => u.userId)).toEqual(["org_admin"]);
+      expect(hasRole).toBe(true);
+    });
+
+    it("should list each holder once across pages of scopes", async () => {
+      const t = convexTest(schema, modules);
+      const org = { type: "org", id: "acme" };
+      const project = { type: "project", id: "p1" };
+
+      await t.mutation(api.scopes.setScopeParent, { scope: project, parent: org });
+      for (const [userId, scope] of [
+        ["alice", org],
+        ["alice", project],
+        ["bob", project],
+        ["carol", undefined],
+        ["dave", org],
+      ] as const) {
+        await t.mutation(api.mutations.assignRole, { userId, role: "admin", scope });
+      }
+      // Revoked assignments stay as history and are not listed
+      await t.mutation(api.mutations.assignRole, {
+        userId: "erin",
+        role: "admin",
+        scope: project,
+      });
+      await t.mutation(api.mutations.revokeRole, {
+        userId: "erin",
+        role: "admin",
+        scope: project,
+      });
+
+      const listed: string[] = [];
+      let cursor: string | null = null;
+      for (let i = 0; i < 10; i++) {
+        const result: { page: { userId: string }[]; isDone: boolean; continueCursor: string } =
+          await t.query(api.queries.getUsersWithRolePage, {
+            role: "admin",
+            scope: project,
+            paginationOpts: { numItems: 1, cursor },
+          });
+        listed.push(...result.page.map((u) => u.userId));
+        if (result.isDone) break;
+        cursor = result.continueCursor;
+      }
+
+      // Global first, then the project, then the org
+      expect(listed).toEqual(["carol", "alice", "bob", "dave"]);
+      const all = await t.query(api.queries.getUsersWithRole, {
+        role: "admin",
+        scope: project,
+      });
+      expect(all.map((u) => u.userId)).toEqual(["carol", "alice", "bob", "dave"]);
+    });
+
+    it("should page through user attributes", async () => {
+      const t = convexTest(schema, modules);
+
+      for (const key of ["department", "level", "region"]) {
+        await t.mutation(api.mutations.setAttribute, {
+          userId: "user_123",
+          key,
+          value: "x",
+        });
+      }
+
+      const first = await t.query(api.queries.getUserAttributesPage, {
+        userId: "user_123",
+        paginationOpts: { numItems: 2, cursor: null },
+      });
+      const second = await t.query(api.queries.getUserAttributesPage, {
+        userId: "user_123",
+        paginationOpts: { numItems: 2, cursor: first.continueCursor },
+      });
+
+      expect(first.page).toHaveLength(2);
+      expect(second.page).toHaveLength(1);
+      expect(second.isDone).toBe(true);
+    });
   });
 });
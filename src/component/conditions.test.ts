@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateCondition,
+  referencesResource,
+  validateCondition,
+  type Condition,
+  type ConditionContext,
+} from "./conditions";
+
+const context: ConditionContext = {
+  subject: {
+    userId: "alice",
+    roles: ["editor"],
+    attributes: { department: "engineering", clearance: 3 },
+  },
+  resource: {
+    type: "document",
+    id: "doc1",
+    attributes: { ownerId: "alice", status: "draft" },
+  },
+  environment: { timestamp: 1_000, ip: "10.0.0.1" },
+  action: "documents:update",
+};
+
+describe("conditions", () => {
+  describe("evaluateCondition", () => {
+    it("should compare references and literals", () => {
+      expect(
+        evaluateCondition(
+          { eq: [{ ref: "resource.attributes.ownerId" }, { ref: "subject.userId" }] },
+          context
+        )
+      ).toBe(true);
+      expect(
+        evaluateCondition({ gte: [{ ref: "subject.attributes.clearance" }, 3] }, context)
+      ).toBe(true);
+      expect(
+        evaluateCondition({ lt: [{ ref: "environment.timestamp" }, 500] }, context)
+      ).toBe(false);
+      expect(
+        evaluateCondition({ neq: [{ ref: "resource.attributes.status" }, "archived"] }, context)
+      ).toBe(true);
+    });
+
+    it("should support in and boolean combinators", () => {
+      const condition: Condition = {
+        and: [
+          { in: [{ ref: "subject.attributes.department" }, ["engineering", "security"]] },
+          { in: ["editor", { ref: "subject.roles" }] },
+          { not: { eq: [{ ref: "resource.attributes.status" }, "archived"] } },
+        ],
+      };
+      expect(evaluateCondition(condition, context)).toBe(true);
+      expect(
+        evaluateCondition(
+          { or: [{ eq: [{ ref: "action" }, "documents:read"] }, { eq: [1, 2] }] },
+          context
+        )
+      ).toBe(false);
+    });
+
+    it("should treat missing values as non-matching", () => {
+      expect(
+        evaluateCondition({ eq: [{ ref: "subject.attributes.missing" }, { ref: "resource.attributes.missing" }] }, context)
+      ).toBe(false);
+      expect(
+        evaluateCondition({ gt: [{ ref: "subject.attributes.missing" }, 0] }, context)
+      ).toBe(false);
+      expect(
+        evaluateCondition({ gt: [{ ref: "subject.attributes.department" }, 0] }, context)
+      ).toBe(false);
+    });
+
+    it("should match networks and schedules", () => {
+      // Monday 2026-03-02 17:30 UTC, 18:30 in Berlin
+      const monday = {
+        ...context,
+        environment: { timestamp: Date.UTC(2026, 2, 2, 17, 30), ip: "10.0.0.1" },
+      };
+      const ip = { ref: "environment.ip" };
+      const now = { ref: "environment.timestamp" };
+
+      expect(evaluateCondition({ ipInCidr: [ip, "10.0.0.0/8"] }, monday)).toBe(true);
+      expect(evaluateCondition({ ipInCidr: [ip, "192.168.0.0/16"] }, monday)).toBe(false);
+      expect(
+        evaluateCondition({ withinSchedule: [now, "Mon-Fri 09:00-18:00"] }, monday)
+      ).toBe(true);
+      expect(
+        evaluateCondition(
+          { withinSchedule: [now, ["Mon-Fri 09:00-18:00", "Europe/Berlin"]] },
+          monday
+        )
+      ).toBe(false);
+      // Malformed referenced values never match
+      expect(
+        evaluateCondition({ ipInCidr: [ip, { ref: "subject.attributes.department" }] }, monday)
+      ).toBe(false);
+    });
+  });
+
+  describe("validateCondition", () => {
+    it("should accept well-formed conditions", () => {
+      expect(() =>
+        validateCondition({
+          or: [{ eq: [{ ref: "subject.userId" }, "alice"] }, { not: { in: [1, [1, 2]] } }],
+        })
+      ).not.toThrow();
+    });
+
+    it("should reject malformed conditions", () => {
+      expect(() => validateCondition({ matches: [1, 2] })).toThrow(/unknown operator/);
+      expect(() => validateCondition({ eq: [1] })).toThrow(/expected \[left, right\]/);
+      expect(() => validateCondition({ and: [] })).toThrow(/non-empty array/);
+      expect(() => validateCondition({ eq: [{ ref: "db.users" }, 1] })).toThrow(
+        /must start with/
+      );
+      expect(() => validateCondition({ eq: [1, 2], or: [] })).toThrow(/exactly one/);
+      expect(() => validateCondition({ ipInCidr: [1, "10.0.0.0/33"] })).toThrow(
+        /Invalid CIDR/
+      );
+      expect(() =>
+        validateCondition({ withinSchedule: [1, ["Mon-Fri 09:00-18:00", "Mars/Base"]] })
+      ).toThrow(/INVALID_CONDITION/);
+    });
+  });
+
+  describe("referencesResource", () => {
+    it("should find resource references in nested conditions", () => {
+      expect(
+        referencesResource({
+          and: [
+            { eq: [{ ref: "subject.userId" }, "alice"] },
+            { not: { eq: ["draft", { ref: "resource.attributes.status" }] } },
+          ],
+        })
+      ).toBe(true);
+      expect(
+        referencesResource({ or: [{ gte: [{ ref: "subject.attributes.clearance" }, 3] }] })
+      ).toBe(false);
+    });
+  });
+});
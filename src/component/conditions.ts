@@ -0,0 +1,280 @@
+/**
+ * Policy Conditions
+ *
+ * A JSON condition language for ABAC policies that can be stored in the
+ * `policies` table and evaluated inside component queries. Each node is an
+ * object with a single operator key:
+ *
+ *   { and: [c1, c2] }, { or: [...] }, { not: c }
+ *   { eq: [a, b] }, { neq }, { gt }, { gte }, { lt }, { lte }
+ *   { in: [a, list] }
+ *   { ipInCidr: [ip, "10.0.0.0/8"] }
+ *   { withinSchedule: [timestamp, "Mon-Fri 09:00-18:00"] }, or with a time
+ *   zone: { withinSchedule: [timestamp, ["Mon-Fri 09:00-18:00", "Europe/Berlin"]] }
+ *
+ * Operands are JSON literals or references into the policy context, e.g.
+ * { ref: "subject.attributes.department" }, { ref: "resource.attributes.ownerId" },
+ * { ref: "environment.timestamp" }, { ref: "subject.userId" }.
+ */
+
+import { ConvexError } from "convex/values";
+import { ipInCidr, isWithinSchedule } from "./helpers";
+
+export type ConditionValue =
+  | string
+  | number
+  | boolean
+  | null
+  | Array<string | number | boolean | null>;
+
+export type ConditionOperand = ConditionValue | { ref: string };
+
+export type ComparisonOperator =
+  | "eq"
+  | "neq"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "in"
+  | "ipInCidr"
+  | "withinSchedule";
+
+export type Condition =
+  | { and: Condition[] }
+  | { or: Condition[] }
+  | { not: Condition }
+  | { [K in ComparisonOperator]: { [Op in K]: [ConditionOperand, ConditionOperand] } }[ComparisonOperator];
+
+/**
+ * Values a condition can reference
+ */
+export interface ConditionContext {
+  subject: {
+    userId: string;
+    roles: string[];
+    attributes: Record<string, unknown>;
+  };
+  resource?: {
+    type: string;
+    id: string;
+    attributes?: Record<string, unknown>;
+  };
+  environment: {
+    timestamp: number;
+    ip?: string;
+  };
+  action: string;
+}
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = [
+  "eq",
+  "neq",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "ipInCidr",
+  "withinSchedule",
+];
+
+const REF_ROOTS = ["subject", "resource", "environment", "action"];
+
+function isRef(operand: unknown): operand is { ref: string } {
+  return (
+    typeof operand === "object" &&
+    operand !== null &&
+    !Array.isArray(operand) &&
+    typeof (operand as { ref?: unknown }).ref === "string"
+  );
+}
+
+function resolveOperand(operand: ConditionOperand, context: ConditionContext): unknown {
+  if (!isRef(operand)) return operand;
+
+  let value: unknown = context;
+  for (const segment of operand.ref.split(".")) {
+    if (typeof value !== "object" || value === null) return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * Malformed ranges and schedules from referenced values never match
+ */
+function safely(test: () => boolean): boolean {
+  try {
+    return test();
+  } catch {
+    return false;
+  }
+}
+
+function compare(
+  operator: ComparisonOperator,
+  left: unknown,
+  right: unknown
+): boolean {
+  switch (operator) {
+    case "eq":
+      return left !== undefined && left === right;
+    case "neq":
+      return left !== right;
+    case "in":
+      return Array.isArray(right) && right.includes(left);
+    case "ipInCidr":
+      return (
+        typeof right === "string" &&
+        (left === undefined || typeof left === "string") &&
+        safely(() => ipInCidr(left, right))
+      );
+    case "withinSchedule": {
+      const [schedule, timeZone] = Array.isArray(right) ? right : [right];
+      return (
+        typeof left === "number" &&
+        typeof schedule === "string" &&
+        (timeZone === undefined || typeof timeZone === "string") &&
+        safely(() => isWithinSchedule(schedule, left, timeZone))
+      );
+    }
+    default: {
+      // Ordering only applies to two numbers or two strings
+      const comparable =
+        (typeof left === "number" && typeof right === "number") ||
+        (typeof left === "string" && typeof right === "string");
+      if (!comparable) return false;
+      const a = left as number | string;
+      const b = right as number | string;
+      if (operator === "gt") return a > b;
+      if (operator === "gte") return a >= b;
+      if (operator === "lt") return a < b;
+      return a <= b;
+    }
+  }
+}
+
+/**
+ * Evaluate a condition against a policy context
+ */
+export function evaluateCondition(
+  condition: Condition,
+  context: ConditionContext
+): boolean {
+  if ("and" in condition) {
+    return condition.and.every((c) => evaluateCondition(c, context));
+  }
+  if ("or" in condition) {
+    return condition.or.some((c) => evaluateCondition(c, context));
+  }
+  if ("not" in condition) {
+    return !evaluateCondition(condition.not, context);
+  }
+
+  const operator = Object.keys(condition)[0] as ComparisonOperator;
+  const [left, right] = (condition as Record<string, [ConditionOperand, ConditionOperand]>)[
+    operator
+  ];
+  return compare(
+    operator,
+    resolveOperand(left, context),
+    resolveOperand(right, context)
+  );
+}
+
+/**
+ * Check whether a condition reads the resource, so its attributes only need
+ * loading for checks whose policies use them
+ */
+export function referencesResource(condition: Condition): boolean {
+  if ("and" in condition) return condition.and.some(referencesResource);
+  if ("or" in condition) return condition.or.some(referencesResource);
+  if ("not" in condition) return referencesResource(condition.not);
+
+  const operands = Object.values(condition)[0] as ConditionOperand[];
+  return operands.some(
+    (operand) => isRef(operand) && operand.ref.split(".")[0] === "resource"
+  );
+}
+
+/**
+ * Check whether a policy condition is a JSON condition rather than a closure
+ */
+export function isCondition(condition: unknown): condition is Condition {
+  return typeof condition === "object" && condition !== null;
+}
+
+function invalid(message: string): never {
+  throw new ConvexError({ code: "INVALID_CONDITION", message });
+}
+
+function validateOperand(operand: unknown, path: string, roots: string[]): void {
+  if (isRef(operand)) {
+    const root = operand.ref.split(".")[0];
+    if (!roots.includes(root)) {
+      invalid(`${path}: reference "${operand.ref}" must start with ${roots.join(", ")}`);
+    }
+    return;
+  }
+  const isLiteral = (value: unknown) =>
+    value === null || ["string", "number", "boolean"].includes(typeof value);
+  if (isLiteral(operand)) return;
+  if (Array.isArray(operand) && operand.every(isLiteral)) return;
+  invalid(`${path}: operands must be literals, literal arrays or { ref }`);
+}
+
+/**
+ * Throw INVALID_CONDITION unless the value is a well-formed condition.
+ * Used before storing conditions that arrive as untyped JSON.
+ * `roots` limits what references may point into.
+ */
+export function validateCondition(
+  condition: unknown,
+  path = "condition",
+  roots: string[] = REF_ROOTS
+): void {
+  if (typeof condition !== "object" || condition === null || Array.isArray(condition)) {
+    invalid(`${path}: expected an object`);
+  }
+  const keys = Object.keys(condition);
+  if (keys.length !== 1) {
+    invalid(`${path}: expected exactly one operator, got ${keys.length}`);
+  }
+
+  const operator = keys[0];
+  const operand = (condition as Record<string, unknown>)[operator];
+
+  if (operator === "and" || operator === "or") {
+    if (!Array.isArray(operand) || operand.length === 0) {
+      invalid(`${path}.${operator}: expected a non-empty array of conditions`);
+    }
+    operand.forEach((c, i) => validateCondition(c, `${path}.${operator}[${i}]`, roots));
+    return;
+  }
+  if (operator === "not") {
+    validateCondition(operand, `${path}.not`, roots);
+    return;
+  }
+  if (!COMPARISON_OPERATORS.includes(operator as ComparisonOperator)) {
+    invalid(`${path}: unknown operator "${operator}"`);
+  }
+  if (!Array.isArray(operand) || operand.length !== 2) {
+    invalid(`${path}.${operator}: expected [left, right]`);
+  }
+  operand.forEach((o, i) => validateOperand(o, `${path}.${operator}[${i}]`, roots));
+
+  // Literal ranges and schedules are checked up front
+  const literal = operand[1];
+  if (isRef(literal)) return;
+  try {
+    if (operator === "ipInCidr") {
+      ipInCidr(undefined, String(literal));
+    } else if (operator === "withinSchedule") {
+      const [schedule, timeZone] = Array.isArray(literal) ? literal : [literal];
+      isWithinSchedule(String(schedule), 0, timeZone === undefined ? undefined : String(timeZone));
+    }
+  } catch (error) {
+    invalid(`${path}.${operator}: ${(error as Error).message}`);
+  }
+}
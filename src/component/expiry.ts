@@ -0,0 +1,375 @@
+/**
+ * Expiry
+ *
+ * Temporary role assignments and permission overrides are removed on time by
+ * a job scheduled at their `expiresAt` when they are written. A bounded sweep
+ * over the `by_expiry` indexes (`cleanupExpired`) catches anything a job
+ * missed, e.g. rows written before scheduling existed.
+ *
+ * Jobs re-read the row and only act when it is still expired, so extending
+ * or re-granting access simply leaves the old job as a no-op.
+ *
+ * Standard-strategy rows are closed at their `expiresAt` rather than deleted,
+ * so they remain available to point-in-time checks (see history.ts).
+ */
+
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internalMutation, type MutationCtx } from "./_generated/server";
+import { writeAuditEntry } from "./audit";
+import {
+  closePermissionOverride,
+  closeRoleAssignment,
+  purgeExpiredHistory,
+} from "./history";
+
+const SWEEP_BATCH_SIZE = 100;
+
+function isDue(expiresAt: number | undefined, now: number): boolean {
+  return expiresAt !== undefined && expiresAt <= now;
+}
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+export async function scheduleRoleAssignmentExpiry(
+  ctx: MutationCtx,
+  assignmentId: Id<"roleAssignments">,
+  expiresAt: number | undefined
+) {
+  if (expiresAt === undefined) return;
+  await ctx.scheduler.runAt(expiresAt, internal.expiry.expireRoleAssignment, {
+    assignmentId,
+  });
+}
+
+export async function schedulePermissionOverrideExpiry(
+  ctx: MutationCtx,
+  overrideId: Id<"permissionOverrides">,
+  expiresAt: number | undefined
+) {
+  if (expiresAt === undefined) return;
+  await ctx.scheduler.runAt(expiresAt, internal.expiry.expirePermissionOverride, {
+    overrideId,
+  });
+}
+
+export async function scheduleEffectiveRoleExpiry(
+  ctx: MutationCtx,
+  roleId: Id<"effectiveRoles">,
+  expiresAt: number | undefined
+) {
+  if (expiresAt === undefined) return;
+  await ctx.scheduler.runAt(expiresAt, internal.expiry.expireEffectiveRole, {
+    roleId,
+  });
+}
+
+export async function scheduleEffectivePermissionExpiry(
+  ctx: MutationCtx,
+  permissionId: Id<"effectivePermissions">,
+  expiresAt: number | undefined
+) {
+  if (expiresAt === undefined) return;
+  await ctx.scheduler.runAt(
+    expiresAt,
+    internal.expiry.expireEffectivePermission,
+    { permissionId }
+  );
+}
+
+// ============================================================================
+// Expiring a Single Row
+// ============================================================================
+
+async function expireRoleAssignmentRow(
+  ctx: MutationCtx,
+  assignment: Doc<"roleAssignments">
+) {
+  await closeRoleAssignment(ctx, assignment, { at: assignment.expiresAt });
+  await writeAuditEntry(ctx, {
+    action: "role_expired",
+    userId: assignment.userId,
+    details: {
+      role: assignment.role,
+      scope: assignment.scope,
+      before: { expiresAt: assignment.expiresAt },
+    },
+  });
+}
+
+async function expirePermissionOverrideRow(
+  ctx: MutationCtx,
+  override: Doc<"permissionOverrides">
+) {
+  await closePermissionOverride(ctx, override, { at: override.expiresAt });
+  await writeAuditEntry(ctx, {
+    action: "override_expired",
+    userId: override.userId,
+    details: {
+      permission: override.permission,
+      scope: override.scope,
+      before: { effect: override.effect, expiresAt: override.expiresAt },
+    },
+  });
+}
+
+/**
+ * Remove an indexed role and drop it as a source from the user's
+ * permissions in that scope
+ */
+async function expireEffectiveRoleRow(
+  ctx: MutationCtx,
+  role: Doc<"effectiveRoles">
+) {
+  await ctx.db.delete(role._id);
+
+  const permissions = await ctx.db
+    .query("effectivePermissions")
+    .withIndex("by_user_scope", (q) =>
+      q.eq("userId", role.userId).eq("scopeKey", role.scopeKey)
+    )
+    .collect();
+
+  for (const perm of permissions) {
+    if (!perm.sources.includes(role.role)) continue;
+
+    const sources = perm.sources.filter((s) => s !== role.role);
+    if (sources.length === 0 && !perm.directGrant && !perm.directDeny) {
+      await ctx.db.delete(perm._id);
+    } else {
+      await ctx.db.patch(perm._id, { sources, updatedAt: Date.now() });
+    }
+  }
+
+  await writeAuditEntry(ctx, {
+    action: "role_expired",
+    userId: role.userId,
+    details: {
+      role: role.role,
+      scope: role.scope,
+      before: { expiresAt: role.expiresAt },
+    },
+  });
+}
+
+/**
+ * Roles still backing an indexed permission row (assigned and not expired)
+ */
+async function activeSources(
+  ctx: MutationCtx,
+  perm: Doc<"effectivePermissions">,
+  now: number
+): Promise<string[]> {
+  const active: string[] = [];
+  for (const source of perm.sources) {
+    const role = await ctx.db
+      .query("effectiveRoles")
+      .withIndex("by_user_role_scope", (q) =>
+        q
+          .eq("userId", perm.userId)
+          .eq("role", source)
+          .eq("scopeKey", perm.scopeKey)
+      )
+      .unique();
+    if (role && !isDue(role.expiresAt, now)) {
+      active.push(source);
+    }
+  }
+  return active;
+}
+
+/**
+ * Expire an indexed permission row. Direct grants/denies are audited; rows
+ * still backed by active roles keep those grants and lose only the override.
+ */
+async function expireEffectivePermissionRow(
+  ctx: MutationCtx,
+  perm: Doc<"effectivePermissions">
+) {
+  const now = Date.now();
+  const sources = await activeSources(ctx, perm, now);
+
+  if (sources.length > 0) {
+    await ctx.db.patch(perm._id, {
+      effect: "allow",
+      sources,
+      directGrant: undefined,
+      directDeny: undefined,
+      reason: undefined,
+      expiresAt: undefined,
+      updatedAt: now,
+    });
+  } else {
+    await ctx.db.delete(perm._id);
+  }
+
+  if (perm.directGrant || perm.directDeny) {
+    await writeAuditEntry(ctx, {
+      action: "override_expired",
+      userId: perm.userId,
+      details: {
+        permission: perm.permission,
+        scope: perm.scope,
+        before: { effect: perm.effect, expiresAt: perm.expiresAt },
+      },
+    });
+  }
+}
+
+// ============================================================================
+// Scheduled Jobs
+// ============================================================================
+
+export const expireRoleAssignment = internalMutation({
+  args: { assignmentId: v.id("roleAssignments") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const assignment = await ctx.db.get(args.assignmentId);
+    if (
+      assignment &&
+      assignment.validTo === undefined &&
+      isDue(assignment.expiresAt, Date.now())
+    ) {
+      await expireRoleAssignmentRow(ctx, assignment);
+    }
+    return null;
+  },
+});
+
+export const expirePermissionOverride = internalMutation({
+  args: { overrideId: v.id("permissionOverrides") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const override = await ctx.db.get(args.overrideId);
+    if (
+      override &&
+      override.validTo === undefined &&
+      isDue(override.expiresAt, Date.now())
+    ) {
+      await expirePermissionOverrideRow(ctx, override);
+    }
+    return null;
+  },
+});
+
+export const expireEffectiveRole = internalMutation({
+  args: { roleId: v.id("effectiveRoles") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const role = await ctx.db.get(args.roleId);
+    if (role && isDue(role.expiresAt, Date.now())) {
+      await expireEffectiveRoleRow(ctx, role);
+    }
+    return null;
+  },
+});
+
+export const expireEffectivePermission = internalMutation({
+  args: { permissionId: v.id("effectivePermissions") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const perm = await ctx.db.get(args.permissionId);
+    if (perm && isDue(perm.expiresAt, Date.now())) {
+      await expireEffectivePermissionRow(ctx, perm);
+    }
+    return null;
+  },
+});
+
+// ============================================================================
+// Fallback Sweep
+// ============================================================================
+
+/**
+ * Expire one batch of standard-strategy rows past their expiry and purge
+ * history past the retention window.
+ * `hasMore` is true when a batch was full and another pass is needed.
+ */
+export async function sweepExpiredAssignments(ctx: MutationCtx) {
+  const now = Date.now();
+
+  const roles = await ctx.db
+    .query("roleAssignments")
+    .withIndex("by_validity", (q) =>
+      q.eq("validTo", undefined).gte("expiresAt", 0).lte("expiresAt", now)
+    )
+    .take(SWEEP_BATCH_SIZE);
+  for (const assignment of roles) {
+    await expireRoleAssignmentRow(ctx, assignment);
+  }
+
+  const overrides = await ctx.db
+    .query("permissionOverrides")
+    .withIndex("by_validity", (q) =>
+      q.eq("validTo", undefined).gte("expiresAt", 0).lte("expiresAt", now)
+    )
+    .take(SWEEP_BATCH_SIZE);
+  for (const override of overrides) {
+    await expirePermissionOverrideRow(ctx, override);
+  }
+
+  const history = await purgeExpiredHistory(ctx);
+
+  return {
+    expiredRoles: roles.length,
+    expiredOverrides: overrides.length,
+    hasMore:
+      roles.length === SWEEP_BATCH_SIZE ||
+      overrides.length === SWEEP_BATCH_SIZE ||
+      history.hasMore,
+  };
+}
+
+/**
+ * Expire one batch of indexed-strategy rows past their expiry
+ */
+export async function sweepExpiredIndexed(ctx: MutationCtx) {
+  const now = Date.now();
+
+  // Roles first, so their permission rows are cleaned up with them
+  const roles = await ctx.db
+    .query("effectiveRoles")
+    .withIndex("by_expiry", (q) => q.gte("expiresAt", 0).lte("expiresAt", now))
+    .take(SWEEP_BATCH_SIZE);
+  for (const role of roles) {
+    await expireEffectiveRoleRow(ctx, role);
+  }
+
+  const permissions = await ctx.db
+    .query("effectivePermissions")
+    .withIndex("by_expiry", (q) => q.gte("expiresAt", 0).lte("expiresAt", now))
+    .take(SWEEP_BATCH_SIZE);
+  for (const perm of permissions) {
+    await expireEffectivePermissionRow(ctx, perm);
+  }
+
+  return {
+    expiredRoles: roles.length,
+    expiredPermissions: permissions.length,
+    hasMore:
+      roles.length === SWEEP_BATCH_SIZE ||
+      permissions.length === SWEEP_BATCH_SIZE,
+  };
+}
+
+/**
+ * Continue a sweep started by `cleanupExpired` until no expired rows remain
+ */
+export const continueSweep = internalMutation({
+  args: { strategy: v.union(v.literal("standard"), v.literal("indexed")) },
+  returns: v.null(),
+  handler: async (ctx, args): Promise<null> => {
+    const { hasMore } =
+      args.strategy === "standard"
+        ? await sweepExpiredAssignments(ctx)
+        : await sweepExpiredIndexed(ctx);
+
+    if (hasMore) {
+      await ctx.scheduler.runAfter(0, internal.expiry.continueSweep, args);
+    }
+    return null;
+  },
+});
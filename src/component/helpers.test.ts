@@ -1,6 +1,9 @@
 import { describe, expect, it } from "vitest";
+import { v, type GenericValidator } from "convex/values";
 import {
+  isActive,
   isExpired,
+  wasActiveAt,
   parsePermission,
   buildPermission,
   matchesPermissionPattern,
@@ -8,9 +11,13 @@ import {
   checkOverrides,
   resolveRolePermissions,
   hasPermissionInSet,
-  getRoleLevel,
-  compareRoles,
+  roleIncludes,
   createPolicyContext,
+  isWithinSchedule,
+  ipInCidr,
+  policyPatterns,
+  combinePolicyDecisions,
+  matchesValidatorJson,
 } from "./helpers.js";
 
 describe("helpers", () => {
@@ -34,6 +41,36 @@ describe("helpers", () => {
     });
   });
 
+  describe("isActive and wasActiveAt", () => {
+    const row = {
+      _creationTime: 1_000,
+      validFrom: 2_000,
+      validTo: 5_000,
+    };
+
+    it("should treat closed rows as inactive", () => {
+      expect(isActive(row)).toBe(false);
+      expect(isActive({ _creationTime: 1_000 })).toBe(true);
+      expect(isActive({ _creationTime: 1_000, expiresAt: Date.now() - 1 })).toBe(
+        false
+      );
+    });
+
+    it("should evaluate the interval at a timestamp", () => {
+      expect(wasActiveAt(row, 1_500)).toBe(false);
+      expect(wasActiveAt(row, 2_000)).toBe(true);
+      expect(wasActiveAt(row, 4_999)).toBe(true);
+      expect(wasActiveAt(row, 5_000)).toBe(false);
+    });
+
+    it("should fall back to creation time and honour expiry", () => {
+      const legacy = { _creationTime: 1_000, expiresAt: 3_000 };
+      expect(wasActiveAt(legacy, 999)).toBe(false);
+      expect(wasActiveAt(legacy, 3_000)).toBe(true);
+      expect(wasActiveAt(legacy, 3_001)).toBe(false);
+    });
+  });
+
   describe("parsePermission", () => {
     it("should parse permission string", () => {
       const result = parsePermission("documents:read");
@@ -98,6 +135,17 @@ describe("helpers", () => {
         matchesScope({ type: "team", id: "123" }, { type: "team", id: "456" })
       ).toBe(false);
     });
+
+    it("should match a scope on one of the target's ancestors", () => {
+      const org = { type: "org", id: "acme" };
+      const ancestors = [{ type: "project", id: "p1" }, org];
+      expect(
+        matchesScope(org, { type: "document", id: "42" }, ancestors)
+      ).toBe(true);
+      expect(
+        matchesScope({ type: "org", id: "other" }, { type: "document", id: "42" }, ancestors)
+      ).toBe(false);
+    });
   });
 
   describe("checkOverrides", () => {
@@ -168,23 +216,20 @@ describe("helpers", () => {
     });
   });
 
-  describe("getRoleLevel and compareRoles", () => {
-    it("should get default role levels", () => {
-      expect(getRoleLevel("admin")).toBe(80);
-      expect(getRoleLevel("viewer")).toBe(20);
-      expect(getRoleLevel("unknown")).toBe(0);
-    });
+  describe("roleIncludes", () => {
+    const parents: Record<string, string> = { admin: "editor", editor: "viewer" };
+    const getParent = (role: string) => parents[role];
 
-    it("should compare roles", () => {
-      expect(compareRoles("admin", "viewer")).toBeGreaterThan(0);
-      expect(compareRoles("viewer", "admin")).toBeLessThan(0);
-      expect(compareRoles("admin", "admin")).toBe(0);
+    it("should follow the inherits chain", async () => {
+      expect(await roleIncludes("admin", "admin", getParent)).toBe(true);
+      expect(await roleIncludes("admin", "viewer", getParent)).toBe(true);
+      expect(await roleIncludes("viewer", "admin", getParent)).toBe(false);
+      expect(await roleIncludes("guest", "viewer", getParent)).toBe(false);
     });
 
-    it("should use custom hierarchy", () => {
-      const custom = { boss: 100, employee: 10 };
-      expect(getRoleLevel("boss", custom)).toBe(100);
-      expect(compareRoles("boss", "employee", custom)).toBeGreaterThan(0);
+    it("should stop on cycles", async () => {
+      const cyclic: Record<string, string> = { a: "b", b: "a" };
+      expect(await roleIncludes("a", "c", (role) => cyclic[role])).toBe(false);
     });
   });
 
@@ -206,5 +251,129 @@ describe("helpers", () => {
       expect(ctx.getAttribute("department")).toBe("engineering");
       expect(ctx.getAttribute("missing", "default")).toBe("default");
     });
+
+    it("should expose environment helpers", () => {
+      const ctx = createPolicyContext("user_123", [], {}, "documents:read", undefined, {
+        ip: "10.0.0.5",
+        timestamp: Date.UTC(2026, 2, 2, 10),
+      });
+
+      expect(ctx.ipInCidr("10.0.0.0/24")).toBe(true);
+      expect(ctx.isWithinSchedule("Mon-Fri 09:00-18:00")).toBe(true);
+      expect(ctx.isBefore("2026-03-03T00:00:00Z")).toBe(true);
+      expect(ctx.isAfter(new Date("2026-03-03T00:00:00Z"))).toBe(false);
+    });
+  });
+
+  describe("isWithinSchedule", () => {
+    // Monday 2026-03-02
+    const monday = (hour: number, minute = 0) => Date.UTC(2026, 2, 2, hour, minute);
+
+    it("should match days and hours", () => {
+      expect(isWithinSchedule("Mon-Fri 09:00-18:00", monday(9))).toBe(true);
+      expect(isWithinSchedule("Mon-Fri 09:00-18:00", monday(18))).toBe(false);
+      expect(isWithinSchedule("Sat,Sun 09:00-18:00", monday(12))).toBe(false);
+      // Ranges can wrap the week and the day
+      expect(isWithinSchedule("Fri-Mon 22:00-06:00", monday(23))).toBe(true);
+      expect(isWithinSchedule("Fri-Mon 22:00-06:00", monday(12))).toBe(false);
+    });
+
+    it("should evaluate in a time zone", () => {
+      // 08:30 UTC is 17:30 in Tokyo
+      expect(isWithinSchedule("Mon 09:00-18:00", monday(8, 30))).toBe(false);
+      expect(isWithinSchedule("Mon 09:00-18:00", monday(8, 30), "Asia/Tokyo")).toBe(true);
+    });
+
+    it("should reject malformed schedules", () => {
+      expect(() => isWithinSchedule("weekdays", 0)).toThrow(/Invalid schedule/);
+      expect(() => isWithinSchedule("Mon-Fri 9-5", 0)).toThrow(/Invalid schedule/);
+      expect(() => isWithinSchedule("Funday 09:00-10:00", 0)).toThrow(/not a weekday/);
+    });
+  });
+
+  describe("ipInCidr", () => {
+    it("should match IPv4 and IPv6 ranges", () => {
+      expect(ipInCidr("10.1.2.3", "10.0.0.0/8")).toBe(true);
+      expect(ipInCidr("11.1.2.3", "10.0.0.0/8")).toBe(false);
+      expect(ipInCidr("192.168.1.7", "192.168.1.7")).toBe(true);
+      expect(ipInCidr("2001:db8::1", "2001:db8::/32")).toBe(true);
+      expect(ipInCidr("2001:db9::1", "2001:db8::/32")).toBe(false);
+      expect(ipInCidr("10.1.2.3", "::/0")).toBe(false);
+    });
+
+    it("should not match missing or malformed addresses", () => {
+      expect(ipInCidr(undefined, "0.0.0.0/0")).toBe(false);
+      expect(ipInCidr("not-an-ip", "0.0.0.0/0")).toBe(false);
+      expect(() => ipInCidr("10.0.0.1", "10.0.0.0/40")).toThrow(/Invalid CIDR/);
+    });
+  });
+
+  describe("policyPatterns", () => {
+    it("should list matching patterns from most to least specific", () => {
+      expect(policyPatterns("documents:read")).toEqual([
+        "documents:read",
+        "documents:*",
+        "*:read",
+        "*:*",
+        "*",
+      ]);
+    });
+  });
+
+  describe("combinePolicyDecisions", () => {
+    const allowed = { allowed: true, reason: "Granted by role" };
+    const denied = { allowed: false, reason: "No role" };
+    const allow = { key: "documents:*", effect: "allow" as const, passed: true };
+    const deny = { key: "*", effect: "deny" as const, passed: false, message: "Blocked" };
+
+    it("should leave results without policies untouched", () => {
+      expect(combinePolicyDecisions(allowed, [])).toBe(allowed);
+    });
+
+    it("should combine with each algorithm", () => {
+      expect(combinePolicyDecisions(allowed, [allow, deny])).toMatchObject({
+        allowed: false,
+        reason: "Blocked",
+        policies: [allow, deny],
+      });
+      expect(combinePolicyDecisions(allowed, [allow, deny], "permit-overrides").allowed).toBe(true);
+      expect(combinePolicyDecisions(allowed, [allow, deny], "first-applicable").allowed).toBe(true);
+      expect(combinePolicyDecisions(allowed, [deny, allow], "first-applicable").allowed).toBe(false);
+      expect(combinePolicyDecisions(denied, [allow], "deny-overrides")).toMatchObject({
+        allowed: true,
+        reason: "Allowed by policy",
+      });
+    });
+
+    it("should never lift a deny override or a tenant denial", () => {
+      const overridden = { ...denied, matchedOverride: "documents:*" };
+      expect(combinePolicyDecisions(overridden, [allow], "permit-overrides").allowed).toBe(false);
+
+      const tenant = { ...deny, scope: { type: "org", id: "acme" } };
+      expect(combinePolicyDecisions(denied, [allow, tenant], "permit-overrides")).toMatchObject({
+        allowed: false,
+        reason: "Blocked",
+      });
+    });
+  });
+
+  describe("matchesValidatorJson", () => {
+    const json = (validator: GenericValidator) =>
+      (validator as unknown as { json: unknown }).json;
+
+    it("should match values against serialized validators", () => {
+      const level = json(v.union(v.literal("low"), v.literal("high")));
+      expect(matchesValidatorJson("high", level)).toBe(true);
+      expect(matchesValidatorJson("medium", level)).toBe(false);
+
+      const profile = json(v.object({ team: v.string(), manager: v.optional(v.boolean()) }));
+      expect(matchesValidatorJson({ team: "sales" }, profile)).toBe(true);
+      expect(matchesValidatorJson({ team: "sales", manager: 1 }, profile)).toBe(false);
+      expect(matchesValidatorJson({ team: "sales", extra: 1 }, profile)).toBe(false);
+
+      expect(matchesValidatorJson([1, 2], json(v.array(v.number())))).toBe(true);
+      expect(matchesValidatorJson({ a: 1 }, json(v.record(v.string(), v.number())))).toBe(true);
+      expect(matchesValidatorJson(null, json(v.string()))).toBe(false);
+    });
   });
 });
@@ -1,18 +1,5 @@
 // Helper types and utilities for authorization checks
 
-/**
- * Role hierarchy levels for comparison
- * Higher number = more permissions
- */
-export const ROLE_HIERARCHY: Record<string, number> = {
-  superadmin: 100,
-  admin: 80,
-  manager: 60,
-  editor: 40,
-  viewer: 20,
-  guest: 10,
-};
-
 /**
  * Check if a role assignment has expired
  */
@@ -22,27 +9,53 @@ export function isExpired(expiresAt: number | undefined | null): boolean {
 }
 
 /**
- * Get the hierarchy level of a role
- * Unknown roles default to level 0
+ * Validity interval of a role assignment or permission override.
+ * Rows are closed (`validTo` set) on revoke instead of being deleted,
+ * so past access can be reconstructed.
  */
-export function getRoleLevel(
-  role: string,
-  customHierarchy?: Record<string, number>
-): number {
-  const hierarchy = customHierarchy ?? ROLE_HIERARCHY;
-  return hierarchy[role] ?? 0;
+export interface ValidityInterval {
+  _creationTime: number;
+  validFrom?: number;
+  validTo?: number;
+  expiresAt?: number;
 }
 
 /**
- * Compare two roles and return which has higher permissions
- * Returns positive if role1 > role2, negative if role1 < role2, 0 if equal
+ * Check if a row is currently in effect (not revoked and not expired)
  */
-export function compareRoles(
-  role1: string,
-  role2: string,
-  customHierarchy?: Record<string, number>
-): number {
-  return getRoleLevel(role1, customHierarchy) - getRoleLevel(role2, customHierarchy);
+export function isActive(row: ValidityInterval): boolean {
+  return row.validTo === undefined && !isExpired(row.expiresAt);
+}
+
+/**
+ * Check if a row was in effect at a point in time
+ */
+export function wasActiveAt(row: ValidityInterval, timestamp: number): boolean {
+  const validFrom = row.validFrom ?? row._creationTime;
+  if (timestamp < validFrom) return false;
+  if (row.validTo !== undefined && timestamp >= row.validTo) return false;
+  return row.expiresAt === undefined || timestamp <= row.expiresAt;
+}
+
+/**
+ * Check if a role is at least another in the role hierarchy, i.e. it is the
+ * same role or inherits from it through its chain of parents.
+ * `getParent` returns a role's parent (config `inherits` or a stored
+ * definition's `parentRole`), or undefined at the top of the chain.
+ */
+export async function roleIncludes(
+  role: string,
+  target: string,
+  getParent: (role: string) => string | undefined | Promise<string | undefined>
+): Promise<boolean> {
+  const visited = new Set<string>();
+  let current: string | undefined = role;
+  while (current !== undefined && !visited.has(current)) {
+    if (current === target) return true;
+    visited.add(current);
+    current = await getParent(current);
+  }
+  return false;
 }
 
 /**
@@ -93,17 +106,21 @@ export function matchesPermissionPattern(
 
 /**
  * Scope matching for resource-level permissions
+ * A scoped grant also matches when it sits on one of the target's ancestors.
  */
 export function matchesScope(
   scope: { type: string; id: string } | undefined,
-  targetScope: { type: string; id: string } | undefined
+  targetScope: { type: string; id: string } | undefined,
+  ancestors: Array<{ type: string; id: string }> = []
 ): boolean {
   // No scope = global permission (matches everything)
   if (!scope) return true;
   // Target has no scope but permission is scoped = no match
   if (!targetScope) return false;
-  // Both have scope, must match exactly
-  return scope.type === targetScope.type && scope.id === targetScope.id;
+  // Both have scope, must match exactly or match an ancestor
+  return [targetScope, ...ancestors].some(
+    (s) => scope.type === s.type && scope.id === s.id
+  );
 }
 
 /**
@@ -192,6 +209,153 @@ export function hasPermissionInSet(
   return false;
 }
 
+// ============================================================================
+// Environment Conditions
+// ============================================================================
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/**
+ * A weekly schedule such as "Mon-Fri 09:00-18:00" or "Sat,Sun 10:00-14:00"
+ */
+interface Schedule {
+  days: Set<number>;
+  start: number;
+  end: number;
+}
+
+function parseClock(value: string, schedule: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  const hours = match ? Number(match[1]) : NaN;
+  const minutes = match ? Number(match[2]) : NaN;
+  if (!(hours <= 24 && minutes < 60) || (hours === 24 && minutes > 0)) {
+    throw new Error(`Invalid schedule "${schedule}": "${value}" is not a HH:MM time`);
+  }
+  return hours * 60 + minutes;
+}
+
+function parseDay(value: string, schedule: string): number {
+  const day = WEEKDAYS.indexOf(value.slice(0, 3).toLowerCase());
+  if (day === -1) {
+    throw new Error(`Invalid schedule "${schedule}": "${value}" is not a weekday`);
+  }
+  return day;
+}
+
+/**
+ * Parse a weekly schedule. Days are names or ranges ("Mon-Fri", "Sat,Sun");
+ * the time range may wrap past midnight ("22:00-06:00").
+ * Throws on malformed schedules.
+ */
+function parseSchedule(schedule: string): Schedule {
+  const [daySpec, timeSpec, ...rest] = schedule.trim().split(/\s+/);
+  if (!daySpec || !timeSpec || rest.length > 0) {
+    throw new Error(`Invalid schedule "${schedule}": expected "<days> <HH:MM-HH:MM>"`);
+  }
+
+  const days = new Set<number>();
+  for (const part of daySpec.split(",")) {
+    const [from, to] = part.split("-");
+    const first = parseDay(from, schedule);
+    const last = to === undefined ? first : parseDay(to, schedule);
+    for (let day = first; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === last) break;
+    }
+  }
+
+  const [start, end] = timeSpec.split("-");
+  if (end === undefined) {
+    throw new Error(`Invalid schedule "${schedule}": expected a HH:MM-HH:MM time range`);
+  }
+  return { days, start: parseClock(start, schedule), end: parseClock(end, schedule) };
+}
+
+/**
+ * Check if a timestamp falls within a weekly schedule in a time zone
+ * (an IANA name such as "Europe/Berlin"; UTC by default)
+ */
+export function isWithinSchedule(
+  schedule: string,
+  timestamp: number,
+  timeZone = "UTC"
+): boolean {
+  const { days, start, end } = parseSchedule(schedule);
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(timestamp));
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+
+  const day = parseDay(part("weekday"), schedule);
+  const minutes = Number(part("hour")) * 60 + Number(part("minute"));
+  if (!days.has(day)) return false;
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address into its bits, or null if it is not one
+ */
+function parseIp(ip: string): { bits: bigint; size: number } | null {
+  if (ip.includes(".") && !ip.includes(":")) {
+    const octets = ip.split(".");
+    if (octets.length !== 4) return null;
+    let bits = 0n;
+    for (const octet of octets) {
+      if (!/^\d{1,3}$/.test(octet) || Number(octet) > 255) return null;
+      bits = (bits << 8n) | BigInt(octet);
+    }
+    return { bits, size: 32 };
+  }
+
+  const halves = ip.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  let bits = 0n;
+  for (const group of [...head, ...Array<string>(missing).fill("0"), ...tail]) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    bits = (bits << 16n) | BigInt(parseInt(group, 16));
+  }
+  return { bits, size: 128 };
+}
+
+/**
+ * Check if an IP address is inside a CIDR range ("10.0.0.0/8", "2001:db8::/32").
+ * Missing or malformed addresses never match; malformed ranges throw.
+ */
+export function ipInCidr(ip: string | undefined, cidr: string): boolean {
+  const [address, prefix] = cidr.split("/");
+  const range = parseIp(address);
+  const length = prefix === undefined ? range?.size : Number(prefix);
+  if (
+    !range ||
+    length === undefined ||
+    !Number.isInteger(length) ||
+    length < 0 ||
+    length > range.size
+  ) {
+    throw new Error(`Invalid CIDR range "${cidr}"`);
+  }
+
+  const parsed = ip ? parseIp(ip) : null;
+  if (!parsed || parsed.size !== range.size) return false;
+  const shift = BigInt(range.size - length);
+  return parsed.bits >> shift === range.bits >> shift;
+}
+
+function toTimestamp(time: number | Date | string): number {
+  return typeof time === "number" ? time : new Date(time).getTime();
+}
+
 /**
  * Policy evaluation context builder
  */
@@ -214,6 +378,20 @@ export interface PolicyContext {
   hasRole: (role: string) => boolean;
   hasAttribute: (key: string) => boolean;
   getAttribute: <T>(key: string, defaultValue?: T) => T | undefined;
+  /**
+   * Whether the request time is within a weekly schedule,
+   * e.g. isWithinSchedule("Mon-Fri 09:00-18:00", "Europe/Berlin")
+   */
+  isWithinSchedule: (schedule: string, timeZone?: string) => boolean;
+  /**
+   * Whether the request IP is inside a CIDR range, e.g. ipInCidr("10.0.0.0/8")
+   */
+  ipInCidr: (cidr: string) => boolean;
+  /**
+   * Whether the request time is before / after a timestamp, Date or ISO string
+   */
+  isBefore: (time: number | Date | string) => boolean;
+  isAfter: (time: number | Date | string) => boolean;
 }
 
 export function createPolicyContext(
@@ -222,8 +400,12 @@ export function createPolicyContext(
   userAttributes: Record<string, string | number | boolean | null | Array<string | number | boolean | null> | Record<string, string | number | boolean | null>>,
   action: string,
   resource?: { type: string; id: string; attributes?: Record<string, string | number | boolean | null | Array<string | number | boolean | null> | Record<string, string | number | boolean | null>> },
-  environment?: { ip?: string }
+  environment?: { ip?: string; timestamp?: number }
 ): PolicyContext {
+  const env = {
+    timestamp: environment?.timestamp ?? Date.now(),
+    ip: environment?.ip,
+  };
   return {
     subject: {
       userId,
@@ -232,13 +414,179 @@ export function createPolicyContext(
     },
     resource,
     action,
-    environment: {
-      timestamp: Date.now(),
-      ip: environment?.ip,
-    },
+    environment: env,
     hasRole: (role: string) => roles.includes(role),
     hasAttribute: (key: string) => key in userAttributes,
     getAttribute: <T>(key: string, defaultValue?: T) =>
       (userAttributes[key] as T) ?? defaultValue,
+    isWithinSchedule: (schedule, timeZone) =>
+      isWithinSchedule(schedule, env.timestamp, timeZone),
+    ipInCidr: (cidr) => ipInCidr(env.ip, cidr),
+    isBefore: (time) => env.timestamp < toTimestamp(time),
+    isAfter: (time) => env.timestamp > toTimestamp(time),
+  };
+}
+
+// ============================================================================
+// Attribute Schema
+// ============================================================================
+
+/**
+ * Check a value against the serialized form of a Convex validator
+ * (`validator.json`), as sent by the client for declared attributes
+ */
+export function matchesValidatorJson(value: unknown, json: unknown): boolean {
+  const validator = json as {
+    type: string;
+    value?: unknown;
+    values?: { fieldType: unknown };
   };
+  switch (validator.type) {
+    case "any":
+      return true;
+    case "null":
+      return value === null;
+    case "string":
+    case "id":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number";
+    case "bigint":
+      return typeof value === "bigint";
+    case "boolean":
+      return typeof value === "boolean";
+    case "bytes":
+      return value instanceof ArrayBuffer;
+    case "literal":
+      return value === validator.value;
+    case "array":
+      return (
+        Array.isArray(value) &&
+        value.every((item) => matchesValidatorJson(item, validator.value))
+      );
+    case "union":
+      return (validator.value as unknown[]).some((member) =>
+        matchesValidatorJson(value, member)
+      );
+    case "record":
+      return (
+        isPlainObject(value) &&
+        Object.values(value).every((item) =>
+          matchesValidatorJson(item, validator.values?.fieldType)
+        )
+      );
+    case "object": {
+      if (!isPlainObject(value)) return false;
+      const fields = validator.value as Record<
+        string,
+        { fieldType: unknown; optional: boolean }
+      >;
+      return (
+        Object.keys(value).every((key) => key in fields) &&
+        Object.entries(fields).every(([key, field]) =>
+          value[key] === undefined
+            ? field.optional
+            : matchesValidatorJson(value[key], field.fieldType)
+        )
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Permission patterns a policy can be keyed by, most specific first
+ */
+export function policyPatterns(permission: string): string[] {
+  const { resource, action } = parsePermission(permission);
+  return [permission, `${resource}:*`, `*:${action}`, "*:*", "*"];
+}
+
+/**
+ * How the decisions of several matching policies are combined (as in XACML)
+ * - "deny-overrides": any failed deny policy denies
+ * - "permit-overrides": any passed allow policy allows
+ * - "first-applicable": the most specific policy that denies or allows decides
+ */
+export type PolicyCombiningAlgorithm =
+  | "deny-overrides"
+  | "permit-overrides"
+  | "first-applicable";
+
+interface CombinedDecision {
+  effect: "allow" | "deny";
+  passed: boolean;
+  message?: string;
+  // Set for tenant policies
+  scope?: { type: string; id: string };
+}
+
+/**
+ * Combine policy decisions (most specific first) with a check result.
+ * Deny policies only restrict access the user already has; allow policies
+ * grant access no role gave, but never lift a deny override. Tenant policies
+ * always narrow access, whatever the algorithm.
+ */
+export function combinePolicyDecisions<
+  D extends CombinedDecision,
+  T extends {
+    allowed: boolean;
+    reason: string;
+    matchedOverride?: string;
+    policies?: D[];
+  },
+>(
+  base: T,
+  decisions: D[],
+  algorithm: PolicyCombiningAlgorithm = "deny-overrides"
+): T {
+  if (decisions.length === 0) return base;
+
+  const denies = (d: D) => d.effect === "deny" && !d.passed;
+  const permits = (d: D) => d.effect === "allow" && d.passed;
+  const system = decisions.filter((d) => !d.scope);
+
+  let decisive: D | undefined;
+  if (algorithm === "deny-overrides") {
+    decisive = system.find(denies) ?? system.find(permits);
+  } else if (algorithm === "permit-overrides") {
+    decisive = system.find(permits) ?? system.find(denies);
+  } else {
+    decisive = system.find((d) => denies(d) || permits(d));
+  }
+
+  let result: T = { ...base, policies: decisions };
+  if (decisive && denies(decisive) && result.allowed) {
+    result = {
+      ...result,
+      allowed: false,
+      reason: decisive.message ?? "Denied by policy",
+    };
+  } else if (
+    decisive &&
+    permits(decisive) &&
+    !result.allowed &&
+    !result.matchedOverride
+  ) {
+    result = {
+      ...result,
+      allowed: true,
+      reason: decisive.message ?? "Allowed by policy",
+    };
+  }
+
+  const tenantDenial = decisions.find((d) => d.scope && denies(d));
+  if (tenantDenial && result.allowed) {
+    result = {
+      ...result,
+      allowed: false,
+      reason: tenantDenial.message ?? "Denied by tenant policy",
+    };
+  }
+  return result;
 }
@@ -0,0 +1,177 @@
+/**
+ * History
+ *
+ * Role assignments and permission overrides are closed (`validTo` set) instead
+ * of deleted when they are revoked, replaced or expire, so
+ * `checkPermissionAsOf` can answer what a user could do at a past time.
+ * Closed rows are purged by the expiry sweep once they fall outside the
+ * retention window.
+ */
+
+import { v, ConvexError } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
+import {
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import { writeAuditEntry } from "./audit";
+
+export const DEFAULT_HISTORY_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+const PURGE_BATCH_SIZE = 100;
+
+/**
+ * How long closed rows are kept, or null to keep them forever
+ */
+export async function getRetentionMs(ctx: QueryCtx): Promise<number | null> {
+  const settings = await ctx.db.query("historySettings").first();
+  return settings ? settings.retentionMs : DEFAULT_HISTORY_RETENTION_MS;
+}
+
+/**
+ * Throw if a timestamp is older than the history that is kept
+ */
+export async function assertWithinRetention(
+  ctx: QueryCtx,
+  timestamp: number
+): Promise<void> {
+  const retentionMs = await getRetentionMs(ctx);
+  if (retentionMs !== null && timestamp < Date.now() - retentionMs) {
+    throw new ConvexError({
+      code: "HISTORY_UNAVAILABLE",
+      message: `History is only kept for ${retentionMs}ms`,
+    });
+  }
+}
+
+// ============================================================================
+// Closing Rows
+// ============================================================================
+
+/**
+ * End a role assignment's validity, keeping the row as history
+ */
+export async function closeRoleAssignment(
+  ctx: MutationCtx,
+  assignment: Doc<"roleAssignments">,
+  options: { at?: number; revokedBy?: string } = {}
+): Promise<void> {
+  await ctx.db.patch(assignment._id, {
+    validTo: options.at ?? Date.now(),
+    revokedBy: options.revokedBy,
+  });
+}
+
+/**
+ * End a permission override's validity, keeping the row as history
+ */
+export async function closePermissionOverride(
+  ctx: MutationCtx,
+  override: Doc<"permissionOverrides">,
+  options: { at?: number; revokedBy?: string } = {}
+): Promise<void> {
+  await ctx.db.patch(override._id, {
+    validTo: options.at ?? Date.now(),
+    revokedBy: options.revokedBy,
+  });
+}
+
+/**
+ * Delete one batch of closed rows that are past the retention window.
+ * `hasMore` is true when a batch was full and another pass is needed.
+ */
+export async function purgeExpiredHistory(ctx: MutationCtx) {
+  const retentionMs = await getRetentionMs(ctx);
+  if (retentionMs === null) {
+    return { purged: 0, hasMore: false };
+  }
+  const cutoff = Date.now() - retentionMs;
+
+  const roles = await ctx.db
+    .query("roleAssignments")
+    .withIndex("by_validity", (q) => q.gte("validTo", 0).lt("validTo", cutoff))
+    .take(PURGE_BATCH_SIZE);
+  for (const assignment of roles) {
+    await ctx.db.delete(assignment._id);
+  }
+
+  const overrides = await ctx.db
+    .query("permissionOverrides")
+    .withIndex("by_validity", (q) => q.gte("validTo", 0).lt("validTo", cutoff))
+    .take(PURGE_BATCH_SIZE);
+  for (const override of overrides) {
+    await ctx.db.delete(override._id);
+  }
+
+  return {
+    purged: roles.length + overrides.length,
+    hasMore:
+      roles.length === PURGE_BATCH_SIZE ||
+      overrides.length === PURGE_BATCH_SIZE,
+  };
+}
+
+// ============================================================================
+// Retention Settings
+// ============================================================================
+
+/**
+ * Get how long revoked and expired grants are kept for point-in-time checks
+ */
+export const getHistoryRetention = query({
+  args: {},
+  returns: v.union(v.number(), v.null()),
+  handler: async (ctx) => {
+    return await getRetentionMs(ctx);
+  },
+});
+
+/**
+ * Set how long revoked and expired grants are kept (null = forever)
+ */
+export const setHistoryRetention = mutation({
+  args: {
+    retentionMs: v.union(v.number(), v.null()),
+    updatedBy: v.optional(v.string()),
+    enableAudit: v.optional(v.boolean()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    if (args.retentionMs !== null && args.retentionMs < 0) {
+      throw new ConvexError({
+        code: "INVALID_RETENTION",
+        message: "Retention must be zero or more milliseconds",
+      });
+    }
+
+    const before = await getRetentionMs(ctx);
+    const settings = await ctx.db.query("historySettings").first();
+    if (settings) {
+      await ctx.db.patch(settings._id, {
+        retentionMs: args.retentionMs,
+        updatedAt: Date.now(),
+      });
+    } else {
+      await ctx.db.insert("historySettings", {
+        retentionMs: args.retentionMs,
+        updatedAt: Date.now(),
+      });
+    }
+
+    if (args.enableAudit) {
+      await writeAuditEntry(ctx, {
+        action: "history_retention_updated",
+        userId: "config:history",
+        actorId: args.updatedBy,
+        details: {
+          before: { retentionMs: before },
+          after: { retentionMs: args.retentionMs },
+        },
+      });
+    }
+
+    return null;
+  },
+});
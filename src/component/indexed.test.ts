@@ -1,7 +1,8 @@
 import { convexTest } from "convex-test";
-import { describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import schema from "./schema.js";
 import { api } from "./_generated/api.js";
+import type { Id } from "./_generated/dataModel.js";
 
 const modules = import.meta.glob("./**/*.ts");
 
@@ -40,14 +41,71 @@ describe("O(1) Indexed Authorization", () => {
         permission: "documents:read",
       });
 
-      expect(canRead).toBe(true);
+      expect(canRead.allowed).toBe(true);
 
       const canDelete = await t.query(api.indexed.checkPermissionFast, {
         userId: "user_123",
         permission: "documents:delete",
       });
 
-      expect(canDelete).toBe(false);
+      expect(canDelete.allowed).toBe(false);
+    });
+
+    it("should check many permissions in one query", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.indexed.assignRoleWithCompute, {
+        userId: "user_123",
+        role: "editor",
+        rolePermissions: ["documents:read"],
+        scope: { type: "team", id: "t1" },
+      });
+
+      const results = await t.query(api.indexed.checkPermissionsFast, {
+        userId: "user_123",
+        checks: [
+          { permission: "documents:read", objectType: "team", objectId: "t1" },
+          { permission: "documents:read", objectType: "team", objectId: "t2" },
+          { permission: "documents:write", objectType: "team", objectId: "t1" },
+        ],
+      });
+
+      expect(results.map((r) => r.allowed)).toEqual([true, false, false]);
+    });
+
+    it("should explain which row matched", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.indexed.assignRoleWithCompute, {
+        userId: "user_123",
+        role: "editor",
+        rolePermissions: ["documents:*"],
+        scope: { type: "team", id: "t1" },
+      });
+
+      const result = await t.query(api.indexed.checkPermissionFast, {
+        userId: "user_123",
+        permission: "documents:update",
+        objectType: "team",
+        objectId: "t1",
+      });
+
+      expect(result.allowed).toBe(true);
+      expect(result.matchedRole).toBe("editor");
+      expect(result.reason).toBe("Granted by role: editor");
+      expect(result.match).toMatchObject({
+        permission: "documents:*",
+        scopeKey: "team:t1",
+        effect: "allow",
+        sources: ["editor"],
+      });
+
+      const missing = await t.query(api.indexed.checkPermissionFast, {
+        userId: "user_123",
+        permission: "documents:update",
+      });
+      expect(missing.allowed).toBe(false);
+      expect(missing.match).toBeUndefined();
     });
 
     it("should check role in O(1)", async () => {
@@ -74,6 +132,28 @@ describe("O(1) Indexed Authorization", () => {
       expect(hasViewer).toBe(false);
     });
 
+    it("should compare roles through the inherits graph", async () => {
+      const t = convexTest(schema, modules);
+      const roleParents = { admin: "editor", editor: "viewer", viewer: null };
+
+      await t.mutation(api.indexed.assignRoleWithCompute, {
+        userId: "user_123",
+        role: "editor",
+        rolePermissions: ["documents:*"],
+      });
+
+      const isAtLeast = (role: string) =>
+        t.query(api.indexed.isAtLeastFast, {
+          userId: "user_123",
+          role,
+          roleParents,
+        });
+
+      expect(await isAtLeast("viewer")).toBe(true);
+      expect(await isAtLeast("editor")).toBe(true);
+      expect(await isAtLeast("admin")).toBe(false);
+    });
+
     it("should revoke role and remove permissions", async () => {
       const t = convexTest(schema, modules);
 
@@ -116,7 +196,7 @@ describe("O(1) Indexed Authorization", () => {
         permission: "documents:read",
       });
 
-      expect(canReadGlobal).toBe(false);
+      expect(canReadGlobal.allowed).toBe(false);
 
       // Scoped check should pass
       const canReadScoped = await t.query(api.indexed.checkPermissionFast, {
@@ -126,7 +206,7 @@ describe("O(1) Indexed Authorization", () => {
         objectId: "team_456",
       });
 
-      expect(canReadScoped).toBe(true);
+      expect(canReadScoped.allowed).toBe(true);
     });
   });
 
@@ -145,7 +225,7 @@ describe("O(1) Indexed Authorization", () => {
         permission: "special:access",
       });
 
-      expect(hasPermission).toBe(true);
+      expect(hasPermission.allowed).toBe(true);
     });
 
     it("should deny permission overriding role", async () => {
@@ -171,7 +251,10 @@ describe("O(1) Indexed Authorization", () => {
       });
 
       // Deny should take precedence
-      expect(canDelete).toBe(false);
+      expect(canDelete.allowed).toBe(false);
+      expect(canDelete.reason).toBe("Restricted");
+      expect(canDelete.matchedOverride).toBeDefined();
+      expect(canDelete.match).toMatchObject({ directDeny: true, sources: ["admin"] });
     });
   });
 
@@ -231,5 +314,973 @@ describe("O(1) Indexed Authorization", () => {
 
       expect(hasRelation).toBe(false);
     });
+
+    describe("inherited relations", () => {
+      const traversalRules = {
+        "account:viewer": [{ through: "team", via: "owner", inherit: "member" }],
+        "deal:viewer": [{ through: "account", via: "parent", inherit: "viewer" }],
+      };
+      const aliceViewsDeal = {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "viewer",
+        objectType: "deal",
+        objectId: "1",
+      };
+
+      function tuple(subject: string, relation: string, object: string) {
+        const [subjectType, subjectId] = subject.split(":");
+        const [objectType, objectId] = object.split(":");
+        return { subjectType, subjectId, relation, objectType, objectId };
+      }
+
+      it("should fan new parent edges out to existing subjects", async () => {
+        const t = convexTest(schema, modules);
+
+        for (const edge of [
+          tuple("user:alice", "member", "team:x"),
+          tuple("team:x", "owner", "account:9"),
+          tuple("account:9", "parent", "deal:1"),
+        ]) {
+          await t.mutation(api.indexed.addRelationWithCompute, { ...edge, traversalRules });
+        }
+
+        expect(await t.query(api.indexed.hasRelationFast, aliceViewsDeal)).toBe(true);
+      });
+
+      it("should retract only paths no longer supported", async () => {
+        const t = convexTest(schema, modules);
+        const edges = [
+          tuple("user:alice", "member", "team:x"),
+          tuple("user:alice", "member", "team:y"),
+          tuple("team:x", "owner", "account:9"),
+          tuple("team:y", "owner", "account:9"),
+          tuple("account:9", "parent", "deal:1"),
+        ];
+        for (const edge of edges) {
+          await t.mutation(api.rebac.addRelation, edge);
+          await t.mutation(api.indexed.addRelationWithCompute, { ...edge, traversalRules });
+        }
+
+        const removeEdge = async (edge: (typeof edges)[number]) => {
+          await t.mutation(api.rebac.removeRelation, edge);
+          await t.mutation(api.indexed.removeRelationWithCompute, { ...edge, traversalRules });
+          const fast = await t.query(api.indexed.hasRelationFast, aliceViewsDeal);
+          const traversed = await t.query(api.rebac.checkRelationWithTraversal, {
+            ...aliceViewsDeal,
+            traversalRules,
+          });
+          expect(fast).toBe(traversed.allowed);
+          return fast;
+        };
+
+        expect(await removeEdge(edges[2])).toBe(true);
+        expect(await removeEdge(edges[3])).toBe(false);
+      });
+
+      it("should keep inherited rows across unrelated adds and removes", async () => {
+        const t = convexTest(schema, modules);
+        const aliceViewsProject = tuple("user:alice", "viewer", "project:p");
+
+        // project viewers inherit team membership through project ownership
+        await t.mutation(api.indexed.addRelationWithCompute, tuple("team:x", "owner", "project:p"));
+        await t.mutation(api.indexed.addRelationWithCompute, {
+          ...tuple("user:alice", "member", "team:x"),
+          inheritedRelations: [
+            { relation: "viewer", fromObjectType: "project", fromRelation: "owner" },
+          ],
+        });
+        expect(await t.query(api.indexed.hasRelationFast, aliceViewsProject)).toBe(true);
+
+        // Neither call repeats the inherited relations
+        const unrelated = tuple("user:alice", "member", "team:z");
+        await t.mutation(api.indexed.addRelationWithCompute, unrelated);
+        await t.mutation(api.indexed.removeRelationWithCompute, unrelated);
+        expect(await t.query(api.indexed.hasRelationFast, aliceViewsProject)).toBe(true);
+
+        // Config rules passed once are kept for calls that omit them
+        await t.mutation(api.indexed.addRelationWithCompute, {
+          ...tuple("team:x", "owner", "account:9"),
+          traversalRules,
+        });
+        await t.mutation(api.indexed.addRelationWithCompute, tuple("account:9", "parent", "deal:1"));
+        await t.mutation(api.indexed.addRelationWithCompute, unrelated);
+        await t.mutation(api.indexed.removeRelationWithCompute, unrelated);
+        expect(await t.query(api.indexed.hasRelationFast, aliceViewsDeal)).toBe(true);
+        expect(await t.query(api.indexed.hasRelationFast, aliceViewsProject)).toBe(true);
+      });
+
+      it("should grant userset relations to members added later", async () => {
+        const t = convexTest(schema, modules);
+        const membership = tuple("user:alice", "member", "team:x");
+
+        await t.mutation(api.indexed.addRelationWithCompute, {
+          ...tuple("team:x", "viewer", "deal:1"),
+          subjectRelation: "member",
+          traversalRules,
+        });
+        expect(await t.query(api.indexed.hasRelationFast, aliceViewsDeal)).toBe(false);
+
+        await t.mutation(api.indexed.addRelationWithCompute, { ...membership, traversalRules });
+        expect(await t.query(api.indexed.hasRelationFast, aliceViewsDeal)).toBe(true);
+
+        await t.mutation(api.indexed.removeRelationWithCompute, { ...membership, traversalRules });
+        expect(await t.query(api.indexed.hasRelationFast, aliceViewsDeal)).toBe(false);
+      });
+
+      it("should keep exclusions consistent with traversal", async () => {
+        const t = convexTest(schema, modules);
+        const rules = {
+          ...traversalRules,
+          "deal:viewer": {
+            union: traversalRules["deal:viewer"],
+            exclusion: ["blocked"],
+          },
+        };
+        const blocked = tuple("user:alice", "blocked", "deal:1");
+
+        const agrees = async () => {
+          const fast = await t.query(api.indexed.hasRelationFast, aliceViewsDeal);
+          const traversed = await t.query(api.rebac.checkRelationWithTraversal, {
+            ...aliceViewsDeal,
+            traversalRules: rules,
+          });
+          expect(fast).toBe(traversed.allowed);
+          return fast;
+        };
+        const apply = async (
+          action: "add" | "remove",
+          edge: ReturnType<typeof tuple>
+        ) => {
+          if (action === "add") {
+            await t.mutation(api.rebac.addRelation, edge);
+            await t.mutation(api.indexed.addRelationWithCompute, { ...edge, traversalRules: rules });
+          } else {
+            await t.mutation(api.rebac.removeRelation, edge);
+            await t.mutation(api.indexed.removeRelationWithCompute, { ...edge, traversalRules: rules });
+          }
+          return await agrees();
+        };
+
+        await apply("add", tuple("user:alice", "member", "team:x"));
+        await apply("add", tuple("team:x", "owner", "account:9"));
+        expect(await apply("add", tuple("account:9", "parent", "deal:1"))).toBe(true);
+        expect(await apply("add", blocked)).toBe(false);
+
+        // Direct tuples are excluded too
+        expect(await apply("add", tuple("user:alice", "viewer", "deal:1"))).toBe(false);
+        expect(await apply("remove", blocked)).toBe(true);
+      });
+
+      it("should evaluate conditional edges at check time", async () => {
+        const t = convexTest(schema, modules);
+        const rules = {
+          ...traversalRules,
+          "deal:viewer": {
+            union: traversalRules["deal:viewer"],
+            exclusion: ["blocked"],
+          },
+        };
+        const officeOnly = { ipInCidr: [{ ref: "environment.ip" }, "10.0.0.0/8"] };
+        const expiresAt = Date.now() + 60_000;
+        const check = async (environment: { ip?: string; timestamp?: number }) => {
+          const fast = await t.query(api.indexed.hasRelationFast, {
+            ...aliceViewsDeal,
+            environment,
+          });
+          const traversed = await t.query(api.rebac.checkRelationWithTraversal, {
+            ...aliceViewsDeal,
+            traversalRules: rules,
+            environment,
+          });
+          expect(fast).toBe(traversed.allowed);
+          return fast;
+        };
+
+        for (const edge of [
+          tuple("user:alice", "member", "team:x"),
+          { ...tuple("team:x", "owner", "account:9"), condition: officeOnly },
+          tuple("account:9", "parent", "deal:1"),
+          { ...tuple("user:alice", "blocked", "deal:1"), expiresAt },
+        ]) {
+          await t.mutation(api.rebac.addRelation, edge);
+          await t.mutation(api.indexed.addRelationWithCompute, { ...edge, traversalRules: rules });
+        }
+
+        expect(await check({ ip: "10.1.2.3" })).toBe(false);
+        expect(await check({ ip: "10.1.2.3", timestamp: expiresAt + 1 })).toBe(true);
+        expect(await check({ ip: "203.0.113.7", timestamp: expiresAt + 1 })).toBe(false);
+      });
+
+      it("should store exclusions of many conditional paths compactly", async () => {
+        const t = convexTest(schema, modules);
+        const rules = {
+          "deal:viewer": { union: [], exclusion: ["blocked"] },
+          "deal:blocked": [{ through: "team", via: "blocks", inherit: "member" }],
+        };
+        const add = async (edge: ReturnType<typeof tuple> & { condition?: unknown }) => {
+          await t.mutation(api.rebac.addRelation, edge);
+          await t.mutation(api.indexed.addRelationWithCompute, { ...edge, traversalRules: rules });
+        };
+        const inRange = (cidr: string) => ({ ipInCidr: [{ ref: "environment.ip" }, cidr] });
+
+        await add(tuple("user:alice", "viewer", "deal:1"));
+        // Four paths, each needing two conditional tuples
+        for (let i = 1; i <= 4; i++) {
+          await add({ ...tuple("user:alice", "member", `team:${i}`), condition: inRange("10.0.0.0/8") });
+          await add({ ...tuple(`team:${i}`, "blocks", "deal:1"), condition: inRange(`10.${i}.0.0/16`) });
+        }
+
+        for (const ip of ["10.3.0.1", "10.9.0.1", "203.0.113.7"]) {
+          const fast = await t.query(api.indexed.hasRelationFast, {
+            ...aliceViewsDeal,
+            environment: { ip },
+          });
+          const traversed = await t.query(api.rebac.checkRelationWithTraversal, {
+            ...aliceViewsDeal,
+            traversalRules: rules,
+            environment: { ip },
+          });
+          expect(fast).toBe(traversed.allowed);
+          expect(fast).toBe(ip !== "10.3.0.1");
+        }
+
+        // Negated as a whole instead of multiplied out into 2^4 conjunctions
+        const row = await t.run((ctx) =>
+          ctx.db
+            .query("effectiveRelationships")
+            .withIndex("by_subject_relation_object", (q) =>
+              q.eq("subjectKey", "user:alice").eq("relation", "viewer").eq("objectKey", "deal:1")
+            )
+            .unique()
+        );
+        expect(row?.effectiveCondition).toMatchObject({
+          or: [{ and: [{ not: { or: expect.any(Array) } }] }],
+        });
+        expect(row?.effectiveCondition.or[0].and[0].not.or).toHaveLength(4);
+      });
+
+      it("should follow the depth limit of traversal checks", async () => {
+        const t = convexTest(schema, modules);
+        const edges = [
+          tuple("user:alice", "member", "team:x"),
+          tuple("team:x", "owner", "account:9"),
+          tuple("account:9", "parent", "deal:1"),
+        ];
+        for (const edge of edges) {
+          await t.mutation(api.rebac.addRelation, edge);
+          await t.mutation(api.indexed.addRelationWithCompute, {
+            ...edge,
+            traversalRules,
+            maxDepth: 2,
+          });
+        }
+
+        const traversed = await t.query(api.rebac.checkRelationWithTraversal, {
+          ...aliceViewsDeal,
+          traversalRules,
+          maxDepth: 2,
+        });
+        expect(traversed.allowed).toBe(false);
+        expect(await t.query(api.indexed.hasRelationFast, aliceViewsDeal)).toBe(false);
+      });
+
+      it("should fall back to wildcard rows unless the subject is excluded", async () => {
+        const t = convexTest(schema, modules);
+        const rules = {
+          "document:viewer": { union: [{ inherit: "reader" }], exclusion: ["blocked"] },
+        };
+        const check = async (subject: string) => {
+          const edge = tuple(subject, "viewer", "document:42");
+          const fast = await t.query(api.indexed.hasRelationFast, edge);
+          const traversed = await t.query(api.rebac.checkRelationWithTraversal, {
+            ...edge,
+            traversalRules: rules,
+          });
+          expect(fast).toBe(traversed.allowed);
+          return fast;
+        };
+
+        for (const edge of [
+          tuple("user:*", "reader", "document:42"),
+          tuple("user:bob", "blocked", "document:42"),
+        ]) {
+          await t.mutation(api.rebac.addRelation, edge);
+          await t.mutation(api.indexed.addRelationWithCompute, { ...edge, traversalRules: rules });
+        }
+
+        expect(await check("user:alice")).toBe(true);
+        expect(await check("user:bob")).toBe(false);
+        expect(await check("team:x")).toBe(false);
+      });
+
+      describe("large fan-outs", () => {
+        beforeEach(() => {
+          vi.useFakeTimers();
+        });
+
+        afterEach(() => {
+          vi.useRealTimers();
+        });
+
+        it("should spread the fan-out of a widely held object over batches", async () => {
+          const t = convexTest(schema, modules);
+          const members = Array.from({ length: 120 }, (_, i) => `user:u${i}`);
+          for (const member of members) {
+            await t.mutation(
+              api.indexed.addRelationWithCompute,
+              tuple(member, "member", "team:x")
+            );
+          }
+          const viewers = async () => {
+            let count = 0;
+            for (const member of members) {
+              const viewsAccount = tuple(member, "viewer", "account:9");
+              if (await t.query(api.indexed.hasRelationFast, viewsAccount)) count++;
+            }
+            return count;
+          };
+          const ownership = tuple("team:x", "owner", "account:9");
+
+          await t.mutation(api.indexed.addRelationWithCompute, { ...ownership, traversalRules });
+          const firstBatch = await viewers();
+          expect(firstBatch).toBeGreaterThan(0);
+          expect(firstBatch).toBeLessThan(members.length);
+
+          await t.finishAllScheduledFunctions(vi.runAllTimers);
+          expect(await viewers()).toBe(members.length);
+
+          await t.mutation(api.indexed.removeRelationWithCompute, ownership);
+          expect(await viewers()).toBeGreaterThan(0);
+
+          await t.finishAllScheduledFunctions(vi.runAllTimers);
+          expect(await viewers()).toBe(0);
+        });
+      });
+    });
+
+    it("should grant permissions through mapped relations", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.indexed.addRelationWithCompute, {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "owner",
+        objectType: "document",
+        objectId: "42",
+      });
+
+      const [owned, other] = await t.query(api.indexed.checkPermissionsFast, {
+        userId: "alice",
+        checks: [
+          { permission: "documents:delete", objectType: "document", objectId: "42" },
+          { permission: "documents:delete", objectType: "document", objectId: "43" },
+        ],
+        permissionRelations: { "documents:*": ["owner"] },
+      });
+
+      expect(owned.allowed).toBe(true);
+      expect(other.allowed).toBe(false);
+    });
+  });
+
+  describe("indexed custom roles", () => {
+    it("should compute custom role grants from role definitions", async () => {
+      const t = convexTest(schema, modules);
+      const scope = { type: "org", id: "o1" };
+      const staticRoles = { "org:member": ["contacts:read"] };
+
+      await t.mutation(api.mutations.createRoleDefinition, {
+        name: "sales_manager",
+        scope,
+        permissions: ["deals:close"],
+        parentRole: "org:member",
+        isSystem: false,
+        staticRoleNames: ["org:member"],
+      });
+      await t.mutation(api.indexed.assignRoleWithCompute, {
+        userId: "user_123",
+        role: "sales_manager",
+        rolePermissions: [],
+        scope,
+        staticRoles,
+      });
+
+      const results = await t.query(api.indexed.checkPermissionsFast, {
+        userId: "user_123",
+        checks: [
+          { permission: "deals:close", objectType: "org", objectId: "o1" },
+          { permission: "contacts:read", objectType: "org", objectId: "o1" },
+        ],
+      });
+      expect(results.map((r) => r.allowed)).toEqual([true, true]);
+
+      await t.mutation(api.indexed.revokeRoleWithCompute, {
+        userId: "user_123",
+        role: "sales_manager",
+        rolePermissions: [],
+        scope,
+        staticRoles,
+      });
+
+      const afterRevoke = await t.query(api.indexed.getUserPermissionsFast, {
+        userId: "user_123",
+      });
+      expect(afterRevoke).toEqual([]);
+    });
+  });
+
+  describe("indexed policies", () => {
+    it("should apply stored and config policies to indexed checks", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.indexed.assignRoleWithCompute, {
+        userId: "alice",
+        role: "viewer",
+        rolePermissions: ["documents:read"],
+      });
+      const policies = {
+        "documents:*": { condition: { eq: [{ ref: "subject.userId" }, "bob"] } },
+      };
+      const check = () =>
+        t.query(api.indexed.checkPermissionFast, {
+          userId: "alice",
+          permission: "documents:read",
+          policies,
+        });
+
+      const viaConfig = await check();
+      expect(viaConfig.allowed).toBe(false);
+      expect(viaConfig.policies?.map((p) => p.key)).toEqual(["documents:*"]);
+
+      // A stored policy replaces the config one without a deploy
+      await t.mutation(api.policies.setPolicy, {
+        permission: "documents:*",
+        condition: { in: ["viewer", { ref: "subject.roles" }] },
+      });
+      expect((await check()).allowed).toBe(true);
+
+      await t.mutation(api.policies.setPolicy, {
+        permission: "*",
+        condition: { eq: [{ ref: "subject.userId" }, "bob"] },
+        message: "Only bob",
+      });
+      expect(await check()).toMatchObject({ allowed: false, reason: "Only bob" });
+    });
+
+    it("should narrow indexed grants with tenant policies on a scope", async () => {
+      const t = convexTest(schema, modules);
+      const acme = { type: "org", id: "acme" };
+
+      await t.mutation(api.indexed.assignRoleWithCompute, {
+        userId: "alice",
+        role: "sales",
+        rolePermissions: ["deals:update"],
+      });
+      await t.mutation(api.scopes.setScopeParent, {
+        scope: { type: "deal", id: "big" },
+        parent: acme,
+      });
+      await t.mutation(api.policies.setPolicy, {
+        permission: "deals:update",
+        scope: acme,
+        condition: {
+          or: [
+            { lte: [{ ref: "resource.attributes.amount" }, 100_000] },
+            { eq: [{ ref: "subject.attributes.approver" }, true] },
+          ],
+        },
+        message: "Deals over $100k require an approver",
+      });
+
+      const resource = { type: "deal", id: "big", attributes: { amount: 250_000 } };
+      const denied = await t.query(api.indexed.checkPermissionFast, {
+        userId: "alice",
+        permission: "deals:update",
+        objectType: "deal",
+        objectId: "big",
+        resource,
+      });
+      expect(denied).toMatchObject({
+        allowed: false,
+        reason: "Deals over $100k require an approver",
+        matchedRole: "sales",
+        policies: [
+          { key: "deals:update", effect: "deny", passed: false, scope: acme },
+        ],
+      });
+
+      // Other tenants are unaffected
+      const [elsewhere] = await t.query(api.indexed.checkPermissionsFast, {
+        userId: "alice",
+        checks: [
+          { permission: "deals:update", objectType: "org", objectId: "globex", resource },
+        ],
+      });
+      expect(elsewhere.allowed).toBe(true);
+
+      await t.mutation(api.mutations.setAttribute, {
+        userId: "alice",
+        key: "approver",
+        value: true,
+      });
+      const approved = await t.query(api.indexed.checkPermissionFast, {
+        userId: "alice",
+        permission: "deals:update",
+        objectType: "deal",
+        objectId: "big",
+        resource,
+      });
+      expect(approved.allowed).toBe(true);
+    });
+  });
+
+  describe("indexed audit trail", () => {
+    it("should log compute mutations with actor and snapshots", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.indexed.assignRoleWithCompute, {
+        userId: "user_123",
+        role: "editor",
+        rolePermissions: ["documents:update"],
+        assignedBy: "admin_user",
+        enableAudit: true,
+      });
+      await t.mutation(api.indexed.denyPermissionDirect, {
+        userId: "user_123",
+        permission: "documents:update",
+        deniedBy: "admin_user",
+        enableAudit: true,
+      });
+      await t.mutation(api.indexed.revokeRoleWithCompute, {
+        userId: "user_123",
+        role: "editor",
+        rolePermissions: ["documents:update"],
+        revokedBy: "admin_user",
+        enableAudit: true,
+      });
+
+      const logs = await t.query(api.queries.getAuditLog, {
+        userId: "user_123",
+      });
+
+      expect(logs.map((l) => l.action)).toEqual([
+        "role_revoked",
+        "permission_denied",
+        "role_assigned",
+      ]);
+      expect(logs.every((l) => l.actorId === "admin_user")).toBe(true);
+      expect(logs[1].details.before).toMatchObject({
+        effect: "allow",
+        sources: ["editor"],
+      });
+      expect(logs[1].details.after).toMatchObject({ effect: "deny" });
+      expect(logs[2].details.after).toMatchObject({
+        permissions: ["documents:update"],
+      });
+    });
+  });
+
+  describe("indexed scope hierarchies", () => {
+    it("should apply ancestor grants to nested scopes", async () => {
+      const t = convexTest(schema, modules);
+      const org = { type: "org", id: "acme" };
+
+      await t.mutation(api.scopes.setScopeParent, {
+        scope: { type: "document", id: "42" },
+        parent: { type: "project", id: "p1" },
+      });
+      await t.mutation(api.scopes.setScopeParent, {
+        scope: { type: "project", id: "p1" },
+        parent: org,
+      });
+      await t.mutation(api.indexed.assignRoleWithCompute, {
+        userId: "user_123",
+        role: "editor",
+        rolePermissions: ["documents:update"],
+        scope: org,
+      });
+
+      const result = await t.query(api.indexed.checkPermissionFast, {
+        userId: "user_123",
+        permission: "documents:update",
+        objectType: "document",
+        objectId: "42",
+      });
+      expect(result.allowed).toBe(true);
+      expect(result.matchedScope).toEqual(org);
+
+      const hasRole = await t.query(api.indexed.hasRoleFast, {
+        userId: "user_123",
+        role: "editor",
+        objectType: "document",
+        objectId: "42",
+      });
+      expect(hasRole).toBe(true);
+
+      const unrelated = await t.query(api.indexed.checkPermissionFast, {
+        userId: "user_123",
+        permission: "documents:update",
+        objectType: "document",
+        objectId: "99",
+      });
+      expect(unrelated.allowed).toBe(false);
+    });
+  });
+
+  describe("indexed scheduled expiry", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should expire a role without dropping grants from other roles", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.indexed.assignRoleWithCompute, {
+        userId: "user_123",
+        role: "viewer",
+        rolePermissions: ["documents:read"],
+      });
+      await t.mutation(api.indexed.assignRoleWithCompute, {
+        userId: "user_123",
+        role: "contractor",
+        rolePermissions: ["documents:read", "documents:update"],
+        expiresAt: Date.now() + 60_000,
+      });
+
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      const permissions = await t.query(api.indexed.getUserPermissionsFast, {
+        userId: "user_123",
+      });
+      expect(permissions).toEqual([
+        expect.objectContaining({
+          permission: "documents:read",
+          sources: ["viewer"],
+        }),
+      ]);
+
+      const logs = await t.query(api.queries.getAuditLog, {
+        userId: "user_123",
+        action: "role_expired",
+      });
+      expect(logs).toHaveLength(1);
+      expect(logs[0].details.role).toBe("contractor");
+    });
+
+    it("should restore role grants when a direct deny expires", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.indexed.assignRoleWithCompute, {
+        userId: "user_123",
+        role: "editor",
+        rolePermissions: ["documents:update"],
+      });
+      await t.mutation(api.indexed.denyPermissionDirect, {
+        userId: "user_123",
+        permission: "documents:update",
+        expiresAt: Date.now() + 60_000,
+      });
+
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      const result = await t.query(api.indexed.checkPermissionFast, {
+        userId: "user_123",
+        permission: "documents:update",
+      });
+      expect(result.allowed).toBe(true);
+      expect(result.matchedRole).toBe("editor");
+    });
+
+    it("should sweep expired indexed rows", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.run(async (ctx) => {
+        await ctx.db.insert("effectiveRoles", {
+          userId: "user_123",
+          role: "editor",
+          scopeKey: "global",
+          expiresAt: Date.now() - 1_000,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        });
+        await ctx.db.insert("effectivePermissions", {
+          userId: "user_123",
+          permission: "documents:update",
+          scopeKey: "global",
+          effect: "allow",
+          sources: ["editor"],
+          expiresAt: Date.now() - 1_000,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        });
+      });
+
+      const result = await t.mutation(api.indexed.cleanupExpired, {});
+      expect(result).toEqual({ expiredPermissions: 0, expiredRoles: 1 });
+
+      const permissions = await t.query(api.indexed.getUserPermissionsFast, {
+        userId: "user_123",
+      });
+      expect(permissions).toEqual([]);
+    });
+  });
+
+  describe("recompute on role changes", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should recompute assignments when config grants change", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.indexed.assignRoleWithCompute, {
+        userId: "user_123",
+        role: "editor",
+        rolePermissions: ["documents:read"],
+        scope: { type: "team", id: "t1" },
+      });
+      await t.mutation(api.indexed.syncRolePermissions, {
+        rolePermissions: { editor: ["documents:read"] },
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      const unchanged = await t.mutation(api.indexed.syncRolePermissions, {
+        rolePermissions: { editor: ["documents:read"] },
+      });
+      expect(unchanged.changed).toBe(false);
+
+      const sync = await t.mutation(api.indexed.syncRolePermissions, {
+        rolePermissions: { editor: ["documents:update"], viewer: ["documents:read"] },
+      });
+      expect(sync.changed).toBe(true);
+      expect(sync.roles.sort()).toEqual(["editor", "viewer"]);
+
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      const [canRead, canUpdate] = await t.query(api.indexed.checkPermissionsFast, {
+        userId: "user_123",
+        checks: [
+          { permission: "documents:read", objectType: "team", objectId: "t1" },
+          { permission: "documents:update", objectType: "team", objectId: "t1" },
+        ],
+      });
+      expect(canRead.allowed).toBe(false);
+      expect(canUpdate.allowed).toBe(true);
+
+      const status = await t.query(api.indexed.getRecomputeStatus, {
+        jobId: sync.jobId,
+      });
+      expect(status?.status).toBe("completed");
+      expect(status?.processed).toBe(1);
+    });
+
+    it("should keep direct overrides when a role stops granting", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.indexed.syncRolePermissions, {
+        rolePermissions: { admin: ["documents:delete"] },
+      });
+      await t.mutation(api.indexed.assignRoleWithCompute, {
+        userId: "user_123",
+        role: "admin",
+        rolePermissions: ["documents:delete"],
+      });
+      await t.mutation(api.indexed.denyPermissionDirect, {
+        userId: "user_123",
+        permission: "documents:delete",
+      });
+
+      await t.mutation(api.indexed.syncRolePermissions, {
+        rolePermissions: { admin: [] },
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      const result = await t.query(api.indexed.checkPermissionFast, {
+        userId: "user_123",
+        permission: "documents:delete",
+      });
+      expect(result.allowed).toBe(false);
+      expect(result.match).toMatchObject({ directDeny: true, sources: [] });
+    });
+
+    it("should recompute custom role assignments on definition updates", async () => {
+      const t = convexTest(schema, modules);
+      const scope = { type: "org", id: "o1" };
+
+      const roleId = await t.mutation(api.mutations.createRoleDefinition, {
+        name: "sales_manager",
+        scope,
+        permissions: ["deals:read"],
+        isSystem: false,
+      });
+      await t.mutation(api.indexed.assignRoleWithCompute, {
+        userId: "user_123",
+        role: "sales_manager",
+        rolePermissions: ["deals:read"],
+        scope,
+      });
+
+      await t.mutation(api.mutations.updateRoleDefinition, {
+        roleId: roleId as Id<"roleDefinitions">,
+        permissions: ["deals:read", "deals:close"],
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      const result = await t.query(api.indexed.checkPermissionFast, {
+        userId: "user_123",
+        permission: "deals:close",
+        objectType: "org",
+        objectId: "o1",
+      });
+      expect(result.allowed).toBe(true);
+      expect(result.matchedRole).toBe("sales_manager");
+
+      const status = await t.query(api.indexed.getRecomputeStatus, {});
+      expect(status?.trigger).toBe("role_definition");
+      expect(status?.status).toBe("completed");
+    });
+
+    it("should stop granting once a custom role definition is deleted", async () => {
+      const t = convexTest(schema, modules);
+      const scope = { type: "org", id: "o1" };
+
+      const roleId = await t.mutation(api.mutations.createRoleDefinition, {
+        name: "sales_manager",
+        scope,
+        permissions: ["deals:close"],
+        isSystem: false,
+      });
+      await t.mutation(api.indexed.assignRoleWithCompute, {
+        userId: "user_123",
+        role: "sales_manager",
+        rolePermissions: [],
+        scope,
+        staticRoles: {},
+      });
+      const before = await t.query(api.indexed.checkPermissionFast, {
+        userId: "user_123",
+        permission: "deals:close",
+        objectType: "org",
+        objectId: "o1",
+      });
+      expect(before.allowed).toBe(true);
+
+      await t.mutation(api.mutations.deleteRoleDefinition, {
+        roleId: roleId as Id<"roleDefinitions">,
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      const result = await t.query(api.indexed.checkPermissionFast, {
+        userId: "user_123",
+        permission: "deals:close",
+        objectType: "org",
+        objectId: "o1",
+      });
+      expect(result.allowed).toBe(false);
+      expect(
+        await t.query(api.indexed.getUserPermissionsFast, { userId: "user_123" })
+      ).toEqual([]);
+    });
+
+    it("should keep grants inherited from a static parent role", async () => {
+      const t = convexTest(schema, modules);
+      const scope = { type: "org", id: "o1" };
+      const staticRoles = { viewer: ["docs:read"] };
+
+      const roleId = await t.mutation(api.mutations.createRoleDefinition, {
+        name: "sales_manager",
+        scope,
+        permissions: ["deals:close"],
+        parentRole: "viewer",
+        isSystem: false,
+        staticRoleNames: ["viewer"],
+      });
+      await t.mutation(api.indexed.assignRoleWithCompute, {
+        userId: "user_123",
+        role: "sales_manager",
+        rolePermissions: [],
+        scope,
+        staticRoles,
+      });
+
+      // Nothing synced the config, so the grants must come with the update
+      await expect(
+        t.mutation(api.mutations.updateRoleDefinition, {
+          roleId: roleId as Id<"roleDefinitions">,
+          permissions: ["deals:close", "deals:update"],
+        })
+      ).rejects.toThrow(/MISSING_STATIC_ROLES/);
+
+      await t.mutation(api.mutations.updateRoleDefinition, {
+        roleId: roleId as Id<"roleDefinitions">,
+        permissions: ["deals:close", "deals:update"],
+        staticRoles,
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      for (const permission of ["docs:read", "deals:update"]) {
+        const result = await t.query(api.indexed.checkPermissionFast, {
+          userId: "user_123",
+          permission,
+          objectType: "org",
+          objectId: "o1",
+        });
+        expect(result.allowed).toBe(true);
+      }
+    });
+
+    it("should recompute child roles of the same name in every scope", async () => {
+      const t = convexTest(schema, modules);
+      const o1 = { type: "org", id: "o1" };
+      const o2 = { type: "org", id: "o2" };
+
+      const baseId = await t.mutation(api.mutations.createRoleDefinition, {
+        name: "base",
+        permissions: ["deals:read"],
+        isSystem: false,
+      });
+      for (const scope of [o1, o2]) {
+        await t.mutation(api.mutations.createRoleDefinition, {
+          name: "rep",
+          scope,
+          permissions: [],
+          parentRole: "base",
+          isSystem: false,
+        });
+        await t.mutation(api.indexed.assignRoleWithCompute, {
+          userId: `user_${scope.id}`,
+          role: "rep",
+          rolePermissions: [],
+          scope,
+          staticRoles: {},
+        });
+      }
+
+      await t.mutation(api.mutations.updateRoleDefinition, {
+        roleId: baseId as Id<"roleDefinitions">,
+        permissions: ["deals:read", "deals:update"],
+        staticRoles: {},
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      for (const scope of [o1, o2]) {
+        const result = await t.query(api.indexed.checkPermissionFast, {
+          userId: `user_${scope.id}`,
+          permission: "deals:update",
+          objectType: scope.type,
+          objectId: scope.id,
+        });
+        expect(result.allowed).toBe(true);
+      }
+    });
   });
 });
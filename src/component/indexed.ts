@@ -12,9 +12,55 @@
  * This is the same approach used by Google Zanzibar and OpenFGA.
  */
 
-import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-import { parsePermission } from "./helpers";
+import { v, ConvexError, type Infer } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  internalMutation,
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import {
+  relationSnapshot,
+  subjectAuditKey,
+  writeAuditEntry,
+} from "./audit";
+import {
+  scheduleEffectivePermissionExpiry,
+  scheduleEffectiveRoleExpiry,
+  sweepExpiredIndexed,
+} from "./expiry";
+import { evaluateCondition, type Condition, type ConditionContext } from "./conditions";
+import { matchesPermissionPattern, parsePermission } from "./helpers";
+import {
+  applyPolicy,
+  environmentContextValidator,
+  policyCombiningValidator,
+  policyDecisionValidator,
+  policyInputValidator,
+  resourceContextValidator,
+  subjectContextValidator,
+} from "./policies";
+import {
+  holdsRoleAtLeast,
+  resolveRoleDefinition,
+  roleParentsValidator,
+} from "./queries";
+import {
+  DEFAULT_MAX_DEPTH,
+  hasSetOperators,
+  hasSameTerms,
+  relationRewrite,
+  tupleCondition,
+  tupleConditionContext,
+  validateTupleTerms,
+  WILDCARD_SUBJECT_ID,
+  type TraversalRule,
+  type TraversalRules,
+} from "./rebac";
+import { loadScopeAncestors } from "./scopes";
 
 // ============================================================================
 // O(1) Permission Check - The Fast Path
@@ -22,11 +68,26 @@ import { parsePermission } from "./helpers";
 
 const GLOBAL_SCOPE_KEY = "global";
 
-function buildScopeKeys(objectType?: string, objectId?: string): string[] {
-  if (objectType && objectId) {
-    return [`${objectType}:${objectId}`, GLOBAL_SCOPE_KEY];
-  }
-  return [GLOBAL_SCOPE_KEY];
+/**
+ * Scope keys to probe for a check: the object itself, then each ancestor
+ * scope (nearest first), then global
+ */
+async function resolveScopeKeys(
+  ctx: QueryCtx,
+  objectType?: string,
+  objectId?: string
+): Promise<string[]> {
+  if (!objectType || !objectId) return [GLOBAL_SCOPE_KEY];
+
+  const ancestors = await loadScopeAncestors(ctx, {
+    type: objectType,
+    id: objectId,
+  });
+  return [
+    `${objectType}:${objectId}`,
+    ...ancestors.map((a) => `${a.type}:${a.id}`),
+    GLOBAL_SCOPE_KEY,
+  ];
 }
 
 function buildPermissionCandidates(permission: string): string[] {
@@ -49,9 +110,322 @@ function buildPermissionCandidates(permission: string): string[] {
   }
 }
 
+const matchValidator = v.object({
+  // The stored permission that matched (exact or wildcard candidate)
+  permission: v.string(),
+  scopeKey: v.string(),
+  effect: v.string(),
+  sources: v.array(v.string()),
+  directGrant: v.optional(v.boolean()),
+  directDeny: v.optional(v.boolean()),
+  expiresAt: v.optional(v.number()),
+});
+
+const fastCheckResultValidator = v.object({
+  allowed: v.boolean(),
+  reason: v.string(),
+  matchedRole: v.optional(v.string()),
+  matchedOverride: v.optional(v.string()),
+  matchedRelation: v.optional(v.string()),
+  // Scope the matched row was granted on (the object or an ancestor)
+  matchedScope: v.optional(v.object({ type: v.string(), id: v.string() })),
+  match: v.optional(matchValidator),
+  // Every matching policy, in the order they were combined
+  policies: v.optional(v.array(policyDecisionValidator)),
+  // A policy read resource attributes the check was not given
+  missingResourceAttributes: v.optional(v.boolean()),
+});
+
+type FastCheckResult = Infer<typeof fastCheckResultValidator>;
+
+/**
+ * Look up a single permission in the effectivePermissions table
+ * Returns null when no row matches, so callers can fall back to relations.
+ */
+async function lookupPermission(
+  ctx: QueryCtx,
+  userId: string,
+  permission: string,
+  objectType?: string,
+  objectId?: string
+): Promise<FastCheckResult | null> {
+  const scopeKeys = await resolveScopeKeys(ctx, objectType, objectId);
+  const permissionCandidates = buildPermissionCandidates(permission);
+
+  let allowed: FastCheckResult | null = null;
+  for (const scopeKey of scopeKeys) {
+    for (const candidate of permissionCandidates) {
+      const cached = await ctx.db
+        .query("effectivePermissions")
+        .withIndex("by_user_permission_scope", (q) =>
+          q
+            .eq("userId", userId)
+            .eq("permission", candidate)
+            .eq("scopeKey", scopeKey)
+        )
+        .unique();
+
+      if (!cached) {
+        continue;
+      }
+
+      if (cached.expiresAt && cached.expiresAt < Date.now()) {
+        continue;
+      }
+
+      // Deny always wins, keep scanning for one after the first allow
+      if (cached.effect === "deny") {
+        return describeRow(cached, false);
+      }
+
+      allowed ??= describeRow(cached, true);
+    }
+  }
+
+  return allowed;
+}
+
+/**
+ * Turn a matched effectivePermissions row into a check result
+ */
+function describeRow(row: Doc<"effectivePermissions">, allowed: boolean): FastCheckResult {
+  const direct = allowed ? row.directGrant : row.directDeny;
+  const match = {
+    permission: row.permission,
+    scopeKey: row.scopeKey,
+    effect: row.effect,
+    sources: row.sources,
+    directGrant: row.directGrant,
+    directDeny: row.directDeny,
+    expiresAt: row.expiresAt,
+  };
+
+  if (direct) {
+    return {
+      allowed,
+      reason:
+        row.reason ??
+        (allowed ? "Explicitly allowed by override" : "Explicitly denied by override"),
+      matchedOverride: row._id,
+      matchedScope: row.scope,
+      match,
+    };
+  }
+
+  const matchedRole = row.sources[0];
+  return {
+    allowed,
+    reason: matchedRole
+      ? `${allowed ? "Granted" : "Denied"} by role: ${matchedRole}`
+      : `${allowed ? "Allowed" : "Denied"} by indexed permission: ${row.permission}`,
+    matchedRole,
+    matchedScope: row.scope,
+    match,
+  };
+}
+
+/**
+ * Look up a pre-computed relation: the subject's own row, or the wildcard
+ * row for its type when it has none or its condition fails. Rows flagged
+ * `excluded` deny, so an exclusion on one user also overrides a wildcard grant.
+ */
+async function holdsIndexedRelation(
+  ctx: QueryCtx,
+  subject: { type: string; id: string; relation?: string },
+  relation: string,
+  objectKey: string,
+  context: ConditionContext
+): Promise<boolean> {
+  const subjectKeys = subject.relation
+    ? [`${subject.type}:${subject.id}#${subject.relation}`]
+    : [...new Set([`${subject.type}:${subject.id}`, `${subject.type}:${WILDCARD_SUBJECT_ID}`])];
+
+  for (const subjectKey of subjectKeys) {
+    const cached = await ctx.db
+      .query("effectiveRelationships")
+      .withIndex("by_subject_relation_object", (q) =>
+        q
+          .eq("subjectKey", subjectKey)
+          .eq("relation", relation)
+          .eq("objectKey", objectKey)
+      )
+      .unique();
+    if (!cached) continue;
+    if (cached.excluded) return false;
+
+    // Userset rows are stored but never derived, so only their own terms apply
+    const condition =
+      cached.subjectRelation !== undefined
+        ? tupleCondition(cached)
+        : (cached.effectiveCondition as Condition | undefined);
+    if (condition === undefined || evaluateCondition(condition, context)) return true;
+  }
+  return false;
+}
+
+/**
+ * Check whether a pre-computed relation on the scoped object grants the permission
+ */
+async function lookupRelationGrant(
+  ctx: QueryCtx,
+  userId: string,
+  permission: string,
+  permissionRelations: Record<string, string[]>,
+  objectType?: string,
+  objectId?: string,
+  environment?: Infer<typeof environmentContextValidator>
+): Promise<string | null> {
+  if (!objectType || !objectId) return null;
+
+  const subject = { type: "user", id: userId };
+  const objectKey = `${objectType}:${objectId}`;
+  const context = tupleConditionContext(environment);
+  for (const [pattern, relations] of Object.entries(permissionRelations)) {
+    if (!matchesPermissionPattern(permission, pattern)) continue;
+
+    for (const relation of relations) {
+      if (await holdsIndexedRelation(ctx, subject, relation, objectKey, context)) {
+        return relation;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check a permission against effectivePermissions, then relations
+ */
+async function checkIndexed(
+  ctx: QueryCtx,
+  userId: string,
+  permission: string,
+  objectType?: string,
+  objectId?: string,
+  permissionRelations?: Record<string, string[]>,
+  environment?: Infer<typeof environmentContextValidator>
+): Promise<FastCheckResult> {
+  const result = await lookupPermission(
+    ctx,
+    userId,
+    permission,
+    objectType,
+    objectId
+  );
+  if (result) return result;
+
+  if (permissionRelations) {
+    const relation = await lookupRelationGrant(
+      ctx,
+      userId,
+      permission,
+      permissionRelations,
+      objectType,
+      objectId,
+      environment
+    );
+    if (relation) {
+      return {
+        allowed: true,
+        reason: `Granted by relation: ${relation}`,
+        matchedRelation: relation,
+      };
+    }
+  }
+
+  return {
+    allowed: false,
+    reason: "No role or override grants this permission",
+  };
+}
+
+/**
+ * Roles the user holds on the scope keys of a check, for policy contexts
+ */
+async function loadIndexedRoles(
+  ctx: QueryCtx,
+  userId: string,
+  scopeKeys: string[]
+): Promise<string[]> {
+  const roles = new Set<string>();
+  for (const scopeKey of scopeKeys) {
+    const held = await ctx.db
+      .query("effectiveRoles")
+      .withIndex("by_user_scope", (q) =>
+        q.eq("userId", userId).eq("scopeKey", scopeKey)
+      )
+      .collect();
+    for (const row of held) {
+      if (!row.expiresAt || row.expiresAt >= Date.now()) roles.add(row.role);
+    }
+  }
+  return [...roles];
+}
+
+type PolicyArgs = {
+  policies?: Record<string, Infer<typeof policyInputValidator>>;
+  policyDecisions?: Infer<typeof policyDecisionValidator>[];
+  policyCombining?: Infer<typeof policyCombiningValidator>;
+  resource?: Infer<typeof resourceContextValidator>;
+  environment?: Infer<typeof environmentContextValidator>;
+  subject?: Infer<typeof subjectContextValidator>;
+};
+
+/**
+ * Run the indexed check, then combine every matching policy (stored, passed
+ * in from the client config, or decided by the client) and any tenant
+ * policies on the object and its ancestor scopes, as checkPermission does
+ */
+async function checkIndexedWithPolicy(
+  ctx: QueryCtx,
+  args: PolicyArgs & {
+    userId: string;
+    permission: string;
+    objectType?: string;
+    objectId?: string;
+    permissionRelations?: Record<string, string[]>;
+  }
+): Promise<FastCheckResult> {
+  const result = await checkIndexed(
+    ctx,
+    args.userId,
+    args.permission,
+    args.objectType,
+    args.objectId,
+    args.permissionRelations,
+    args.environment
+  );
+
+  const scope =
+    args.objectType && args.objectId
+      ? { type: args.objectType, id: args.objectId }
+      : undefined;
+  const ancestors = await loadScopeAncestors(ctx, scope);
+
+  return await applyPolicy(ctx, result, {
+    userId: args.userId,
+    permission: args.permission,
+    roles: async () =>
+      loadIndexedRoles(
+        ctx,
+        args.userId,
+        await resolveScopeKeys(ctx, args.objectType, args.objectId)
+      ),
+    scope,
+    ancestors,
+    configPolicies: args.policies,
+    clientDecisions: args.policyDecisions,
+    combining: args.policyCombining,
+    resource: args.resource,
+    environment: args.environment,
+    subject: args.subject,
+  });
+}
+
 /**
  * Check permission with O(1) lookup
- * Uses the pre-computed effectivePermissions table
+ * Uses the pre-computed effectivePermissions table and returns the matched
+ * row, then applies stored, config and tenant policies like checkPermission
  */
 export const checkPermissionFast = query({
   args: {
@@ -59,42 +433,67 @@ export const checkPermissionFast = query({
     permission: v.string(),
     objectType: v.optional(v.string()),
     objectId: v.optional(v.string()),
+    // Permission -> relations on the scoped object that grant it
+    permissionRelations: v.optional(v.record(v.string(), v.array(v.string()))),
+    // Permission pattern -> JSON policy from the client config
+    policies: v.optional(v.record(v.string(), policyInputValidator)),
+    // Decisions of closure policies the client evaluated
+    policyDecisions: v.optional(v.array(policyDecisionValidator)),
+    policyCombining: v.optional(policyCombiningValidator),
+    resource: v.optional(resourceContextValidator),
+    // Conditional relations and policies are evaluated against this (default: now)
+    environment: v.optional(environmentContextValidator),
+    subject: v.optional(subjectContextValidator),
   },
-  returns: v.boolean(),
+  returns: fastCheckResultValidator,
   handler: async (ctx, args) => {
-    const scopeKeys = buildScopeKeys(args.objectType, args.objectId);
-    const permissionCandidates = buildPermissionCandidates(args.permission);
-
-    let allowed = false;
-    for (const scopeKey of scopeKeys) {
-      for (const permission of permissionCandidates) {
-        const cached = await ctx.db
-          .query("effectivePermissions")
-          .withIndex("by_user_permission_scope", (q) =>
-            q
-              .eq("userId", args.userId)
-              .eq("permission", permission)
-              .eq("scopeKey", scopeKey)
-          )
-          .unique();
-
-        if (!cached) {
-          continue;
-        }
-
-        if (cached.expiresAt && cached.expiresAt < Date.now()) {
-          continue;
-        }
-
-        if (cached.effect === "deny") {
-          return false;
-        }
+    return await checkIndexedWithPolicy(ctx, args);
+  },
+});
 
-        allowed = true;
-      }
+/**
+ * Check many permissions in a single query - O(1) per item
+ * Results are returned in the same order as the requested checks.
+ */
+export const checkPermissionsFast = query({
+  args: {
+    userId: v.string(),
+    checks: v.array(
+      v.object({
+        permission: v.string(),
+        objectType: v.optional(v.string()),
+        objectId: v.optional(v.string()),
+        resource: v.optional(resourceContextValidator),
+        policyDecisions: v.optional(v.array(policyDecisionValidator)),
+      })
+    ),
+    permissionRelations: v.optional(v.record(v.string(), v.array(v.string()))),
+    policies: v.optional(v.record(v.string(), policyInputValidator)),
+    policyCombining: v.optional(policyCombiningValidator),
+    environment: v.optional(environmentContextValidator),
+    subject: v.optional(subjectContextValidator),
+  },
+  returns: v.array(fastCheckResultValidator),
+  handler: async (ctx, args) => {
+    const results: FastCheckResult[] = [];
+    for (const check of args.checks) {
+      results.push(
+        await checkIndexedWithPolicy(ctx, {
+          userId: args.userId,
+          permission: check.permission,
+          objectType: check.objectType,
+          objectId: check.objectId,
+          permissionRelations: args.permissionRelations,
+          policies: args.policies,
+          policyDecisions: check.policyDecisions,
+          policyCombining: args.policyCombining,
+          resource: check.resource,
+          environment: args.environment,
+          subject: args.subject,
+        })
+      );
     }
-
-    return allowed;
+    return results;
   },
 });
 
@@ -110,7 +509,11 @@ export const hasRoleFast = query({
   },
   returns: v.boolean(),
   handler: async (ctx, args) => {
-    const scopeKeys = buildScopeKeys(args.objectType, args.objectId);
+    const scopeKeys = await resolveScopeKeys(
+      ctx,
+      args.objectType,
+      args.objectId
+    );
 
     for (const scopeKey of scopeKeys) {
       const cached = await ctx.db
@@ -138,6 +541,42 @@ export const hasRoleFast = query({
   },
 });
 
+/**
+ * Check if a user holds a role, or one inheriting from it, in a scope
+ */
+export const isAtLeastFast = query({
+  args: {
+    userId: v.string(),
+    role: v.string(),
+    objectType: v.optional(v.string()),
+    objectId: v.optional(v.string()),
+    roleParents: v.optional(roleParentsValidator),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const scopeKeys = await resolveScopeKeys(
+      ctx,
+      args.objectType,
+      args.objectId
+    );
+
+    const held: Doc<"effectiveRoles">[] = [];
+    for (const scopeKey of scopeKeys) {
+      const roles = await ctx.db
+        .query("effectiveRoles")
+        .withIndex("by_user_scope", (q) =>
+          q.eq("userId", args.userId).eq("scopeKey", scopeKey)
+        )
+        .collect();
+      held.push(
+        ...roles.filter((r) => !r.expiresAt || r.expiresAt >= Date.now())
+      );
+    }
+
+    return await holdsRoleAtLeast(ctx, held, args.role, args.roleParents);
+  },
+});
+
 /**
  * Check relationship - O(1) lookup
  */
@@ -145,24 +584,23 @@ export const hasRelationFast = query({
   args: {
     subjectType: v.string(),
     subjectId: v.string(),
+    subjectRelation: v.optional(v.string()),
     relation: v.string(),
     objectType: v.string(),
     objectId: v.string(),
+    // Conditional relations are evaluated against this (default: now)
+    environment: v.optional(environmentContextValidator),
   },
   returns: v.boolean(),
   handler: async (ctx, args) => {
     // O(1) indexed lookup on computed relationships
-    const cached = await ctx.db
-      .query("effectiveRelationships")
-      .withIndex("by_subject_relation_object", (q) =>
-        q
-          .eq("subjectKey", `${args.subjectType}:${args.subjectId}`)
-          .eq("relation", args.relation)
-          .eq("objectKey", `${args.objectType}:${args.objectId}`)
-      )
-      .unique();
-
-    return cached !== null;
+    return await holdsIndexedRelation(
+      ctx,
+      { type: args.subjectType, id: args.subjectId, relation: args.subjectRelation },
+      args.relation,
+      `${args.objectType}:${args.objectId}`,
+      tupleConditionContext(args.environment)
+    );
   },
 });
 
@@ -170,6 +608,33 @@ export const hasRelationFast = query({
 // Permission Computation (Write Path)
 // ============================================================================
 
+/**
+ * Permissions a role grants in a scope. When the static config is given
+ * and the role is not part of it, the grants come from roleDefinitions
+ * (including parentRole chains), merged with the explicit grants.
+ */
+async function resolveComputeGrants(
+  ctx: QueryCtx,
+  args: {
+    role: string;
+    rolePermissions: string[];
+    scope?: { type: string; id: string };
+    staticRoles?: Record<string, string[]>;
+  }
+): Promise<string[]> {
+  if (!args.staticRoles || args.staticRoles[args.role]) {
+    return args.rolePermissions;
+  }
+
+  const resolved = await resolveRoleDefinition(
+    ctx,
+    args.role,
+    args.scope,
+    args.staticRoles
+  );
+  return Array.from(new Set([...args.rolePermissions, ...resolved.permissions]));
+}
+
 /**
  * Assign a role and compute all resulting permissions
  * This is slower but makes reads O(1)
@@ -182,6 +647,9 @@ export const assignRoleWithCompute = mutation({
     scope: v.optional(v.object({ type: v.string(), id: v.string() })),
     expiresAt: v.optional(v.number()),
     assignedBy: v.optional(v.string()),
+    // Static role -> permissions map; roles outside it resolve from roleDefinitions
+    staticRoles: v.optional(v.record(v.string(), v.array(v.string()))),
+    enableAudit: v.optional(v.boolean()),
   },
   returns: v.string(),
   handler: async (ctx, args) => {
@@ -200,13 +668,13 @@ export const assignRoleWithCompute = mutation({
       )
       .unique();
 
-    let roleId: string;
+    let roleId: Id<"effectiveRoles">;
     if (existing) {
       await ctx.db.patch(existing._id, {
         expiresAt: args.expiresAt,
         updatedAt: Date.now(),
       });
-      roleId = existing._id as string;
+      roleId = existing._id;
     } else {
       roleId = await ctx.db.insert("effectiveRoles", {
         userId: args.userId,
@@ -217,11 +685,13 @@ export const assignRoleWithCompute = mutation({
         assignedBy: args.assignedBy,
         createdAt: Date.now(),
         updatedAt: Date.now(),
-      }) as string;
+      });
     }
+    await scheduleEffectiveRoleExpiry(ctx, roleId, args.expiresAt);
 
     // Step 2: Compute and store all permissions from this role
-    for (const permission of args.rolePermissions) {
+    const rolePermissions = await resolveComputeGrants(ctx, args);
+    for (const permission of rolePermissions) {
       const existingPerm = await ctx.db
         .query("effectivePermissions")
         .withIndex("by_user_permission_scope", (q) =>
@@ -257,7 +727,21 @@ export const assignRoleWithCompute = mutation({
       }
     }
 
-    return roleId;
+    if (args.enableAudit) {
+      await writeAuditEntry(ctx, {
+        action: "role_assigned",
+        userId: args.userId,
+        actorId: args.assignedBy,
+        details: {
+          role: args.role,
+          scope: args.scope,
+          before: existing ? { expiresAt: existing.expiresAt } : undefined,
+          after: { expiresAt: args.expiresAt, permissions: rolePermissions },
+        },
+      });
+    }
+
+    return roleId as string;
   },
 });
 
@@ -270,6 +754,9 @@ export const revokeRoleWithCompute = mutation({
     role: v.string(),
     rolePermissions: v.array(v.string()), // Permissions this role granted
     scope: v.optional(v.object({ type: v.string(), id: v.string() })),
+    staticRoles: v.optional(v.record(v.string(), v.array(v.string()))),
+    revokedBy: v.optional(v.string()),
+    enableAudit: v.optional(v.boolean()),
   },
   returns: v.boolean(),
   handler: async (ctx, args) => {
@@ -295,7 +782,8 @@ export const revokeRoleWithCompute = mutation({
     await ctx.db.delete(existing._id);
 
     // Step 2: Update permissions - remove this role as a source
-    for (const permission of args.rolePermissions) {
+    const rolePermissions = await resolveComputeGrants(ctx, args);
+    for (const permission of rolePermissions) {
       const existingPerm = await ctx.db
         .query("effectivePermissions")
         .withIndex("by_user_permission_scope", (q) =>
@@ -324,6 +812,19 @@ export const revokeRoleWithCompute = mutation({
       }
     }
 
+    if (args.enableAudit) {
+      await writeAuditEntry(ctx, {
+        action: "role_revoked",
+        userId: args.userId,
+        actorId: args.revokedBy,
+        details: {
+          role: args.role,
+          scope: args.scope,
+          before: { expiresAt: existing.expiresAt, permissions: rolePermissions },
+        },
+      });
+    }
+
     return true;
   },
 });
@@ -339,6 +840,7 @@ export const grantPermissionDirect = mutation({
     reason: v.optional(v.string()),
     grantedBy: v.optional(v.string()),
     expiresAt: v.optional(v.number()),
+    enableAudit: v.optional(v.boolean()),
   },
   returns: v.string(),
   handler: async (ctx, args) => {
@@ -356,6 +858,21 @@ export const grantPermissionDirect = mutation({
       )
       .unique();
 
+    if (args.enableAudit) {
+      await writeAuditEntry(ctx, {
+        action: "permission_granted",
+        userId: args.userId,
+        actorId: args.grantedBy,
+        details: {
+          permission: args.permission,
+          scope: args.scope,
+          reason: args.reason,
+          before: existing ? overrideSnapshot(existing) : undefined,
+          after: { effect: "allow", reason: args.reason, expiresAt: args.expiresAt },
+        },
+      });
+    }
+
     if (existing) {
       await ctx.db.patch(existing._id, {
         effect: "allow",
@@ -364,10 +881,11 @@ export const grantPermissionDirect = mutation({
         expiresAt: args.expiresAt,
         updatedAt: Date.now(),
       });
+      await scheduleEffectivePermissionExpiry(ctx, existing._id, args.expiresAt);
       return existing._id as string;
     }
 
-    return await ctx.db.insert("effectivePermissions", {
+    const permissionId = await ctx.db.insert("effectivePermissions", {
       userId: args.userId,
       permission: args.permission,
       scopeKey,
@@ -380,10 +898,26 @@ export const grantPermissionDirect = mutation({
       expiresAt: args.expiresAt,
       createdAt: Date.now(),
       updatedAt: Date.now(),
-    }) as string;
+    });
+    await scheduleEffectivePermissionExpiry(ctx, permissionId, args.expiresAt);
+    return permissionId as string;
   },
 });
 
+/**
+ * Audit snapshot of an indexed permission row
+ */
+function overrideSnapshot(row: Doc<"effectivePermissions">) {
+  return {
+    effect: row.effect,
+    sources: row.sources,
+    directGrant: row.directGrant,
+    directDeny: row.directDeny,
+    reason: row.reason,
+    expiresAt: row.expiresAt,
+  };
+}
+
 /**
  * Deny a permission (override)
  */
@@ -395,6 +929,7 @@ export const denyPermissionDirect = mutation({
     reason: v.optional(v.string()),
     deniedBy: v.optional(v.string()),
     expiresAt: v.optional(v.number()),
+    enableAudit: v.optional(v.boolean()),
   },
   returns: v.string(),
   handler: async (ctx, args) => {
@@ -412,6 +947,21 @@ export const denyPermissionDirect = mutation({
       )
       .unique();
 
+    if (args.enableAudit) {
+      await writeAuditEntry(ctx, {
+        action: "permission_denied",
+        userId: args.userId,
+        actorId: args.deniedBy,
+        details: {
+          permission: args.permission,
+          scope: args.scope,
+          reason: args.reason,
+          before: existing ? overrideSnapshot(existing) : undefined,
+          after: { effect: "deny", reason: args.reason, expiresAt: args.expiresAt },
+        },
+      });
+    }
+
     if (existing) {
       await ctx.db.patch(existing._id, {
         effect: "deny",
@@ -420,10 +970,11 @@ export const denyPermissionDirect = mutation({
         expiresAt: args.expiresAt,
         updatedAt: Date.now(),
       });
+      await scheduleEffectivePermissionExpiry(ctx, existing._id, args.expiresAt);
       return existing._id as string;
     }
 
-    return await ctx.db.insert("effectivePermissions", {
+    const permissionId = await ctx.db.insert("effectivePermissions", {
       userId: args.userId,
       permission: args.permission,
       scopeKey,
@@ -436,7 +987,354 @@ export const denyPermissionDirect = mutation({
       expiresAt: args.expiresAt,
       createdAt: Date.now(),
       updatedAt: Date.now(),
-    }) as string;
+    });
+    await scheduleEffectivePermissionExpiry(ctx, permissionId, args.expiresAt);
+    return permissionId as string;
+  },
+});
+
+// ============================================================================
+// Recompute on Role Changes
+// ============================================================================
+
+const RECOMPUTE_BATCH_SIZE = 100;
+
+/**
+ * Sort and dedupe grants so equal configs always hash the same
+ */
+function canonicalRolePermissions(
+  rolePermissions: Record<string, string[]>
+): Record<string, string[]> {
+  const canonical: Record<string, string[]> = {};
+  for (const role of Object.keys(rolePermissions).sort()) {
+    canonical[role] = Array.from(new Set(rolePermissions[role])).sort();
+  }
+  return canonical;
+}
+
+/**
+ * FNV-1a hash of the canonical role grants
+ */
+function hashRolePermissions(rolePermissions: Record<string, string[]>): string {
+  const input = JSON.stringify(rolePermissions);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Bring one role assignment's effectivePermissions in line with the role's grants
+ */
+async function applyRoleGrants(
+  ctx: MutationCtx,
+  assignment: Doc<"effectiveRoles">,
+  permissions: string[]
+): Promise<void> {
+  const target = new Set(permissions);
+  const now = Date.now();
+
+  const existing = await ctx.db
+    .query("effectivePermissions")
+    .withIndex("by_user_scope", (q) =>
+      q.eq("userId", assignment.userId).eq("scopeKey", assignment.scopeKey)
+    )
+    .collect();
+
+  for (const perm of existing) {
+    const hasSource = perm.sources.includes(assignment.role);
+
+    if (target.has(perm.permission)) {
+      target.delete(perm.permission);
+      if (!hasSource) {
+        await ctx.db.patch(perm._id, {
+          sources: [...perm.sources, assignment.role],
+          updatedAt: now,
+        });
+      }
+      continue;
+    }
+
+    if (!hasSource) continue;
+
+    const sources = perm.sources.filter((s) => s !== assignment.role);
+    if (sources.length === 0 && !perm.directGrant && !perm.directDeny) {
+      await ctx.db.delete(perm._id);
+    } else {
+      await ctx.db.patch(perm._id, { sources, updatedAt: now });
+    }
+  }
+
+  for (const permission of target) {
+    await ctx.db.insert("effectivePermissions", {
+      userId: assignment.userId,
+      permission,
+      scopeKey: assignment.scopeKey,
+      scope: assignment.scope,
+      effect: "allow",
+      sources: [assignment.role],
+      expiresAt: assignment.expiresAt,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+}
+
+/**
+ * Start a recompute job for the given roles and schedule its first batch.
+ * A running job with the same trigger and scope is superseded; its
+ * unfinished roles are carried over into the new job.
+ */
+export async function startRecompute(
+  ctx: MutationCtx,
+  args: {
+    trigger: "config" | "role_definition";
+    rolePermissions: Record<string, string[]>;
+    scopeKey?: string;
+    configHash?: string;
+  }
+): Promise<Id<"recomputeJobs">> {
+  const now = Date.now();
+  let rolePermissions = args.rolePermissions;
+  const roles = new Set(Object.keys(args.rolePermissions));
+
+  const running = await ctx.db
+    .query("recomputeJobs")
+    .withIndex("by_status", (q) => q.eq("status", "running"))
+    .collect();
+
+  for (const job of running) {
+    if (job.trigger !== args.trigger || job.scopeKey !== args.scopeKey) continue;
+
+    for (const role of job.roles.slice(job.roleIndex)) {
+      roles.add(role);
+    }
+    rolePermissions = { ...job.rolePermissions, ...rolePermissions };
+    await ctx.db.patch(job._id, { status: "superseded", updatedAt: now });
+  }
+
+  const jobId = await ctx.db.insert("recomputeJobs", {
+    trigger: args.trigger,
+    status: "running",
+    configHash: args.configHash,
+    rolePermissions,
+    roles: Array.from(roles),
+    scopeKey: args.scopeKey,
+    roleIndex: 0,
+    cursor: null,
+    processed: 0,
+    startedAt: now,
+    updatedAt: now,
+  });
+
+  await ctx.scheduler.runAfter(0, internal.indexed.recomputeBatch, { jobId });
+  return jobId;
+}
+
+function pick(
+  record: Record<string, string[]>,
+  keys: string[]
+): Record<string, string[]> {
+  return Object.fromEntries(
+    keys.filter((k) => k in record).map((k) => [k, record[k]])
+  );
+}
+
+/**
+ * Sync the configured role grants into the component.
+ * When the config hash changed, starts a recompute of every assignment
+ * of the roles whose grants differ from the last synced config.
+ */
+export const syncRolePermissions = mutation({
+  args: {
+    rolePermissions: v.record(v.string(), v.array(v.string())),
+    syncedBy: v.optional(v.string()),
+    enableAudit: v.optional(v.boolean()),
+  },
+  returns: v.object({
+    changed: v.boolean(),
+    configHash: v.string(),
+    roles: v.array(v.string()),
+    jobId: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const rolePermissions = canonicalRolePermissions(args.rolePermissions);
+    const configHash = hashRolePermissions(rolePermissions);
+
+    const state = await ctx.db.query("indexedConfig").first();
+    if (state?.configHash === configHash) {
+      return { changed: false, configHash, roles: [] };
+    }
+
+    // Without a previous sync every configured role is considered changed
+    const previous = state?.rolePermissions ?? {};
+    const target: Record<string, string[]> = {};
+    for (const role of new Set([
+      ...Object.keys(previous),
+      ...Object.keys(rolePermissions),
+    ])) {
+      const next = rolePermissions[role] ?? [];
+      if (!state || JSON.stringify(previous[role] ?? []) !== JSON.stringify(next)) {
+        target[role] = next;
+      }
+    }
+
+    if (state) {
+      await ctx.db.patch(state._id, {
+        configHash,
+        rolePermissions,
+        updatedAt: Date.now(),
+      });
+    } else {
+      await ctx.db.insert("indexedConfig", {
+        configHash,
+        rolePermissions,
+        updatedAt: Date.now(),
+      });
+    }
+
+    const roles = Object.keys(target);
+
+    if (args.enableAudit) {
+      await writeAuditEntry(ctx, {
+        action: "role_permissions_synced",
+        userId: "config:indexed",
+        actorId: args.syncedBy,
+        details: {
+          before: state
+            ? {
+                configHash: state.configHash,
+                rolePermissions: pick(previous, roles),
+              }
+            : undefined,
+          after: { configHash, rolePermissions: target },
+        },
+      });
+    }
+
+    if (roles.length === 0) {
+      return { changed: true, configHash, roles };
+    }
+
+    const jobId = await startRecompute(ctx, {
+      trigger: "config",
+      rolePermissions: target,
+      configHash,
+    });
+
+    return { changed: true, configHash, roles, jobId: jobId as string };
+  },
+});
+
+/**
+ * Recompute one batch of role assignments, then schedule the next batch
+ */
+export const recomputeBatch = internalMutation({
+  args: {
+    jobId: v.id("recomputeJobs"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args): Promise<null> => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || job.status !== "running") {
+      return null;
+    }
+
+    let { roleIndex, cursor, processed } = job;
+    const role = job.roles[roleIndex];
+
+    if (role !== undefined) {
+      const result = await ctx.db
+        .query("effectiveRoles")
+        .withIndex("by_role", (q) => q.eq("role", role))
+        .paginate({ cursor, numItems: RECOMPUTE_BATCH_SIZE });
+
+      const permissions = job.rolePermissions[role] ?? [];
+      for (const assignment of result.page) {
+        if (job.scopeKey && assignment.scopeKey !== job.scopeKey) continue;
+        await applyRoleGrants(ctx, assignment, permissions);
+        processed++;
+      }
+
+      if (result.isDone) {
+        roleIndex++;
+        cursor = null;
+      } else {
+        cursor = result.continueCursor;
+      }
+    }
+
+    const now = Date.now();
+    if (roleIndex >= job.roles.length) {
+      await ctx.db.patch(job._id, {
+        status: "completed",
+        roleIndex,
+        cursor: null,
+        processed,
+        updatedAt: now,
+        completedAt: now,
+      });
+      return null;
+    }
+
+    await ctx.db.patch(job._id, { roleIndex, cursor, processed, updatedAt: now });
+    await ctx.scheduler.runAfter(0, internal.indexed.recomputeBatch, {
+      jobId: job._id,
+    });
+    return null;
+  },
+});
+
+/**
+ * Get the progress of a recompute job (latest job when no ID is given)
+ */
+export const getRecomputeStatus = query({
+  args: {
+    jobId: v.optional(v.string()),
+  },
+  returns: v.union(
+    v.null(),
+    v.object({
+      jobId: v.string(),
+      trigger: v.string(),
+      status: v.string(),
+      configHash: v.optional(v.string()),
+      roles: v.array(v.string()),
+      currentRole: v.optional(v.string()),
+      rolesCompleted: v.number(),
+      processed: v.number(),
+      startedAt: v.number(),
+      updatedAt: v.number(),
+      completedAt: v.optional(v.number()),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const jobId = args.jobId
+      ? ctx.db.normalizeId("recomputeJobs", args.jobId)
+      : null;
+    const job = jobId
+      ? await ctx.db.get(jobId)
+      : args.jobId
+        ? null
+        : await ctx.db.query("recomputeJobs").order("desc").first();
+
+    if (!job) return null;
+
+    return {
+      jobId: job._id as string,
+      trigger: job.trigger,
+      status: job.status,
+      configHash: job.configHash,
+      roles: job.roles,
+      currentRole: job.status === "running" ? job.roles[job.roleIndex] : undefined,
+      rolesCompleted: job.roleIndex,
+      processed: job.processed,
+      startedAt: job.startedAt,
+      updatedAt: job.updatedAt,
+      completedAt: job.completedAt,
+    };
   },
 });
 
@@ -444,31 +1342,574 @@ export const denyPermissionDirect = mutation({
 // Relationship Computation (for ReBAC)
 // ============================================================================
 
+const inheritedRelationsValidator = v.array(
+  v.object({
+    relation: v.string(),
+    fromObjectType: v.string(),
+    fromRelation: v.string(),
+  })
+);
+
+/**
+ * Add union rules to a rule set, skipping rules it already has
+ */
+function addUnionRules(
+  rules: TraversalRules,
+  extra: Record<string, TraversalRule[]>
+): TraversalRules {
+  const merged: TraversalRules = { ...rules };
+  for (const [key, union] of Object.entries(extra)) {
+    const rewrite = relationRewrite(merged, key);
+    const added = union.filter(
+      (rule) => !rewrite.union.some((r) => JSON.stringify(r) === JSON.stringify(rule))
+    );
+    if (added.length === 0) continue;
+    const entry = merged[key];
+    merged[key] =
+      entry === undefined || Array.isArray(entry)
+        ? [...rewrite.union, ...added]
+        : { ...entry, union: [...rewrite.union, ...added] };
+  }
+  return merged;
+}
+
 /**
- * Add a relationship and compute transitive permissions
+ * Resolve the rules to derive relations with, and persist them.
+ * Inherited relations passed for a tuple become rules inheriting through its
+ * object type and are kept for every later re-derivation. Config rules and
+ * the depth limit replace the stored ones when passed, so a call that omits
+ * them re-derives with what earlier calls used instead of dropping rows.
+ */
+async function resolveRelationRules(
+  ctx: MutationCtx,
+  args: {
+    relation: string;
+    objectType: string;
+    traversalRules?: unknown;
+    inheritedRelations?: Infer<typeof inheritedRelationsValidator>;
+    maxDepth?: number;
+  }
+): Promise<{ rules: TraversalRules; maxDepth: number }> {
+  const stored = await ctx.db.query("relationRules").first();
+
+  const inherited: Record<string, TraversalRule[]> = {};
+  for (const entry of args.inheritedRelations ?? []) {
+    const key = `${entry.fromObjectType}:${entry.relation}`;
+    inherited[key] = [
+      ...(inherited[key] ?? []),
+      { through: args.objectType, via: entry.fromRelation, inherit: args.relation },
+    ];
+  }
+
+  const next = {
+    traversalRules: (args.traversalRules ?? stored?.traversalRules) as
+      | TraversalRules
+      | undefined,
+    inheritedRules: addUnionRules(
+      (stored?.inheritedRules ?? {}) as TraversalRules,
+      inherited
+    ) as Record<string, TraversalRule[]>,
+    maxDepth: args.maxDepth ?? stored?.maxDepth,
+  };
+
+  const changed =
+    JSON.stringify(next.traversalRules) !== JSON.stringify(stored?.traversalRules) ||
+    JSON.stringify(next.inheritedRules) !== JSON.stringify(stored?.inheritedRules ?? {}) ||
+    next.maxDepth !== stored?.maxDepth;
+  if (stored && changed) {
+    await ctx.db.patch(stored._id, { ...next, updatedAt: Date.now() });
+  } else if (!stored) {
+    await ctx.db.insert("relationRules", { ...next, updatedAt: Date.now() });
+  }
+
+  return {
+    rules: addUnionRules(next.traversalRules ?? {}, next.inheritedRules),
+    maxDepth: next.maxDepth ?? DEFAULT_MAX_DEPTH,
+  };
+}
+
+type DerivedRelation = {
+  relation: string;
+  objectType: string;
+  objectId: string;
+  inheritedFrom: string;
+  depth: number;
+};
+
+/**
+ * When a derived relation holds, in disjunctive normal form: one of the
+ * conjunctions of conditional tuples must hold. A literal is the row ID of
+ * a conditional tuple, or "!" + ID where that tuple must not hold.
+ */
+type Guard = string[][];
+
+const ALWAYS: Guard = [[]];
+const NEVER: Guard = [];
+
+function negateLiteral(literal: string): string {
+  return literal.startsWith("!") ? literal.slice(1) : `!${literal}`;
+}
+
+/**
+ * Drop contradictory and absorbed conjunctions, in a canonical order
+ */
+function normalizeGuard(guard: Guard): Guard {
+  const conjunctions = guard
+    .map((conjunction) => [...new Set(conjunction)].sort())
+    .filter((conjunction) => !conjunction.some((l) => conjunction.includes(negateLiteral(l))))
+    .sort((a, b) => a.length - b.length);
+
+  const kept: Guard = [];
+  for (const conjunction of conjunctions) {
+    if (kept.some((shorter) => shorter.every((l) => conjunction.includes(l)))) continue;
+    kept.push(conjunction);
+  }
+  return kept.sort((a, b) => a.join().localeCompare(b.join()));
+}
+
+function orGuards(a: Guard, b: Guard): Guard {
+  return normalizeGuard([...a, ...b]);
+}
+
+function andGuards(a: Guard, b: Guard): Guard {
+  return normalizeGuard(a.flatMap((x) => b.map((y) => [...x, ...y])));
+}
+
+/**
+ * Negate a guard. Distributing the negation over a DNF guard multiplies out
+ * every conjunction, so anything beyond a single conjunction becomes one
+ * opaque literal standing for `{ not: <guard> }`, registered in `conditions`
+ * under a key derived from the guard so re-derivations reach the same one.
+ */
+function notGuard(guard: Guard, conditions: Map<string, Condition>): Guard {
+  if (guard.length === 0) return ALWAYS;
+  if (guard.length === 1) return guard[0].map((l) => [negateLiteral(l)]);
+
+  const literal = `not:${JSON.stringify(guard)}`;
+  conditions.set(literal, { not: guardCondition(guard, conditions)! });
+  return [[literal]];
+}
+
+function sameGuard(a: Guard, b: Guard): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Compile a guard into a JSON condition, or undefined when it always holds
+ */
+function guardCondition(
+  guard: Guard,
+  conditions: Map<string, Condition>
+): Condition | undefined {
+  if (guard.some((conjunction) => conjunction.length === 0)) return undefined;
+  const literal = (l: string): Condition =>
+    l.startsWith("!") ? { not: conditions.get(l.slice(1))! } : conditions.get(l)!;
+  return { or: guard.map((conjunction) => ({ and: conjunction.map(literal) })) };
+}
+
+/**
+ * Derive every relation a subject holds through the traversal rules and
+ * usersets, starting from its direct tuples. Follows the same rules and depth
+ * limit as traverseRelation, so the indexed rows agree with traversal checks.
+ *
+ * Each relation carries a guard over the conditional tuples on its paths,
+ * widened whenever another path reaches it. Relations with an intersection
+ * or exclusion are decided once the union closure has settled, against the
+ * relations derived so far, so exclusions must not depend on the relation
+ * they exclude from.
+ * Returns every relation in effect, direct ones included, the relations the
+ * subject's own unconditional relations exclude it from, and the conditions
+ * of the tuples the guards refer to.
+ */
+async function deriveRelations(
+  ctx: QueryCtx,
+  subjectKey: string,
+  rules: TraversalRules,
+  maxDepth: number
+) {
+  const direct = await ctx.db
+    .query("effectiveRelationships")
+    .withIndex("by_subject", (q) => q.eq("subjectKey", subjectKey))
+    .filter((q) => q.eq(q.field("isDirect"), true))
+    .collect();
+
+  // Relations on the same object whose intersection or exclusion names a relation
+  const intersectedBy = new Map<string, string[]>();
+  const excludedBy = new Map<string, string[]>();
+  for (const key of Object.keys(rules)) {
+    const [objectType, relation] = key.split(":");
+    const rewrite = relationRewrite(rules, key);
+    for (const [names, index] of [
+      [rewrite.intersection, intersectedBy],
+      [rewrite.exclusion, excludedBy],
+    ] as const) {
+      for (const name of names) {
+        const nameKey = `${objectType}:${name}`;
+        index.set(nameKey, [...(index.get(nameKey) ?? []), relation]);
+      }
+    }
+  }
+
+  const conditions = new Map<string, Condition>();
+  const tupleGuard = (row: Doc<"effectiveRelationships">): Guard => {
+    const condition = tupleCondition(row);
+    if (condition === undefined) return ALWAYS;
+    conditions.set(row._id, condition);
+    return [[row._id]];
+  };
+
+  const held = new Map<string, { fact: DerivedRelation; guard: Guard }>();
+  const pending = new Map<string, { fact: DerivedRelation; union: Guard }>();
+  const frontier: DerivedRelation[] = [];
+
+  // Hold a relation, or widen the guard it is held under; re-expands on change
+  const hold = (factKey: string, fact: DerivedRelation, guard: Guard): boolean => {
+    if (guard.length === 0) return false;
+    const existing = held.get(factKey);
+    const widened = existing ? orGuards(existing.guard, guard) : guard;
+    if (existing && sameGuard(existing.guard, widened)) return false;
+    held.set(factKey, { fact: existing?.fact ?? fact, guard: widened });
+    frontier.push(existing?.fact ?? fact);
+    return true;
+  };
+
+  const offer = (fact: DerivedRelation, guard: Guard, viaUnion: boolean) => {
+    const factKey = `${fact.relation}@${fact.objectType}:${fact.objectId}`;
+    if (hasSetOperators(relationRewrite(rules, `${fact.objectType}:${fact.relation}`))) {
+      const candidate = pending.get(factKey) ?? { fact, union: NEVER };
+      if (viaUnion) candidate.union = orGuards(candidate.union, guard);
+      pending.set(factKey, candidate);
+      return;
+    }
+    hold(factKey, fact, guard);
+  };
+
+  for (const row of direct) {
+    offer(
+      {
+        relation: row.relation,
+        objectType: row.objectType,
+        objectId: row.objectId,
+        inheritedFrom: row._id as string,
+        depth: 0,
+      },
+      tupleGuard(row),
+      true
+    );
+  }
+
+  for (;;) {
+    while (frontier.length > 0) {
+      const fact = frontier.shift()!;
+      const guard = held.get(`${fact.relation}@${fact.objectType}:${fact.objectId}`)!.guard;
+      const depth = fact.depth + 1;
+      if (depth >= maxDepth) continue;
+
+      const add = (
+        relation: string,
+        target: { objectType: string; objectId: string },
+        targetGuard: Guard,
+        viaUnion = true
+      ) =>
+        offer(
+          {
+            relation,
+            objectType: target.objectType,
+            objectId: target.objectId,
+            inheritedFrom: fact.inheritedFrom,
+            depth,
+          },
+          targetGuard,
+          viaUnion
+        );
+
+      for (const relation of intersectedBy.get(`${fact.objectType}:${fact.relation}`) ?? []) {
+        add(relation, fact, NEVER, false);
+      }
+
+      // Holding the relation makes the subject part of the userset
+      const usersetGrants = await ctx.db
+        .query("effectiveRelationships")
+        .withIndex("by_subject", (q) =>
+          q.eq("subjectKey", `${fact.objectType}:${fact.objectId}#${fact.relation}`)
+        )
+        .collect();
+      for (const grant of usersetGrants) {
+        add(grant.relation, grant, andGuards(guard, tupleGuard(grant)));
+      }
+
+      for (const key of Object.keys(rules)) {
+        const [objectType, relation] = key.split(":");
+        for (const rule of relationRewrite(rules, key).union) {
+          if (rule.inherit !== fact.relation) continue;
+
+          if (!rule.through || !rule.via) {
+            // Same-object rewrite: e.g. deal viewer = deal owner
+            if (objectType === fact.objectType) add(relation, fact, guard);
+            continue;
+          }
+          if (rule.through !== fact.objectType) continue;
+
+          // Objects the fact's object points to via the rule's relation
+          const via = rule.via;
+          const edges = await ctx.db
+            .query("effectiveRelationships")
+            .withIndex("by_subject_relation", (q) =>
+              q
+                .eq("subjectKey", `${fact.objectType}:${fact.objectId}`)
+                .eq("relation", via)
+            )
+            .collect();
+          for (const edge of edges) {
+            if (!edge.isDirect || edge.excluded || edge.objectType !== objectType) continue;
+            add(relation, edge, andGuards(guard, tupleGuard(edge)));
+          }
+        }
+      }
+    }
+
+    // The union closure has settled: decide the pending relations
+    let changed = false;
+    for (const [factKey, { fact, union }] of pending) {
+      const rewrite = relationRewrite(rules, `${fact.objectType}:${fact.relation}`);
+      const object = `${fact.objectType}:${fact.objectId}`;
+      const heldGuard = (relation: string) => held.get(`${relation}@${object}`)?.guard ?? NEVER;
+
+      let guard = rewrite.intersectionOnly ? ALWAYS : union;
+      for (const relation of rewrite.intersection) {
+        guard = andGuards(guard, heldGuard(relation));
+      }
+      for (const relation of rewrite.exclusion) {
+        guard = andGuards(guard, notGuard(heldGuard(relation), conditions));
+      }
+      if (hold(factKey, fact, guard)) changed = true;
+    }
+    if (!changed) break;
+  }
+
+  const denied = new Map<string, DerivedRelation>();
+  for (const { fact, guard } of held.values()) {
+    if (!sameGuard(guard, ALWAYS)) continue;
+    for (const relation of excludedBy.get(`${fact.objectType}:${fact.relation}`) ?? []) {
+      const deniedKey = `${relation}@${fact.objectType}:${fact.objectId}`;
+      if (!held.has(deniedKey)) denied.set(deniedKey, { ...fact, relation });
+    }
+  }
+
+  return { held, denied, conditions };
+}
+
+/**
+ * Bring a subject's inherited rows in line with what its direct tuples
+ * currently support: insert new paths, delete unsupported ones, record
+ * the conditions each row holds under and flag the relations an exclusion
+ * or intersection takes out of effect. Flagged rows also keep a wildcard
+ * grant for the subject's type from applying.
+ */
+async function syncInheritedRelations(
+  ctx: MutationCtx,
+  subject: { type: string; id: string },
+  rules: TraversalRules,
+  maxDepth: number,
+  createdBy?: string
+): Promise<void> {
+  const subjectKey = `${subject.type}:${subject.id}`;
+  const { held, denied, conditions } = await deriveRelations(
+    ctx,
+    subjectKey,
+    rules,
+    maxDepth
+  );
+  const effectiveCondition = (key: string) => {
+    const entry = held.get(key);
+    return entry ? guardCondition(entry.guard, conditions) : undefined;
+  };
+
+  const existing = await ctx.db
+    .query("effectiveRelationships")
+    .withIndex("by_subject", (q) => q.eq("subjectKey", subjectKey))
+    .collect();
+
+  for (const row of existing) {
+    const key = `${row.relation}@${row.objectKey}`;
+    if (row.isDirect || held.has(key) || denied.has(key)) {
+      const state = {
+        excluded: held.has(key) ? undefined : true,
+        effectiveCondition: effectiveCondition(key),
+      };
+      if (
+        row.excluded !== state.excluded ||
+        JSON.stringify(row.effectiveCondition) !== JSON.stringify(state.effectiveCondition)
+      ) {
+        await ctx.db.patch(row._id, state);
+      }
+    } else {
+      await ctx.db.delete(row._id);
+    }
+    held.delete(key);
+    denied.delete(key);
+  }
+
+  const missing = [
+    ...[...held].map(([key, { fact }]) => ({
+      relation: fact,
+      excluded: undefined,
+      effectiveCondition: effectiveCondition(key),
+    })),
+    ...[...denied.values()].map((relation) => ({
+      relation,
+      excluded: true,
+      effectiveCondition: undefined,
+    })),
+  ];
+  for (const { relation, excluded, effectiveCondition } of missing) {
+    await ctx.db.insert("effectiveRelationships", {
+      subjectKey,
+      subjectType: subject.type,
+      subjectId: subject.id,
+      relation: relation.relation,
+      objectKey: `${relation.objectType}:${relation.objectId}`,
+      objectType: relation.objectType,
+      objectId: relation.objectId,
+      isDirect: false,
+      excluded,
+      effectiveCondition,
+      inheritedFrom: relation.inheritedFrom,
+      createdBy,
+      createdAt: Date.now(),
+    });
+  }
+}
+
+const RELATION_SYNC_BATCH_SIZE = 50;
+
+/**
+ * The relation rules last stored by addRelationWithCompute
+ */
+async function storedRelationRules(
+  ctx: QueryCtx
+): Promise<{ rules: TraversalRules; maxDepth: number }> {
+  const stored = await ctx.db.query("relationRules").first();
+  return {
+    rules: addUnionRules(
+      (stored?.traversalRules ?? {}) as TraversalRules,
+      (stored?.inheritedRules ?? {}) as Record<string, TraversalRule[]>
+    ),
+    maxDepth: stored?.maxDepth ?? DEFAULT_MAX_DEPTH,
+  };
+}
+
+/**
+ * Re-derive one page of the subjects whose inherited rows may depend on
+ * edges leaving an object: the object itself (on the first page) and every
+ * subject holding a relation on it. Schedules the next page, so the fan-out
+ * of a widely held object is spread over as many mutations as it needs.
+ */
+async function syncDependentSubjects(
+  ctx: MutationCtx,
+  args: {
+    objectType: string;
+    objectId: string;
+    cursor: string | null;
+    createdBy?: string;
+  },
+  relationRules: { rules: TraversalRules; maxDepth: number }
+): Promise<number> {
+  const result = await ctx.db
+    .query("effectiveRelationships")
+    .withIndex("by_object", (q) => q.eq("objectKey", `${args.objectType}:${args.objectId}`))
+    .paginate({ cursor: args.cursor, numItems: RELATION_SYNC_BATCH_SIZE });
+
+  const subjects = new Map<string, { type: string; id: string }>();
+  if (args.cursor === null) {
+    subjects.set(`${args.objectType}:${args.objectId}`, {
+      type: args.objectType,
+      id: args.objectId,
+    });
+  }
+  for (const row of result.page) {
+    // Usersets have no rows of their own; their members do
+    if (row.subjectRelation !== undefined) continue;
+    subjects.set(row.subjectKey, { type: row.subjectType, id: row.subjectId });
+  }
+
+  for (const subject of subjects.values()) {
+    await syncInheritedRelations(
+      ctx,
+      subject,
+      relationRules.rules,
+      relationRules.maxDepth,
+      args.createdBy
+    );
+  }
+
+  if (!result.isDone) {
+    await ctx.scheduler.runAfter(0, internal.indexed.syncRelationsBatch, {
+      objectType: args.objectType,
+      objectId: args.objectId,
+      cursor: result.continueCursor,
+      createdBy: args.createdBy,
+    });
+  }
+  return subjects.size;
+}
+
+/**
+ * Re-derive the next page of subjects depending on an object's edges,
+ * under the relation rules in effect when the batch runs
+ */
+export const syncRelationsBatch = internalMutation({
+  args: {
+    objectType: v.string(),
+    objectId: v.string(),
+    cursor: v.string(),
+    createdBy: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args): Promise<null> => {
+    await syncDependentSubjects(ctx, args, await storedRelationRules(ctx));
+    return null;
+  },
+});
+
+/**
+ * Add a relationship and incrementally update the inherited relationships
+ * of every subject whose paths can run through it. The first page of those
+ * subjects is updated in this mutation, the rest in scheduled batches.
  */
 export const addRelationWithCompute = mutation({
   args: {
     subjectType: v.string(),
     subjectId: v.string(),
+    subjectRelation: v.optional(v.string()),
     relation: v.string(),
     objectType: v.string(),
     objectId: v.string(),
-    // Inherited relations to compute
-    inheritedRelations: v.optional(
-      v.array(
-        v.object({
-          relation: v.string(),
-          fromObjectType: v.string(),
-          fromRelation: v.string(),
-        })
-      )
-    ),
+    expiresAt: v.optional(v.number()),
+    // JSON condition on the environment of the check (see conditions.ts)
+    condition: v.optional(v.any()),
+    // Rules compiled from the relations config (see rebac.ts); default: last passed
+    traversalRules: v.optional(v.any()),
+    // Extra relations to inherit through this tuple's object type, kept for later calls
+    inheritedRelations: v.optional(inheritedRelationsValidator),
+    // Depth limit of the traversal checks these rows must agree with
+    maxDepth: v.optional(v.number()),
     createdBy: v.optional(v.string()),
+    enableAudit: v.optional(v.boolean()),
   },
   returns: v.string(),
   handler: async (ctx, args) => {
-    const subjectKey = `${args.subjectType}:${args.subjectId}`;
+    if (args.subjectId === WILDCARD_SUBJECT_ID && args.subjectRelation !== undefined) {
+      throw new ConvexError({
+        code: "INVALID_RELATION",
+        message: `Wildcard subject "${args.subjectType}:*" cannot be a userset`,
+      });
+    }
+    validateTupleTerms(args);
+
+    const subjectKey = args.subjectRelation
+      ? `${args.subjectType}:${args.subjectId}#${args.subjectRelation}`
+      : `${args.subjectType}:${args.subjectId}`;
     const objectKey = `${args.objectType}:${args.objectId}`;
 
     // Step 1: Store the direct relationship
@@ -482,73 +1923,63 @@ export const addRelationWithCompute = mutation({
       )
       .unique();
 
-    if (existing) {
+    if (existing?.isDirect && hasSameTerms(existing, args)) {
       return existing._id as string;
     }
 
-    const relId = await ctx.db.insert("effectiveRelationships", {
-      subjectKey,
-      subjectType: args.subjectType,
-      subjectId: args.subjectId,
-      relation: args.relation,
-      objectKey,
-      objectType: args.objectType,
-      objectId: args.objectId,
-      isDirect: true,
-      inheritedFrom: null,
-      createdBy: args.createdBy,
-      createdAt: Date.now(),
-    }) as string;
-
-    // Step 2: Compute inherited relationships
-    if (args.inheritedRelations) {
-      for (const inherited of args.inheritedRelations) {
-        // Find all objects where the current object has a relation
-        const parentRelations = await ctx.db
-          .query("effectiveRelationships")
-          .withIndex("by_subject_relation", (q) =>
-            q
-              .eq("subjectKey", objectKey)
-              .eq("relation", inherited.fromRelation)
-          )
-          .collect();
-
-        const matchingParents = parentRelations.filter(
-          (r) => r.objectType === inherited.fromObjectType
-        );
-
-        // Create inherited relationships
-        for (const parent of matchingParents) {
-          const inheritedKey = `${args.subjectType}:${args.subjectId}`;
-          const parentObjectKey = parent.objectKey;
+    let relId: string;
+    if (existing) {
+      // Already inherited, or held directly under other terms
+      relId = existing._id as string;
+      await ctx.db.patch(existing._id, {
+        isDirect: true,
+        inheritedFrom: null,
+        expiresAt: args.expiresAt,
+        condition: args.condition,
+        createdBy: args.createdBy,
+      });
+    } else {
+      relId = await ctx.db.insert("effectiveRelationships", {
+        subjectKey,
+        subjectType: args.subjectType,
+        subjectId: args.subjectId,
+        subjectRelation: args.subjectRelation,
+        relation: args.relation,
+        objectKey,
+        objectType: args.objectType,
+        objectId: args.objectId,
+        isDirect: true,
+        expiresAt: args.expiresAt,
+        condition: args.condition,
+        inheritedFrom: null,
+        createdBy: args.createdBy,
+        createdAt: Date.now(),
+      }) as string;
+    }
 
-          const existingInherited = await ctx.db
-            .query("effectiveRelationships")
-            .withIndex("by_subject_relation_object", (q) =>
-              q
-                .eq("subjectKey", inheritedKey)
-                .eq("relation", inherited.relation)
-                .eq("objectKey", parentObjectKey)
-            )
-            .unique();
-
-          if (!existingInherited) {
-            await ctx.db.insert("effectiveRelationships", {
-              subjectKey: inheritedKey,
-              subjectType: args.subjectType,
-              subjectId: args.subjectId,
-              relation: inherited.relation,
-              objectKey: parentObjectKey,
-              objectType: parent.objectType,
-              objectId: parent.objectId,
-              isDirect: false,
-              inheritedFrom: relId,
-              createdBy: args.createdBy,
-              createdAt: Date.now(),
-            });
-          }
-        }
-      }
+    // Step 2: Fan the new edge out to everything that reaches it
+    await syncDependentSubjects(
+      ctx,
+      {
+        objectType: args.subjectType,
+        objectId: args.subjectId,
+        cursor: null,
+        createdBy: args.createdBy,
+      },
+      await resolveRelationRules(ctx, args)
+    );
+
+    if (args.enableAudit) {
+      await writeAuditEntry(ctx, {
+        action: "relation_added",
+        userId: subjectAuditKey(args.subjectType, args.subjectId),
+        actorId: args.createdBy,
+        details: {
+          relation: args.relation,
+          scope: { type: args.objectType, id: args.objectId },
+          after: relationSnapshot(args),
+        },
+      });
     }
 
     return relId;
@@ -556,19 +1987,27 @@ export const addRelationWithCompute = mutation({
 });
 
 /**
- * Remove a relationship and clean up inherited permissions
+ * Remove a relationship and retract the inherited relationships that no
+ * remaining path supports, in batches as addRelationWithCompute adds them
  */
 export const removeRelationWithCompute = mutation({
   args: {
     subjectType: v.string(),
     subjectId: v.string(),
+    subjectRelation: v.optional(v.string()),
     relation: v.string(),
     objectType: v.string(),
     objectId: v.string(),
+    traversalRules: v.optional(v.any()),
+    maxDepth: v.optional(v.number()),
+    removedBy: v.optional(v.string()),
+    enableAudit: v.optional(v.boolean()),
   },
   returns: v.boolean(),
   handler: async (ctx, args) => {
-    const subjectKey = `${args.subjectType}:${args.subjectId}`;
+    const subjectKey = args.subjectRelation
+      ? `${args.subjectType}:${args.subjectId}#${args.subjectRelation}`
+      : `${args.subjectType}:${args.subjectId}`;
     const objectKey = `${args.objectType}:${args.objectId}`;
 
     // Find the direct relationship
@@ -582,24 +2021,31 @@ export const removeRelationWithCompute = mutation({
       )
       .unique();
 
-    if (!existing) {
+    if (!existing?.isDirect) {
       return false;
     }
 
-    // Delete all inherited relationships from this one
-    const inherited = await ctx.db
-      .query("effectiveRelationships")
-      .withIndex("by_inherited_from", (q) =>
-        q.eq("inheritedFrom", existing._id as string)
-      )
-      .collect();
-
-    for (const rel of inherited) {
-      await ctx.db.delete(rel._id);
-    }
-
-    // Delete the direct relationship
+    // Delete the direct relationship, then re-derive what is left. The
+    // dependents' rows on the subject stay until each of them is re-derived.
     await ctx.db.delete(existing._id);
+    await syncDependentSubjects(
+      ctx,
+      { objectType: args.subjectType, objectId: args.subjectId, cursor: null },
+      await resolveRelationRules(ctx, args)
+    );
+
+    if (args.enableAudit) {
+      await writeAuditEntry(ctx, {
+        action: "relation_removed",
+        userId: subjectAuditKey(args.subjectType, args.subjectId),
+        actorId: args.removedBy,
+        details: {
+          relation: args.relation,
+          scope: { type: args.objectType, id: args.objectId },
+          before: relationSnapshot(existing),
+        },
+      });
+    }
 
     return true;
   },
@@ -706,7 +2152,8 @@ export const getUserRolesFast = query({
 // ============================================================================
 
 /**
- * Clean up expired entries
+ * Sweep expired indexed roles and permissions in batches
+ * Fallback for scheduled expiry; further batches are scheduled while rows remain.
  */
 export const cleanupExpired = mutation({
   args: {},
@@ -715,26 +2162,13 @@ export const cleanupExpired = mutation({
     expiredRoles: v.number(),
   }),
   handler: async (ctx) => {
-    const now = Date.now();
-    let expiredPermissions = 0;
-    let expiredRoles = 0;
-
-    // Clean expired permissions
-    const allPermissions = await ctx.db.query("effectivePermissions").collect();
-    for (const perm of allPermissions) {
-      if (perm.expiresAt && perm.expiresAt < now) {
-        await ctx.db.delete(perm._id);
-        expiredPermissions++;
-      }
-    }
+    const { expiredPermissions, expiredRoles, hasMore } =
+      await sweepExpiredIndexed(ctx);
 
-    // Clean expired roles
-    const allRoles = await ctx.db.query("effectiveRoles").collect();
-    for (const role of allRoles) {
-      if (role.expiresAt && role.expiresAt < now) {
-        await ctx.db.delete(role._id);
-        expiredRoles++;
-      }
+    if (hasMore) {
+      await ctx.scheduler.runAfter(0, internal.expiry.continueSweep, {
+        strategy: "indexed",
+      });
     }
 
     return { expiredPermissions, expiredRoles };
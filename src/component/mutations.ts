@@ -1,6 +1,17 @@
 import { v, ConvexError } from "convex/values";
-import { mutation } from "./_generated/server";
-import { isExpired } from "./helpers";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { mutation, type MutationCtx } from "./_generated/server";
+import { roleAuditKey, writeAuditEntry } from "./audit";
+import {
+  schedulePermissionOverrideExpiry,
+  scheduleRoleAssignmentExpiry,
+  sweepExpiredAssignments,
+} from "./expiry";
+import { isActive, matchesValidatorJson } from "./helpers";
+import { closePermissionOverride, closeRoleAssignment } from "./history";
+import { startRecompute } from "./indexed";
+import { findRoleDefinition, resolveRoleDefinition } from "./queries";
 
 /**
  * Assign a role to a user
@@ -32,7 +43,7 @@ export const assignRole = mutation({
 
     // Check for duplicate (same role + same scope)
     const duplicate = existingAssignments.find((a) => {
-      if (isExpired(a.expiresAt)) return false;
+      if (!isActive(a)) return false;
 
       // Compare scopes
       if (!a.scope && !args.scope) return true;
@@ -55,7 +66,9 @@ export const assignRole = mutation({
       metadata: args.metadata,
       assignedBy: args.assignedBy,
       expiresAt: args.expiresAt,
+      validFrom: Date.now(),
     });
+    await scheduleRoleAssignmentExpiry(ctx, assignmentId, args.expiresAt);
 
     // Log audit entry if enabled
     if (args.enableAudit) {
@@ -100,8 +113,9 @@ export const revokeRole = mutation({
       )
       .collect();
 
-    // Find matching assignment (same scope)
+    // Find the active matching assignment (same scope)
     const toRevoke = assignments.find((a) => {
+      if (!isActive(a)) return false;
       if (!a.scope && !args.scope) return true;
       if (!a.scope || !args.scope) return false;
       return a.scope.type === args.scope.type && a.scope.id === args.scope.id;
@@ -111,7 +125,8 @@ export const revokeRole = mutation({
       return false;
     }
 
-    await ctx.db.delete(toRevoke._id);
+    // Close rather than delete, so the assignment stays in history
+    await closeRoleAssignment(ctx, toRevoke, { revokedBy: args.revokedBy });
 
     // Log audit entry if enabled
     if (args.enableAudit) {
@@ -156,6 +171,8 @@ export const revokeAllRoles = mutation({
     let revokedCount = 0;
 
     for (const assignment of assignments) {
+      if (!isActive(assignment)) continue;
+
       // If scope is specified, only revoke matching scope
       if (args.scope) {
         if (!assignment.scope) continue;
@@ -167,7 +184,9 @@ export const revokeAllRoles = mutation({
         }
       }
 
-      await ctx.db.delete(assignment._id);
+      await closeRoleAssignment(ctx, assignment, {
+        revokedBy: args.revokedBy,
+      });
       revokedCount++;
 
       // Log audit entry if enabled
@@ -191,17 +210,36 @@ export const revokeAllRoles = mutation({
 
 /**
  * Set a user attribute
+ * With `attributeSchema` (key -> serialized validator from the client
+ * config), unknown keys and mismatched values are rejected.
  */
 export const setAttribute = mutation({
   args: {
     userId: v.string(),
     key: v.string(),
     value: v.any(),
+    attributeSchema: v.optional(v.record(v.string(), v.any())),
     setBy: v.optional(v.string()),
     enableAudit: v.optional(v.boolean()),
   },
   returns: v.string(),
   handler: async (ctx, args) => {
+    if (args.attributeSchema) {
+      const validator = args.attributeSchema[args.key];
+      if (validator === undefined) {
+        throw new ConvexError({
+          code: "INVALID_ATTRIBUTE",
+          message: `Unknown attribute "${args.key}"`,
+        });
+      }
+      if (!matchesValidatorJson(args.value, validator)) {
+        throw new ConvexError({
+          code: "INVALID_ATTRIBUTE",
+          message: `Invalid value for attribute "${args.key}"`,
+        });
+      }
+    }
+
     // Check if attribute already exists
     const existing = await ctx.db
       .query("userAttributes")
@@ -372,37 +410,17 @@ export const grantPermission = mutation({
       .collect();
 
     const duplicate = existing.find((o) => {
-      if (isExpired(o.expiresAt)) return false;
+      if (!isActive(o)) return false;
       if (!o.scope && !args.scope) return true;
       if (!o.scope || !args.scope) return false;
       return o.scope.type === args.scope.type && o.scope.id === args.scope.id;
     });
 
+    // Replace the existing override, keeping it as history
     if (duplicate) {
-      // Update existing override
-      await ctx.db.patch(duplicate._id, {
-        effect: "allow",
-        reason: args.reason,
-        createdBy: args.createdBy,
-        expiresAt: args.expiresAt,
+      await closePermissionOverride(ctx, duplicate, {
+        revokedBy: args.createdBy,
       });
-
-      // Log audit entry if enabled
-      if (args.enableAudit) {
-        await ctx.db.insert("auditLog", {
-          timestamp: Date.now(),
-          action: "permission_granted",
-          userId: args.userId,
-          actorId: args.createdBy,
-          details: {
-            permission: args.permission,
-            scope: args.scope,
-            reason: args.reason,
-          },
-        });
-      }
-
-      return duplicate._id as string;
     }
 
     // Create new override
@@ -414,7 +432,9 @@ export const grantPermission = mutation({
       reason: args.reason,
       createdBy: args.createdBy,
       expiresAt: args.expiresAt,
+      validFrom: Date.now(),
     });
+    await schedulePermissionOverrideExpiry(ctx, overrideId, args.expiresAt);
 
     // Log audit entry if enabled
     if (args.enableAudit) {
@@ -464,37 +484,17 @@ export const denyPermission = mutation({
       .collect();
 
     const duplicate = existing.find((o) => {
-      if (isExpired(o.expiresAt)) return false;
+      if (!isActive(o)) return false;
       if (!o.scope && !args.scope) return true;
       if (!o.scope || !args.scope) return false;
       return o.scope.type === args.scope.type && o.scope.id === args.scope.id;
     });
 
+    // Replace the existing override, keeping it as history
     if (duplicate) {
-      // Update existing override
-      await ctx.db.patch(duplicate._id, {
-        effect: "deny",
-        reason: args.reason,
-        createdBy: args.createdBy,
-        expiresAt: args.expiresAt,
+      await closePermissionOverride(ctx, duplicate, {
+        revokedBy: args.createdBy,
       });
-
-      // Log audit entry if enabled
-      if (args.enableAudit) {
-        await ctx.db.insert("auditLog", {
-          timestamp: Date.now(),
-          action: "permission_denied",
-          userId: args.userId,
-          actorId: args.createdBy,
-          details: {
-            permission: args.permission,
-            scope: args.scope,
-            reason: args.reason,
-          },
-        });
-      }
-
-      return duplicate._id as string;
     }
 
     // Create new override
@@ -506,7 +506,9 @@ export const denyPermission = mutation({
       reason: args.reason,
       createdBy: args.createdBy,
       expiresAt: args.expiresAt,
+      validFrom: Date.now(),
     });
+    await schedulePermissionOverrideExpiry(ctx, overrideId, args.expiresAt);
 
     // Log audit entry if enabled
     if (args.enableAudit) {
@@ -553,6 +555,7 @@ export const removePermissionOverride = mutation({
       .collect();
 
     const toRemove = existing.find((o) => {
+      if (!isActive(o)) return false;
       if (!o.scope && !args.scope) return true;
       if (!o.scope || !args.scope) return false;
       return o.scope.type === args.scope.type && o.scope.id === args.scope.id;
@@ -562,19 +565,23 @@ export const removePermissionOverride = mutation({
       return false;
     }
 
-    await ctx.db.delete(toRemove._id);
+    await closePermissionOverride(ctx, toRemove, { revokedBy: args.removedBy });
 
     // Log audit entry if enabled
     if (args.enableAudit) {
-      await ctx.db.insert("auditLog", {
-        timestamp: Date.now(),
-        action: toRemove.effect === "allow" ? "permission_denied" : "permission_granted",
+      await writeAuditEntry(ctx, {
+        action: "permission_revoked",
         userId: args.userId,
         actorId: args.removedBy,
         details: {
           permission: args.permission,
           scope: args.scope,
           reason: "Override removed",
+          before: {
+            effect: toRemove.effect,
+            reason: toRemove.reason,
+            expiresAt: toRemove.expiresAt,
+          },
         },
       });
     }
@@ -618,7 +625,11 @@ export const logPermissionCheck = mutation({
 });
 
 /**
- * Clean up expired role assignments and permission overrides
+ * Sweep expired role assignments and permission overrides
+ * Expiry normally happens on schedule; this is a fallback (e.g. from a cron).
+ * Also purges revoked rows older than the history retention window.
+ * Processes one batch and schedules further batches while rows remain.
+ * Counts cover the first batch only.
  */
 export const cleanupExpired = mutation({
   args: {},
@@ -627,26 +638,13 @@ export const cleanupExpired = mutation({
     expiredOverrides: v.number(),
   }),
   handler: async (ctx) => {
-    const now = Date.now();
-    let expiredRoles = 0;
-    let expiredOverrides = 0;
-
-    // Clean up expired role assignments
-    const allRoleAssignments = await ctx.db.query("roleAssignments").collect();
-    for (const assignment of allRoleAssignments) {
-      if (assignment.expiresAt && assignment.expiresAt < now) {
-        await ctx.db.delete(assignment._id);
-        expiredRoles++;
-      }
-    }
+    const { expiredRoles, expiredOverrides, hasMore } =
+      await sweepExpiredAssignments(ctx);
 
-    // Clean up expired permission overrides
-    const allOverrides = await ctx.db.query("permissionOverrides").collect();
-    for (const override of allOverrides) {
-      if (override.expiresAt && override.expiresAt < now) {
-        await ctx.db.delete(override._id);
-        expiredOverrides++;
-      }
+    if (hasMore) {
+      await ctx.scheduler.runAfter(0, internal.expiry.continueSweep, {
+        strategy: "standard",
+      });
     }
 
     return { expiredRoles, expiredOverrides };
@@ -657,6 +655,24 @@ export const cleanupExpired = mutation({
 // Dynamic Role Definition Mutations
 // ============================================================================
 
+/**
+ * Audit snapshot of a role definition's grants and metadata
+ */
+function roleSnapshot(
+  role: Pick<
+    Doc<"roleDefinitions">,
+    "permissions" | "parentRole" | "isSystem" | "label" | "description"
+  >
+) {
+  return {
+    permissions: role.permissions,
+    parentRole: role.parentRole,
+    isSystem: role.isSystem,
+    label: role.label,
+    description: role.description,
+  };
+}
+
 /**
  * Create a new role definition (system or custom)
  */
@@ -675,6 +691,9 @@ export const createRoleDefinition = mutation({
     label: v.optional(v.string()),
     description: v.optional(v.string()),
     createdBy: v.optional(v.string()),
+    // Roles declared in the app's config, valid as parents without a stored definition
+    staticRoleNames: v.optional(v.array(v.string())),
+    enableAudit: v.optional(v.boolean()),
   },
   returns: v.string(),
   handler: async (ctx, args) => {
@@ -700,7 +719,7 @@ export const createRoleDefinition = mutation({
     }
 
     // If parentRole is specified, validate it exists
-    if (args.parentRole) {
+    if (args.parentRole && !args.staticRoleNames?.includes(args.parentRole)) {
       const parentRoleName = args.parentRole;
       const parentDefs = await ctx.db
         .query("roleDefinitions")
@@ -735,10 +754,88 @@ export const createRoleDefinition = mutation({
       updatedAt: now,
     });
 
+    if (args.enableAudit) {
+      await writeAuditEntry(ctx, {
+        action: "role_definition_created",
+        userId: roleAuditKey(args.name),
+        actorId: args.createdBy,
+        details: { role: args.name, scope: args.scope, after: roleSnapshot(args) },
+      });
+    }
+
     return roleId as string;
   },
 });
 
+/**
+ * Recompute indexed permissions for a role and every role inheriting from it.
+ * Each role is resolved and recomputed within its own scope. Parent chains
+ * ending in static config roles resolve from `staticRoles`, or else from
+ * the grants last synced with syncRolePermissions; with neither, the change
+ * is refused rather than dropping the grants those roles inherit.
+ */
+async function recomputeRoleDefinitions(
+  ctx: MutationCtx,
+  role: { name: string; scope?: { type: string; id: string } },
+  staticRoles?: Record<string, string[]>
+) {
+  const roleKey = (r: typeof role) =>
+    r.scope ? `${r.name}@${r.scope.type}:${r.scope.id}` : r.name;
+  const affected = [role];
+  const seen = new Set([roleKey(role)]);
+  for (let i = 0; i < affected.length; i++) {
+    const children = await ctx.db
+      .query("roleDefinitions")
+      .withIndex("by_parent_role", (q) => q.eq("parentRole", affected[i].name))
+      .collect();
+    for (const child of children) {
+      if (!seen.has(roleKey(child))) {
+        seen.add(roleKey(child));
+        affected.push(child);
+      }
+    }
+  }
+
+  const rolePermissions =
+    staticRoles ?? (await ctx.db.query("indexedConfig").first())?.rolePermissions;
+
+  const byScope = new Map<string, Record<string, string[]>>();
+  for (const def of affected) {
+    const scopeKey = def.scope ? `${def.scope.type}:${def.scope.id}` : "";
+    const resolved = await resolveRoleDefinition(
+      ctx,
+      def.name,
+      def.scope,
+      rolePermissions
+    );
+
+    const top = resolved.inheritedFrom[resolved.inheritedFrom.length - 1];
+    if (
+      top &&
+      !rolePermissions?.[top] &&
+      !(await findRoleDefinition(ctx, top, def.scope))
+    ) {
+      throw new ConvexError({
+        code: "MISSING_STATIC_ROLES",
+        message: `Role "${def.name}" inherits from "${top}", which has no stored definition; pass staticRoles or sync the config first`,
+      });
+    }
+
+    byScope.set(scopeKey, {
+      ...byScope.get(scopeKey),
+      [def.name]: resolved.permissions,
+    });
+  }
+
+  for (const [scopeKey, grants] of byScope) {
+    await startRecompute(ctx, {
+      trigger: "role_definition",
+      rolePermissions: grants,
+      scopeKey: scopeKey || undefined,
+    });
+  }
+}
+
 /**
  * Update a role definition (custom roles only)
  */
@@ -750,6 +847,9 @@ export const updateRoleDefinition = mutation({
     label: v.optional(v.string()),
     description: v.optional(v.string()),
     updatedBy: v.optional(v.string()),
+    // Static role -> permissions map, for parent chains ending in config roles
+    staticRoles: v.optional(v.record(v.string(), v.array(v.string()))),
+    enableAudit: v.optional(v.boolean()),
   },
   returns: v.boolean(),
   handler: async (ctx, args) => {
@@ -792,6 +892,26 @@ export const updateRoleDefinition = mutation({
     }
 
     await ctx.db.patch(args.roleId, updates);
+
+    if (args.enableAudit) {
+      await writeAuditEntry(ctx, {
+        action: "role_definition_updated",
+        userId: roleAuditKey(role.name),
+        actorId: args.updatedBy,
+        details: {
+          role: role.name,
+          scope: role.scope,
+          before: roleSnapshot(role),
+          after: roleSnapshot({ ...role, ...updates }),
+        },
+      });
+    }
+
+    // Grants changed: rebuild indexed permissions of existing assignments
+    if (args.permissions !== undefined || args.parentRole !== undefined) {
+      await recomputeRoleDefinitions(ctx, role, args.staticRoles);
+    }
+
     return true;
   },
 });
@@ -803,6 +923,9 @@ export const deleteRoleDefinition = mutation({
   args: {
     roleId: v.id("roleDefinitions"),
     deletedBy: v.optional(v.string()),
+    // Static role -> permissions map, for parent chains ending in config roles
+    staticRoles: v.optional(v.record(v.string(), v.array(v.string()))),
+    enableAudit: v.optional(v.boolean()),
   },
   returns: v.boolean(),
   handler: async (ctx, args) => {
@@ -821,7 +944,7 @@ export const deleteRoleDefinition = mutation({
     // Check if any roles inherit from this one
     const childRoles = await ctx.db
       .query("roleDefinitions")
-      .filter((q) => q.eq(q.field("parentRole"), role.name))
+      .withIndex("by_parent_role", (q) => q.eq("parentRole", role.name))
       .collect();
 
     if (childRoles.length > 0) {
@@ -831,10 +954,22 @@ export const deleteRoleDefinition = mutation({
       });
     }
 
-    // Optionally: revoke all assignments of this role
-    // For now, we'll leave assignments orphaned (they won't grant permissions)
-
+    // Assignments are left in place; they grant nothing once the definition is gone
     await ctx.db.delete(args.roleId);
+
+    if (args.enableAudit) {
+      await writeAuditEntry(ctx, {
+        action: "role_definition_deleted",
+        userId: roleAuditKey(role.name),
+        actorId: args.deletedBy,
+        details: { role: role.name, scope: role.scope, before: roleSnapshot(role) },
+      });
+    }
+
+    // Drop the indexed permissions the role produced (resolves to whatever
+    // definition, if any, still applies in its scope)
+    await recomputeRoleDefinitions(ctx, role, args.staticRoles);
+
     return true;
   },
 });
@@ -854,6 +989,8 @@ export const syncSystemRoles = mutation({
         description: v.optional(v.string()),
       })
     ),
+    syncedBy: v.optional(v.string()),
+    enableAudit: v.optional(v.boolean()),
   },
   returns: v.object({
     created: v.number(),
@@ -883,6 +1020,20 @@ export const syncSystemRoles = mutation({
             updatedAt: now,
           });
           updated++;
+
+          if (args.enableAudit) {
+            await writeAuditEntry(ctx, {
+              action: "role_definition_updated",
+              userId: roleAuditKey(role.name),
+              actorId: args.syncedBy,
+              details: {
+                role: role.name,
+                before: roleSnapshot(existing),
+                after: roleSnapshot({ ...role, isSystem: true }),
+                reason: "System roles synced",
+              },
+            });
+          }
         }
       } else {
         // Create new system role
@@ -898,6 +1049,19 @@ export const syncSystemRoles = mutation({
           updatedAt: now,
         });
         created++;
+
+        if (args.enableAudit) {
+          await writeAuditEntry(ctx, {
+            action: "role_definition_created",
+            userId: roleAuditKey(role.name),
+            actorId: args.syncedBy,
+            details: {
+              role: role.name,
+              after: roleSnapshot({ ...role, isSystem: true }),
+              reason: "System roles synced",
+            },
+          });
+        }
       }
     }
 
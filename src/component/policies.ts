@@ -0,0 +1,378 @@
+/**
+ * Policies
+ *
+ * ABAC policies with JSON conditions (see conditions.ts), stored per
+ * permission pattern and evaluated inside checkPermission and
+ * checkPermissionFast. Policies from the client config that use JSON
+ * conditions are passed in with each check and evaluated the same way;
+ * closure conditions are still evaluated by the client.
+ *
+ * Every policy matching a permission is evaluated, and the decisions are
+ * combined with a configurable algorithm (deny-overrides by default).
+ *
+ * Policies without a scope are system policies. Tenants can attach policies
+ * to a scope (e.g. their org); these only ever narrow access: they must be
+ * deny policies and deny whatever the combining algorithm.
+ */
+
+import { v, ConvexError, type Infer } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
+import { mutation, query, type QueryCtx } from "./_generated/server";
+import { policyAuditKey, writeAuditEntry } from "./audit";
+import {
+  evaluateCondition,
+  referencesResource,
+  validateCondition,
+  type Condition,
+  type ConditionContext,
+} from "./conditions";
+import {
+  combinePolicyDecisions,
+  policyPatterns,
+  type PolicyCombiningAlgorithm,
+} from "./helpers";
+
+const policyEffectValidator = v.union(v.literal("allow"), v.literal("deny"));
+
+export const policyCombiningValidator = v.union(
+  v.literal("deny-overrides"),
+  v.literal("permit-overrides"),
+  v.literal("first-applicable")
+);
+
+const scopeValidator = v.object({
+  type: v.string(),
+  id: v.string(),
+});
+
+/**
+ * A policy sent with a check (from the client config)
+ */
+export const policyInputValidator = v.object({
+  condition: v.any(),
+  effect: v.optional(policyEffectValidator),
+  message: v.optional(v.string()),
+});
+
+export const policyDecisionValidator = v.object({
+  key: v.string(),
+  effect: policyEffectValidator,
+  passed: v.boolean(),
+  message: v.optional(v.string()),
+  // Set for tenant policies
+  scope: v.optional(scopeValidator),
+});
+
+export const resourceContextValidator = v.object({
+  type: v.string(),
+  id: v.string(),
+  attributes: v.optional(v.any()),
+});
+
+export const environmentContextValidator = v.object({
+  ip: v.optional(v.string()),
+  timestamp: v.optional(v.number()),
+});
+
+export const subjectContextValidator = v.object({
+  roles: v.optional(v.array(v.string())),
+  attributes: v.optional(v.any()),
+});
+
+const storedPolicyValidator = v.object({
+  _id: v.string(),
+  permission: v.string(),
+  scope: v.optional(scopeValidator),
+  condition: v.any(),
+  effect: policyEffectValidator,
+  message: v.optional(v.string()),
+  createdBy: v.optional(v.string()),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
+
+type PolicyInput = Infer<typeof policyInputValidator>;
+type PolicyDecision = Infer<typeof policyDecisionValidator>;
+type PolicyScope = Infer<typeof scopeValidator>;
+
+type PolicyCheckResult = {
+  allowed: boolean;
+  reason: string;
+  matchedOverride?: string;
+  policies?: PolicyDecision[];
+  missingResourceAttributes?: boolean;
+};
+
+/**
+ * Load the stored policy for a pattern in a scope (undefined = system)
+ */
+async function getStoredPolicy(
+  ctx: QueryCtx,
+  permission: string,
+  scope: PolicyScope | undefined
+) {
+  return await ctx.db
+    .query("policies")
+    .withIndex("by_permission_and_scope", (q) =>
+      q
+        .eq("permission", permission)
+        .eq("scope.type", scope?.type)
+        .eq("scope.id", scope?.id)
+    )
+    .unique();
+}
+
+async function loadAttributes(
+  ctx: QueryCtx,
+  userId: string
+): Promise<Record<string, unknown>> {
+  const rows = await ctx.db
+    .query("userAttributes")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  return Object.fromEntries(rows.map((row) => [row.key, row.value]));
+}
+
+function decide(
+  key: string,
+  policy: PolicyInput,
+  context: ConditionContext,
+  scope?: PolicyScope
+): PolicyDecision {
+  return {
+    key,
+    effect: policy.effect ?? "deny",
+    passed: evaluateCondition(policy.condition as Condition, context),
+    message: policy.message,
+    scope,
+  };
+}
+
+/**
+ * Evaluate every system policy matching the permission, then every tenant
+ * policy on the checked scope and its ancestors, and combine their
+ * decisions with the check result (see combinePolicyDecisions).
+ * For each pattern a stored policy wins over a config policy, which wins
+ * over a decision the client made for a closure policy.
+ */
+export async function applyPolicy<T extends PolicyCheckResult>(
+  ctx: QueryCtx,
+  base: T,
+  input: {
+    userId: string;
+    permission: string;
+    // Or a loader, only called when a policy needs the context
+    roles: string[] | (() => Promise<string[]>);
+    scope?: PolicyScope;
+    ancestors?: PolicyScope[];
+    configPolicies?: Record<string, PolicyInput>;
+    clientDecisions?: PolicyDecision[];
+    combining?: PolicyCombiningAlgorithm;
+    resource?: Infer<typeof resourceContextValidator>;
+    environment?: Infer<typeof environmentContextValidator>;
+    subject?: Infer<typeof subjectContextValidator>;
+  }
+): Promise<T> {
+  // Built on first use, so checks without a policy skip the attribute read
+  let context: ConditionContext | undefined;
+  const getContext = async (): Promise<ConditionContext> => {
+    context ??= {
+      subject: {
+        userId: input.userId,
+        roles:
+          input.subject?.roles ??
+          (typeof input.roles === "function" ? await input.roles() : input.roles),
+        attributes:
+          input.subject?.attributes ?? (await loadAttributes(ctx, input.userId)),
+      },
+      resource: input.resource,
+      environment: {
+        timestamp: input.environment?.timestamp ?? Date.now(),
+        ip: input.environment?.ip,
+      },
+      action: input.permission,
+    };
+    return context;
+  };
+
+  // The client loads resource attributes only when a policy reads them
+  let missingResourceAttributes = false;
+  const evaluate = async (key: string, policy: PolicyInput, scope?: PolicyScope) => {
+    if (!input.resource?.attributes && referencesResource(policy.condition as Condition)) {
+      missingResourceAttributes = true;
+    }
+    return decide(key, policy, await getContext(), scope);
+  };
+
+  const patterns = policyPatterns(input.permission);
+  const decisions: PolicyDecision[] = [];
+
+  for (const pattern of patterns) {
+    const stored = await getStoredPolicy(ctx, pattern, undefined);
+    const configured = input.configPolicies?.[pattern];
+    if (stored) {
+      decisions.push(await evaluate(pattern, stored));
+    } else if (configured) {
+      validateCondition(configured.condition, `policies["${pattern}"].condition`);
+      decisions.push(await evaluate(pattern, configured));
+    } else {
+      const client = input.clientDecisions?.find((d) => d.key === pattern);
+      if (client) decisions.push(client);
+    }
+  }
+
+  // Nearest scope first
+  for (const scope of input.scope ? [input.scope, ...(input.ancestors ?? [])] : []) {
+    for (const pattern of patterns) {
+      const stored = await getStoredPolicy(ctx, pattern, scope);
+      if (stored) {
+        decisions.push(await evaluate(pattern, stored, scope));
+      }
+    }
+  }
+
+  const result = combinePolicyDecisions(base, decisions, input.combining);
+  return missingResourceAttributes ? { ...result, missingResourceAttributes } : result;
+}
+
+// ============================================================================
+// Stored Policies
+// ============================================================================
+
+function policySnapshot(policy: Doc<"policies">) {
+  return {
+    condition: policy.condition,
+    effect: policy.effect,
+    message: policy.message,
+  };
+}
+
+/**
+ * List stored policies for a scope, or the system policies without one
+ */
+export const listPolicies = query({
+  args: {
+    scope: v.optional(scopeValidator),
+  },
+  returns: v.array(storedPolicyValidator),
+  handler: async (ctx, args) => {
+    const policies = await ctx.db
+      .query("policies")
+      .withIndex("by_scope", (q) =>
+        q.eq("scope.type", args.scope?.type).eq("scope.id", args.scope?.id)
+      )
+      .collect();
+    return policies.map((p) => ({
+      _id: p._id as string,
+      permission: p.permission,
+      scope: p.scope,
+      condition: p.condition,
+      effect: p.effect,
+      message: p.message,
+      createdBy: p.createdBy,
+      createdAt: p.createdAt,
+      updatedAt: p.updatedAt,
+    }));
+  },
+});
+
+/**
+ * Create or replace the policy for a permission pattern
+ * System policies have no scope. Tenant policies are attached to a scope
+ * (e.g. an org) and must be deny policies, so they can only narrow access.
+ */
+export const setPolicy = mutation({
+  args: {
+    permission: v.string(),
+    scope: v.optional(scopeValidator),
+    condition: v.any(),
+    effect: v.optional(policyEffectValidator),
+    message: v.optional(v.string()),
+    updatedBy: v.optional(v.string()),
+    enableAudit: v.optional(v.boolean()),
+  },
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    validateCondition(args.condition);
+
+    const effect = args.effect ?? "deny";
+    if (args.scope && effect !== "deny") {
+      throw new ConvexError({
+        code: "INVALID_POLICY",
+        message: "Scoped policies can only narrow access and must use the deny effect",
+      });
+    }
+
+    const policy = {
+      condition: args.condition,
+      effect,
+      message: args.message,
+    };
+    const existing = await getStoredPolicy(ctx, args.permission, args.scope);
+
+    let policyId;
+    if (existing) {
+      policyId = existing._id;
+      await ctx.db.patch(existing._id, { ...policy, updatedAt: Date.now() });
+    } else {
+      policyId = await ctx.db.insert("policies", {
+        permission: args.permission,
+        scope: args.scope,
+        ...policy,
+        createdBy: args.updatedBy,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+    }
+
+    if (args.enableAudit) {
+      await writeAuditEntry(ctx, {
+        action: existing ? "policy_updated" : "policy_created",
+        userId: policyAuditKey(args.permission),
+        actorId: args.updatedBy,
+        details: {
+          permission: args.permission,
+          scope: args.scope,
+          before: existing ? policySnapshot(existing) : undefined,
+          after: policy,
+        },
+      });
+    }
+
+    return policyId as string;
+  },
+});
+
+/**
+ * Delete the policy for a permission pattern in a scope (or the system policy)
+ */
+export const deletePolicy = mutation({
+  args: {
+    permission: v.string(),
+    scope: v.optional(scopeValidator),
+    deletedBy: v.optional(v.string()),
+    enableAudit: v.optional(v.boolean()),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const existing = await getStoredPolicy(ctx, args.permission, args.scope);
+    if (!existing) return false;
+
+    await ctx.db.delete(existing._id);
+
+    if (args.enableAudit) {
+      await writeAuditEntry(ctx, {
+        action: "policy_deleted",
+        userId: policyAuditKey(args.permission),
+        actorId: args.deletedBy,
+        details: {
+          permission: args.permission,
+          scope: args.scope,
+          before: policySnapshot(existing),
+        },
+      });
+    }
+
+    return true;
+  },
+});
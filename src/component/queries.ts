@@ -1,10 +1,51 @@
-import { v } from "convex/values";
-import { query } from "./_generated/server";
+import { v, type Infer } from "convex/values";
 import {
-  isExpired,
+  paginationOptsValidator,
+  paginationResultValidator,
+} from "convex/server";
+import { query, type QueryCtx } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import {
+  isActive,
   matchesScope,
   matchesPermissionPattern,
+  roleIncludes,
+  wasActiveAt,
 } from "./helpers";
+import { assertWithinRetention } from "./history";
+import {
+  applyPolicy,
+  environmentContextValidator,
+  policyCombiningValidator,
+  policyDecisionValidator,
+  policyInputValidator,
+  resourceContextValidator,
+  subjectContextValidator,
+} from "./policies";
+import { traverseRelation } from "./rebac";
+import { auditActionValidator } from "./schema";
+import { loadScopeAncestors } from "./scopes";
+
+const attributeValidator = v.object({
+  _id: v.string(),
+  key: v.string(),
+  value: v.any(),
+});
+
+const roleHolderValidator = v.object({
+  userId: v.string(),
+  assignedAt: v.number(),
+  expiresAt: v.optional(v.number()),
+});
+
+const auditEntryValidator = v.object({
+  _id: v.string(),
+  timestamp: v.number(),
+  action: v.string(),
+  userId: v.string(),
+  actorId: v.optional(v.string()),
+  details: v.any(), // Still using v.any() validator, but returns as specific type
+});
 
 /**
  * Get all role assignments for a user
@@ -40,9 +81,13 @@ export const getUserRoles = query({
       .collect();
 
     // Filter out expired assignments and optionally filter by scope
+    // (including roles inherited from ancestor scopes)
+    const ancestors = await loadScopeAncestors(ctx, args.scope);
     const validAssignments = assignments.filter((a) => {
-      if (isExpired(a.expiresAt)) return false;
-      if (args.scope && !matchesScope(a.scope, args.scope)) return false;
+      if (!isActive(a)) return false;
+      if (args.scope && !matchesScope(a.scope, args.scope, ancestors)) {
+        return false;
+      }
       return true;
     });
 
@@ -79,14 +124,75 @@ export const hasRole = query({
       )
       .collect();
 
-    // Check for valid assignment with matching scope
+    // Check for valid assignment with matching (or ancestor) scope
+    const ancestors = await loadScopeAncestors(ctx, args.scope);
     return assignments.some((a) => {
-      if (isExpired(a.expiresAt)) return false;
-      return matchesScope(a.scope, args.scope);
+      if (!isActive(a)) return false;
+      return matchesScope(a.scope, args.scope, ancestors);
     });
   },
 });
 
+/**
+ * Parent of each configured role (its `inherits`), null at the top
+ */
+export const roleParentsValidator = v.record(
+  v.string(),
+  v.union(v.string(), v.null())
+);
+
+/**
+ * Check if any held role is at least `role` in the role hierarchy.
+ * Configured roles follow `roleParents`; other roles follow the parentRole
+ * of their stored definition in the scope they were assigned in.
+ */
+export async function holdsRoleAtLeast(
+  ctx: Pick<QueryCtx, "db">,
+  held: Array<{ role: string; scope?: CheckScope }>,
+  role: string,
+  roleParents: Infer<typeof roleParentsValidator> = {}
+): Promise<boolean> {
+  for (const assignment of held) {
+    const getParent = async (name: string) => {
+      if (name in roleParents) return roleParents[name] ?? undefined;
+      const roleDef = await findRoleDefinition(ctx, name, assignment.scope);
+      return roleDef?.parentRole;
+    };
+    if (await roleIncludes(assignment.role, role, getParent)) return true;
+  }
+  return false;
+}
+
+/**
+ * Check if a user holds a role, or one inheriting from it, in a scope
+ */
+export const isAtLeast = query({
+  args: {
+    userId: v.string(),
+    role: v.string(),
+    scope: v.optional(
+      v.object({
+        type: v.string(),
+        id: v.string(),
+      })
+    ),
+    roleParents: v.optional(roleParentsValidator),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const assignments = await ctx.db
+      .query("roleAssignments")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+
+    const ancestors = await loadScopeAncestors(ctx, args.scope);
+    const held = assignments.filter(
+      (a) => isActive(a) && matchesScope(a.scope, args.scope, ancestors)
+    );
+    return await holdsRoleAtLeast(ctx, held, args.role, args.roleParents);
+  },
+});
+
 /**
  * Get all user attributes
  */
@@ -94,13 +200,7 @@ export const getUserAttributes = query({
   args: {
     userId: v.string(),
   },
-  returns: v.array(
-    v.object({
-      _id: v.string(),
-      key: v.string(),
-      value: v.any(),
-    })
-  ),
+  returns: v.array(attributeValidator),
   handler: async (ctx, args) => {
     const attributes = await ctx.db
       .query("userAttributes")
@@ -115,6 +215,32 @@ export const getUserAttributes = query({
   },
 });
 
+/**
+ * Page through a user's attributes
+ */
+export const getUserAttributesPage = query({
+  args: {
+    userId: v.string(),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(attributeValidator),
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("userAttributes")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .paginate(args.paginationOpts);
+
+    return {
+      ...result,
+      page: result.page.map((a) => ({
+        _id: a._id as string,
+        key: a.key,
+        value: a.value,
+      })),
+    };
+  },
+});
+
 /**
  * Get a specific user attribute
  */
@@ -176,8 +302,8 @@ export const getPermissionOverrides = query({
         .collect();
     }
 
-    // Filter out expired overrides
-    const validOverrides = overrides.filter((o) => !isExpired(o.expiresAt ?? undefined));
+    // Filter out revoked and expired overrides
+    const validOverrides = overrides.filter((o) => isActive(o));
 
     return validOverrides.map((o) => ({
       _id: o._id as string,
@@ -190,104 +316,436 @@ export const getPermissionOverrides = query({
   },
 });
 
+const scopeValidator = v.object({
+  type: v.string(),
+  id: v.string(),
+});
+
+const checkResultValidator = v.object({
+  allowed: v.boolean(),
+  reason: v.string(),
+  matchedRole: v.optional(v.string()),
+  matchedOverride: v.optional(v.string()),
+  matchedRelation: v.optional(v.string()),
+  // Scope of the matched role or override (the checked scope or an ancestor)
+  matchedScope: v.optional(scopeValidator),
+  path: v.optional(v.array(v.string())),
+  // Every matching policy, in the order they were combined
+  policies: v.optional(v.array(policyDecisionValidator)),
+  // A policy read resource attributes the check was not given
+  missingResourceAttributes: v.optional(v.boolean()),
+});
+
+const asOfCheckResultValidator = v.object({
+  ...checkResultValidator.fields,
+  asOf: v.object({
+    timestamp: v.number(),
+    // Inputs of checkPermission that are skipped entirely
+    notEvaluated: v.array(v.string()),
+    // Inputs read as they are now rather than at the timestamp
+    readAsCurrent: v.array(v.string()),
+  }),
+});
+
+type CheckScope = { type: string; id: string } | undefined;
+type CheckResult = Infer<typeof checkResultValidator>;
+
 /**
- * Check if a user has a specific permission
- * This is the core permission check query that evaluates:
- * 1. Permission overrides (explicit allow/deny)
- * 2. Role-based permissions (using provided role definitions)
+ * A role assignment with the permissions its role grants in that scope
  */
-export const checkPermission = query({
-  args: {
-    userId: v.string(),
-    permission: v.string(),
-    scope: v.optional(
-      v.object({
-        type: v.string(),
-        id: v.string(),
-      })
-    ),
-    rolePermissions: v.record(v.string(), v.array(v.string())), // Role -> Permissions mapping
-  },
-  returns: v.object({
-    allowed: v.boolean(),
-    reason: v.string(),
-    matchedRole: v.optional(v.string()),
-    matchedOverride: v.optional(v.string()),
-  }),
-  handler: async (ctx, args) => {
-    // Step 1: Check permission overrides
-    const overrides = await ctx.db
-      .query("permissionOverrides")
-      .withIndex("by_user", (q) => q.eq("userId", args.userId))
-      .collect();
+type RoleGrant = {
+  role: string;
+  scope?: { type: string; id: string };
+  permissions: string[];
+};
 
-    const validOverrides = overrides.filter((o) => !isExpired(o.expiresAt));
+/**
+ * Resolve the permissions granted by each assignment.
+ * Static roles from the config win; other roles are resolved from
+ * roleDefinitions in the assignment's scope, following parentRole chains.
+ */
+async function resolveAssignmentGrants(
+  ctx: QueryCtx,
+  assignments: Doc<"roleAssignments">[],
+  rolePermissions: Record<string, string[]>
+): Promise<RoleGrant[]> {
+  const resolved = new Map<string, string[]>();
+  const grants: RoleGrant[] = [];
 
-    // Check for explicit deny first
-    for (const override of validOverrides) {
-      if (
-        override.effect === "deny" &&
-        matchesPermissionPattern(args.permission, override.permission) &&
-        matchesScope(override.scope, args.scope)
-      ) {
+  for (const assignment of assignments) {
+    const cacheKey = assignment.scope
+      ? `${assignment.role}@${assignment.scope.type}:${assignment.scope.id}`
+      : assignment.role;
+
+    let permissions = resolved.get(cacheKey);
+    if (!permissions) {
+      permissions = (
+        await resolveRoleDefinition(ctx, assignment.role, assignment.scope, rolePermissions)
+      ).permissions;
+      resolved.set(cacheKey, permissions);
+    }
+
+    grants.push({ role: assignment.role, scope: assignment.scope, permissions });
+  }
+
+  return grants;
+}
+
+/**
+ * Evaluate a single permission against pre-loaded overrides and role
+ * grants. Shared by checkPermission and checkPermissions so batch
+ * checks only read the user's rows once.
+ */
+function evaluatePermission(
+  overrides: Doc<"permissionOverrides">[],
+  roles: RoleGrant[],
+  permission: string,
+  scope: CheckScope,
+  ancestors: Array<NonNullable<CheckScope>> = []
+): CheckResult {
+  // Step 1: Check for explicit deny first
+  for (const override of overrides) {
+    if (
+      override.effect === "deny" &&
+      matchesPermissionPattern(permission, override.permission) &&
+      matchesScope(override.scope, scope, ancestors)
+    ) {
+      return {
+        allowed: false,
+        reason: override.reason ?? "Explicitly denied by override",
+        matchedOverride: override._id as string,
+        matchedScope: override.scope,
+      };
+    }
+  }
+
+  // Check for explicit allow
+  for (const override of overrides) {
+    if (
+      override.effect === "allow" &&
+      matchesPermissionPattern(permission, override.permission) &&
+      matchesScope(override.scope, scope, ancestors)
+    ) {
+      return {
+        allowed: true,
+        reason: override.reason ?? "Explicitly allowed by override",
+        matchedOverride: override._id as string,
+        matchedScope: override.scope,
+      };
+    }
+  }
+
+  // Step 2: Check if any role grants the permission
+  for (const grant of roles) {
+    if (!matchesScope(grant.scope, scope, ancestors)) continue;
+    for (const rolePerm of grant.permissions) {
+      if (matchesPermissionPattern(permission, rolePerm)) {
         return {
-          allowed: false,
-          reason: override.reason ?? "Explicitly denied by override",
-          matchedOverride: override._id as string,
+          allowed: true,
+          reason: `Granted by role: ${grant.role}`,
+          matchedRole: grant.role,
+          matchedScope: grant.scope,
         };
       }
     }
+  }
 
-    // Check for explicit allow
-    for (const override of validOverrides) {
-      if (
-        override.effect === "allow" &&
-        matchesPermissionPattern(args.permission, override.permission) &&
-        matchesScope(override.scope, args.scope)
-      ) {
+  // No permission found
+  return {
+    allowed: false,
+    reason: "No role or override grants this permission",
+  };
+}
+
+/**
+ * Step 3: Check whether a relation on the scoped object grants the permission
+ * e.g. { "documents:delete": ["owner", "editor"] } with scope document:42
+ * grants delete to anyone who is (directly or via traversal) owner of it.
+ */
+async function evaluateRelationGrant(
+  ctx: QueryCtx,
+  userId: string,
+  permission: string,
+  scope: CheckScope,
+  permissionRelations: Record<string, string[]>,
+  traversalRules: unknown,
+  environment?: Infer<typeof environmentContextValidator>
+): Promise<CheckResult | null> {
+  if (!scope) return null;
+
+  for (const [pattern, relations] of Object.entries(permissionRelations)) {
+    if (!matchesPermissionPattern(permission, pattern)) continue;
+
+    for (const relation of relations) {
+      const result = await traverseRelation(ctx, {
+        subjectType: "user",
+        subjectId: userId,
+        relation,
+        objectType: scope.type,
+        objectId: scope.id,
+        traversalRules,
+        environment,
+      });
+
+      if (result.allowed) {
         return {
           allowed: true,
-          reason: override.reason ?? "Explicitly allowed by override",
-          matchedOverride: override._id as string,
+          reason: `Granted by relation: ${relation}`,
+          matchedRelation: relation,
+          path: result.path,
         };
       }
     }
+  }
 
-    // Step 2: Check role-based permissions
-    const roleAssignments = await ctx.db
-      .query("roleAssignments")
-      .withIndex("by_user", (q) => q.eq("userId", args.userId))
-      .collect();
+  return null;
+}
 
-    const validAssignments = roleAssignments.filter((a) => {
-      if (isExpired(a.expiresAt)) return false;
-      return matchesScope(a.scope, args.scope);
-    });
+/**
+ * Run the full check for one permission: overrides, roles, then relations
+ * The scope's ancestors are loaded by the caller, which reuses them.
+ */
+async function checkOne(
+  ctx: QueryCtx,
+  grants: { overrides: Doc<"permissionOverrides">[]; roles: RoleGrant[] },
+  ancestors: Array<NonNullable<CheckScope>>,
+  args: {
+    userId: string;
+    permission: string;
+    scope?: CheckScope;
+    permissionRelations?: Record<string, string[]>;
+    traversalRules?: unknown;
+    environment?: Infer<typeof environmentContextValidator>;
+  }
+): Promise<CheckResult> {
+  const result = evaluatePermission(
+    grants.overrides,
+    grants.roles,
+    args.permission,
+    args.scope,
+    ancestors
+  );
 
-    // Check if any role grants the permission
-    for (const assignment of validAssignments) {
-      const rolePerms = args.rolePermissions[assignment.role];
-      if (rolePerms) {
-        for (const rolePerm of rolePerms) {
-          if (matchesPermissionPattern(args.permission, rolePerm)) {
-            return {
-              allowed: true,
-              reason: `Granted by role: ${assignment.role}`,
-              matchedRole: assignment.role,
-            };
-          }
-        }
-      }
-    }
+  // Overrides (including explicit denies) and roles take precedence
+  if (result.allowed || result.matchedOverride || !args.permissionRelations) {
+    return result;
+  }
+
+  const relationGrant = await evaluateRelationGrant(
+    ctx,
+    args.userId,
+    args.permission,
+    args.scope,
+    args.permissionRelations,
+    args.traversalRules,
+    args.environment
+  );
+
+  return relationGrant ?? result;
+}
+
+/**
+ * Run the full check, then combine every matching policy (stored, passed
+ * in from the client config, or decided by the client) and any tenant
+ * policies on the scope
+ */
+async function checkWithPolicy(
+  ctx: QueryCtx,
+  grants: { overrides: Doc<"permissionOverrides">[]; roles: RoleGrant[] },
+  args: {
+    userId: string;
+    permission: string;
+    scope?: CheckScope;
+    permissionRelations?: Record<string, string[]>;
+    traversalRules?: unknown;
+    policies?: Record<string, Infer<typeof policyInputValidator>>;
+    policyDecisions?: Infer<typeof policyDecisionValidator>[];
+    policyCombining?: Infer<typeof policyCombiningValidator>;
+    resource?: Infer<typeof resourceContextValidator>;
+    environment?: Infer<typeof environmentContextValidator>;
+    subject?: Infer<typeof subjectContextValidator>;
+  }
+): Promise<CheckResult> {
+  const ancestors = await loadScopeAncestors(ctx, args.scope);
+  const result = await checkOne(ctx, grants, ancestors, args);
 
-    // No permission found
+  const roles = grants.roles
+    .filter((grant) => matchesScope(grant.scope, args.scope, ancestors))
+    .map((grant) => grant.role);
+
+  return await applyPolicy(ctx, result, {
+    userId: args.userId,
+    permission: args.permission,
+    roles,
+    scope: args.scope,
+    ancestors,
+    configPolicies: args.policies,
+    clientDecisions: args.policyDecisions,
+    combining: args.policyCombining,
+    resource: args.resource,
+    environment: args.environment,
+    subject: args.subject,
+  });
+}
+
+/**
+ * Load the user's active overrides and resolved role grants, or those that
+ * were in effect at `asOf`
+ */
+async function loadUserGrants(
+  ctx: QueryCtx,
+  userId: string,
+  rolePermissions: Record<string, string[]>,
+  asOf?: number
+) {
+  const inEffect = (row: Doc<"roleAssignments"> | Doc<"permissionOverrides">) =>
+    asOf === undefined ? isActive(row) : wasActiveAt(row, asOf);
+
+  const overrides = await ctx.db
+    .query("permissionOverrides")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+
+  const roleAssignments = await ctx.db
+    .query("roleAssignments")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+
+  return {
+    overrides: overrides.filter(inEffect),
+    roles: await resolveAssignmentGrants(
+      ctx,
+      roleAssignments.filter(inEffect),
+      rolePermissions
+    ),
+  };
+}
+
+/**
+ * Check if a user has a specific permission
+ * This is the core permission check query that evaluates:
+ * 1. Permission overrides (explicit allow/deny)
+ * 2. Role-based permissions (using provided role definitions)
+ * 3. Relations on the scoped object
+ * 4. Every matching policy (stored, passed in from the client config, or
+ *    decided by the client for closures), combined with the configured
+ *    algorithm, then tenant policies attached to the scope or its ancestors
+ */
+export const checkPermission = query({
+  args: {
+    userId: v.string(),
+    permission: v.string(),
+    scope: v.optional(scopeValidator),
+    rolePermissions: v.record(v.string(), v.array(v.string())), // Role -> Permissions mapping
+    // Permission -> relations on the scoped object that grant it
+    permissionRelations: v.optional(v.record(v.string(), v.array(v.string()))),
+    traversalRules: v.optional(v.any()),
+    // Permission pattern -> JSON policy from the client config
+    policies: v.optional(v.record(v.string(), policyInputValidator)),
+    // Decisions of closure policies the client evaluated
+    policyDecisions: v.optional(v.array(policyDecisionValidator)),
+    policyCombining: v.optional(policyCombiningValidator),
+    resource: v.optional(resourceContextValidator),
+    environment: v.optional(environmentContextValidator),
+    subject: v.optional(subjectContextValidator),
+  },
+  returns: checkResultValidator,
+  handler: async (ctx, args) => {
+    const grants = await loadUserGrants(ctx, args.userId, args.rolePermissions);
+    return await checkWithPolicy(ctx, grants, args);
+  },
+});
+
+/**
+ * Check a permission as it stood at a past point in time
+ * Role assignments and overrides are evaluated by their validity intervals.
+ * Role definitions and scope hierarchy are read as they are now. Relations
+ * are not versioned and policies depend on live attributes, so neither is
+ * evaluated; the result's `asOf` lists both.
+ */
+export const checkPermissionAsOf = query({
+  args: {
+    userId: v.string(),
+    permission: v.string(),
+    scope: v.optional(scopeValidator),
+    rolePermissions: v.record(v.string(), v.array(v.string())),
+    timestamp: v.number(),
+  },
+  returns: asOfCheckResultValidator,
+  handler: async (ctx, args) => {
+    await assertWithinRetention(ctx, args.timestamp);
+    const grants = await loadUserGrants(
+      ctx,
+      args.userId,
+      args.rolePermissions,
+      args.timestamp
+    );
+    const ancestors = await loadScopeAncestors(ctx, args.scope);
+    const result = await checkOne(ctx, grants, ancestors, {
+      userId: args.userId,
+      permission: args.permission,
+      scope: args.scope,
+    });
     return {
-      allowed: false,
-      reason: "No role or override grants this permission",
+      ...result,
+      asOf: {
+        timestamp: args.timestamp,
+        notEvaluated: ["relations", "policies"],
+        readAsCurrent: ["roleDefinitions", "scopeHierarchy"],
+      },
     };
   },
 });
 
+/**
+ * Check many permissions for a user in a single query
+ * Overrides and role assignments are read once and reused for every item.
+ * Results are returned in the same order as the requested checks.
+ */
+export const checkPermissions = query({
+  args: {
+    userId: v.string(),
+    checks: v.array(
+      v.object({
+        permission: v.string(),
+        scope: v.optional(scopeValidator),
+        resource: v.optional(resourceContextValidator),
+        policyDecisions: v.optional(v.array(policyDecisionValidator)),
+      })
+    ),
+    rolePermissions: v.record(v.string(), v.array(v.string())),
+    permissionRelations: v.optional(v.record(v.string(), v.array(v.string()))),
+    traversalRules: v.optional(v.any()),
+    policies: v.optional(v.record(v.string(), policyInputValidator)),
+    policyCombining: v.optional(policyCombiningValidator),
+    environment: v.optional(environmentContextValidator),
+    subject: v.optional(subjectContextValidator),
+  },
+  returns: v.array(checkResultValidator),
+  handler: async (ctx, args) => {
+    const grants = await loadUserGrants(ctx, args.userId, args.rolePermissions);
+    const results: CheckResult[] = [];
+    for (const check of args.checks) {
+      results.push(
+        await checkWithPolicy(ctx, grants, {
+          userId: args.userId,
+          permission: check.permission,
+          scope: check.scope,
+          permissionRelations: args.permissionRelations,
+          traversalRules: args.traversalRules,
+          policies: args.policies,
+          policyDecisions: check.policyDecisions,
+          policyCombining: args.policyCombining,
+          resource: check.resource,
+          environment: args.environment,
+          subject: args.subject,
+        })
+      );
+    }
+    return results;
+  },
+});
+
 /**
  * Get all effective permissions for a user
  * Combines role-based permissions and overrides
@@ -315,21 +773,24 @@ export const getEffectivePermissions = query({
       .withIndex("by_user", (q) => q.eq("userId", args.userId))
       .collect();
 
+    const ancestors = await loadScopeAncestors(ctx, args.scope);
     const validAssignments = roleAssignments.filter((a) => {
-      if (isExpired(a.expiresAt)) return false;
-      return matchesScope(a.scope, args.scope);
+      if (!isActive(a)) return false;
+      return matchesScope(a.scope, args.scope, ancestors);
     });
 
     const roles: Array<string> = validAssignments.map((a) => a.role);
 
-    // Collect permissions from roles
+    // Collect permissions from roles (static and dynamic)
     const permissions = new Set<string>();
-    for (const role of roles) {
-      const rolePerms = args.rolePermissions[role];
-      if (rolePerms) {
-        for (const perm of rolePerms) {
-          permissions.add(perm);
-        }
+    const grants = await resolveAssignmentGrants(
+      ctx,
+      validAssignments,
+      args.rolePermissions
+    );
+    for (const grant of grants) {
+      for (const perm of grant.permissions) {
+        permissions.add(perm);
       }
     }
 
@@ -340,8 +801,8 @@ export const getEffectivePermissions = query({
       .collect();
 
     const validOverrides = overrides.filter((o) => {
-      if (isExpired(o.expiresAt)) return false;
-      return matchesScope(o.scope, args.scope);
+      if (!isActive(o)) return false;
+      return matchesScope(o.scope, args.scope, ancestors);
     });
 
     // Apply overrides
@@ -363,8 +824,84 @@ export const getEffectivePermissions = query({
   },
 });
 
+type HolderScope = { type: string; id: string } | undefined;
+
+/**
+ * Scopes whose assignments of a role hold in `scope`, in listing order:
+ * global first, then the scope itself and its ancestors, nearest first
+ */
+async function holderScopes(
+  ctx: QueryCtx,
+  scope: NonNullable<HolderScope>
+): Promise<HolderScope[]> {
+  return [undefined, scope, ...(await loadScopeAncestors(ctx, scope))];
+}
+
+/**
+ * Open assignments of a role in exactly one scope (undefined = global),
+ * in creation order, optionally after a creation time
+ */
+function holderQuery(
+  ctx: QueryCtx,
+  role: string,
+  scope: HolderScope,
+  after?: number
+) {
+  return ctx.db
+    .query("roleAssignments")
+    .withIndex("by_role_validity_scope", (q) => {
+      const inScope = q
+        .eq("role", role)
+        .eq("validTo", undefined)
+        .eq("scope.type", scope?.type)
+        .eq("scope.id", scope?.id);
+      return after === undefined ? inScope : inScope.gt("_creationTime", after);
+    })
+    .filter((q) =>
+      q.or(
+        q.eq(q.field("expiresAt"), undefined),
+        q.gt(q.field("expiresAt"), Date.now())
+      )
+    );
+}
+
+/**
+ * Whether the user also holds the role in one of `scopes`, so a later
+ * scope in the listing order skips them
+ */
+async function holdsRoleIn(
+  ctx: QueryCtx,
+  assignment: Doc<"roleAssignments">,
+  scopes: HolderScope[]
+): Promise<boolean> {
+  if (scopes.length === 0) return false;
+  const assignments = await ctx.db
+    .query("roleAssignments")
+    .withIndex("by_user_and_role", (q) =>
+      q.eq("userId", assignment.userId).eq("role", assignment.role)
+    )
+    .collect();
+  return assignments.some(
+    (a) =>
+      isActive(a) &&
+      scopes.some(
+        (scope) => a.scope?.type === scope?.type && a.scope?.id === scope?.id
+      )
+  );
+}
+
+function formatRoleHolder(a: Doc<"roleAssignments">) {
+  return {
+    userId: a.userId,
+    assignedAt: a._creationTime,
+    expiresAt: a.expiresAt,
+  };
+}
+
 /**
  * Get users with a specific role
+ * For a scope, global holders and holders on an ancestor are included, and
+ * each user is listed once.
  */
 export const getUsersWithRole = query({
   args: {
@@ -376,30 +913,92 @@ export const getUsersWithRole = query({
       })
     ),
   },
-  returns: v.array(
-    v.object({
-      userId: v.string(),
-      assignedAt: v.number(),
-      expiresAt: v.optional(v.number()),
-    })
-  ),
+  returns: v.array(roleHolderValidator),
   handler: async (ctx, args) => {
-    const assignments = await ctx.db
-      .query("roleAssignments")
-      .withIndex("by_role", (q) => q.eq("role", args.role))
-      .collect();
+    if (!args.scope) {
+      const assignments = await ctx.db
+        .query("roleAssignments")
+        .withIndex("by_role_validity_scope", (q) =>
+          q.eq("role", args.role).eq("validTo", undefined)
+        )
+        .collect();
+      return assignments.filter(isActive).map(formatRoleHolder);
+    }
 
-    const validAssignments = assignments.filter((a) => {
-      if (isExpired(a.expiresAt)) return false;
-      if (args.scope && !matchesScope(a.scope, args.scope)) return false;
-      return true;
-    });
+    const holders = new Map<string, Doc<"roleAssignments">>();
+    for (const scope of await holderScopes(ctx, args.scope)) {
+      for (const a of await holderQuery(ctx, args.role, scope).collect()) {
+        if (!holders.has(a.userId)) holders.set(a.userId, a);
+      }
+    }
+    return [...holders.values()].map(formatRoleHolder);
+  },
+});
 
-    return validAssignments.map((a) => ({
-      userId: a.userId,
-      assignedAt: a._creationTime,
-      expiresAt: a.expiresAt,
-    }));
+/**
+ * Page through users with a specific role
+ * A scoped listing walks the global holders, then the scope and each
+ * ancestor through an index per scope, so a page only reads assignments it
+ * can return. Users holding the role in an earlier scope of that order are
+ * skipped, so each user is listed once. The cursor records the scope being
+ * walked and the last assignment read in it.
+ */
+export const getUsersWithRolePage = query({
+  args: {
+    role: v.string(),
+    scope: v.optional(scopeValidator),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(roleHolderValidator),
+  handler: async (ctx, args) => {
+    if (!args.scope) {
+      const result = await ctx.db
+        .query("roleAssignments")
+        .withIndex("by_role_validity_scope", (q) =>
+          q.eq("role", args.role).eq("validTo", undefined)
+        )
+        .filter((q) =>
+          q.or(
+            q.eq(q.field("expiresAt"), undefined),
+            q.gt(q.field("expiresAt"), Date.now())
+          )
+        )
+        .paginate(args.paginationOpts);
+      return { ...result, page: result.page.map(formatRoleHolder) };
+    }
+
+    const scopes = await holderScopes(ctx, args.scope);
+    const position: { scope: number; after?: number } = args.paginationOpts.cursor
+      ? JSON.parse(args.paginationOpts.cursor)
+      : { scope: 0 };
+    const { numItems } = args.paginationOpts;
+
+    const page: Doc<"roleAssignments">[] = [];
+    while (position.scope < scopes.length && page.length < numItems) {
+      const wanted = numItems - page.length;
+      const rows = await holderQuery(
+        ctx,
+        args.role,
+        scopes[position.scope],
+        position.after
+      ).take(wanted);
+      for (const row of rows) {
+        position.after = row._creationTime;
+        if (!(await holdsRoleIn(ctx, row, scopes.slice(0, position.scope)))) {
+          page.push(row);
+        }
+      }
+      if (rows.length < wanted) {
+        position.scope++;
+        position.after = undefined;
+      }
+    }
+
+    return {
+      page: page.map(formatRoleHolder),
+      isDone: position.scope >= scopes.length,
+      continueCursor: JSON.stringify(position),
+    };
   },
 });
 
@@ -409,65 +1008,81 @@ export const getUsersWithRole = query({
 export const getAuditLog = query({
   args: {
     userId: v.optional(v.string()),
-    action: v.optional(
-      v.union(
-        v.literal("permission_check"),
-        v.literal("role_assigned"),
-        v.literal("role_revoked"),
-        v.literal("permission_granted"),
-        v.literal("permission_denied"),
-        v.literal("attribute_set"),
-        v.literal("attribute_removed")
-      )
-    ),
+    action: v.optional(auditActionValidator),
     limit: v.optional(v.number()),
   },
-  returns: v.array(
-    v.object({
-      _id: v.string(),
-      timestamp: v.number(),
-      action: v.string(),
-      userId: v.string(),
-      actorId: v.optional(v.string()),
-      details: v.any(), // Still using v.any() validator, but returns as specific type
-    })
-  ),
+  returns: v.array(auditEntryValidator),
   handler: async (ctx, args) => {
     const limit = args.limit ?? 100;
+    const entries = await auditLogQuery(ctx, args).take(limit);
+    return entries.map(formatAuditEntry);
+  },
+});
 
-    let dbQuery;
-    if (args.userId !== undefined) {
-      dbQuery = ctx.db
-        .query("auditLog")
-        .withIndex("by_user", (q) => q.eq("userId", args.userId as string));
-    } else if (args.action !== undefined) {
-      dbQuery = ctx.db
-        .query("auditLog")
-        .withIndex("by_action", (q) => q.eq("action", args.action as "permission_check" | "role_assigned" | "role_revoked" | "permission_granted" | "permission_denied" | "attribute_set" | "attribute_removed"));
-    } else {
-      dbQuery = ctx.db.query("auditLog").withIndex("by_timestamp");
-    }
-
-    const entries = await dbQuery.order("desc").take(limit);
-
-    return entries.map((e) => ({
-      _id: e._id as string,
-      timestamp: e.timestamp,
-      action: e.action,
-      userId: e.userId,
-      actorId: e.actorId,
-      details: e.details as {
-        permission?: string;
-        role?: string;
-        result?: boolean;
-        scope?: { type: string; id: string };
-        attribute?: { key: string; value?: string | number | boolean | null };
-        reason?: string;
-      },
-    }));
+/**
+ * Page through audit log entries, newest first
+ */
+export const getAuditLogPage = query({
+  args: {
+    userId: v.optional(v.string()),
+    action: v.optional(auditActionValidator),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(auditEntryValidator),
+  handler: async (ctx, args) => {
+    const result = await auditLogQuery(ctx, args).paginate(args.paginationOpts);
+    return { ...result, page: result.page.map(formatAuditEntry) };
   },
 });
 
+/**
+ * Newest-first audit log query using the most selective index for the filters
+ */
+function auditLogQuery(
+  ctx: QueryCtx,
+  args: { userId?: string; action?: Infer<typeof auditActionValidator> }
+) {
+  const { userId, action } = args;
+
+  if (userId !== undefined) {
+    const byUser = ctx.db
+      .query("auditLog")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .order("desc");
+    return action === undefined
+      ? byUser
+      : byUser.filter((q) => q.eq(q.field("action"), action));
+  }
+  if (action !== undefined) {
+    return ctx.db
+      .query("auditLog")
+      .withIndex("by_action", (q) => q.eq("action", action))
+      .order("desc");
+  }
+  return ctx.db.query("auditLog").withIndex("by_timestamp").order("desc");
+}
+
+function formatAuditEntry(e: Doc<"auditLog">) {
+  return {
+    _id: e._id as string,
+    timestamp: e.timestamp,
+    action: e.action,
+    userId: e.userId,
+    actorId: e.actorId,
+    details: e.details as {
+      permission?: string;
+      role?: string;
+      result?: boolean;
+      scope?: { type: string; id: string };
+      attribute?: { key: string; value?: string | number | boolean | null };
+      reason?: string;
+      relation?: string;
+      before?: unknown;
+      after?: unknown;
+    },
+  };
+}
+
 // ============================================================================
 // Dynamic Role Definition Queries
 // ============================================================================
@@ -537,6 +1152,76 @@ export const getRoleDefinitions = query({
   },
 });
 
+/**
+ * Find the stored definition of a role: a custom role in the given scope,
+ * or the system role
+ */
+export async function findRoleDefinition(
+  ctx: Pick<QueryCtx, "db">,
+  name: string,
+  scope: CheckScope
+) {
+  const roleDefs = await ctx.db
+    .query("roleDefinitions")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .collect();
+
+  // Match by scope: system role or same scope
+  return roleDefs.find((r) => {
+    if (!r.scope) return true; // System role
+    if (!scope) return false;
+    return r.scope.type === scope.type && r.scope.id === scope.id;
+  });
+}
+
+/**
+ * Resolve a role definition's permissions, following parentRole chains.
+ * Custom roles match the given scope; system roles match everywhere.
+ * Roles found in `staticRoles` (the config, already flattened) take
+ * precedence over stored definitions and end the chain.
+ */
+export async function resolveRoleDefinition(
+  ctx: Pick<QueryCtx, "db">,
+  roleName: string,
+  scope: CheckScope,
+  staticRoles?: Record<string, string[]>
+): Promise<{ permissions: string[]; inheritedFrom: string[] }> {
+  const visited = new Set<string>();
+  const allPermissions: string[] = [];
+  const inheritedFrom: string[] = [];
+
+  const resolveRole = async (name: string) => {
+    if (visited.has(name)) return; // Prevent cycles
+    visited.add(name);
+
+    const staticPermissions = staticRoles?.[name];
+    if (staticPermissions) {
+      allPermissions.push(...staticPermissions);
+      return;
+    }
+
+    const roleDef = await findRoleDefinition(ctx, name, scope);
+    if (!roleDef) return;
+
+    // Add this role's permissions
+    allPermissions.push(...roleDef.permissions);
+
+    // Recursively resolve parent role
+    if (roleDef.parentRole) {
+      inheritedFrom.push(roleDef.parentRole);
+      await resolveRole(roleDef.parentRole);
+    }
+  };
+
+  await resolveRole(roleName);
+
+  return {
+    // Deduplicate permissions
+    permissions: [...new Set(allPermissions)],
+    inheritedFrom,
+  };
+}
+
 /**
  * Resolve effective permissions for a role, including hierarchy
  */
@@ -555,48 +1240,7 @@ export const resolveRolePermissions = query({
     inheritedFrom: v.array(v.string()),
   }),
   handler: async (ctx, args) => {
-    const visited = new Set<string>();
-    const allPermissions: string[] = [];
-    const inheritedFrom: string[] = [];
-
-    const resolveRole = async (roleName: string) => {
-      if (visited.has(roleName)) return; // Prevent cycles
-      visited.add(roleName);
-
-      // Find role definition
-      const roleDefs = await ctx.db
-        .query("roleDefinitions")
-        .withIndex("by_name", (q) => q.eq("name", roleName))
-        .collect();
-
-      // Match by scope: system role or same scope
-      const roleDef = roleDefs.find((r) => {
-        if (!r.scope) return true; // System role
-        if (!args.scope) return false;
-        return r.scope.type === args.scope.type && r.scope.id === args.scope.id;
-      });
-
-      if (!roleDef) return;
-
-      // Add this role's permissions
-      allPermissions.push(...roleDef.permissions);
-
-      // Recursively resolve parent role
-      if (roleDef.parentRole) {
-        inheritedFrom.push(roleDef.parentRole);
-        await resolveRole(roleDef.parentRole);
-      }
-    };
-
-    await resolveRole(args.roleName);
-
-    // Deduplicate permissions
-    const uniquePermissions = [...new Set(allPermissions)];
-
-    return {
-      permissions: uniquePermissions,
-      inheritedFrom,
-    };
+    return await resolveRoleDefinition(ctx, args.roleName, args.scope);
   },
 });
 
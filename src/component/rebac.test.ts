@@ -197,6 +197,539 @@ describe("ReBAC (Relationship-Based Access Control)", () => {
     });
   });
 
+  describe("same-object rewrites", () => {
+    it("should grant a relation through another relation on the same object", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.rebac.addRelation, {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "owner",
+        objectType: "document",
+        objectId: "doc1",
+      });
+
+      const rules = { "document:viewer": [{ inherit: "owner" }] };
+
+      const result = await t.query(api.rebac.checkRelationWithTraversal, {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "viewer",
+        objectType: "document",
+        objectId: "doc1",
+        traversalRules: rules,
+      });
+      expect(result.allowed).toBe(true);
+
+      const docs = await t.query(api.rebac.listAccessibleObjects, {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "viewer",
+        objectType: "document",
+        traversalRules: rules,
+      });
+      expect(docs).toEqual([
+        { objectId: "doc1", via: "direct", path: ["user:alice -[owner]-> document:doc1"] },
+      ]);
+
+      const users = await t.query(api.rebac.listUsersWithAccess, {
+        objectType: "document",
+        objectId: "doc1",
+        relation: "viewer",
+        traversalRules: rules,
+      });
+      expect(users.map((u) => u.userId)).toEqual(["alice"]);
+      expect(users[0].via).toBe("direct");
+    });
+  });
+
+  describe("listing with traversal", () => {
+    const dealRules = {
+      "account:viewer": [{ through: "team", via: "owner", inherit: "member" }],
+      "deal:viewer": [{ through: "account", via: "parent", inherit: "viewer" }],
+    };
+
+    async function seedCrm(t: ReturnType<typeof convexTest>) {
+      // alice -> member -> team:sales -> owner -> account:acme -> parent -> deal:d1
+      await t.mutation(api.rebac.addRelation, {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "member",
+        objectType: "team",
+        objectId: "sales",
+      });
+      await t.mutation(api.rebac.addRelation, {
+        subjectType: "team",
+        subjectId: "sales",
+        relation: "owner",
+        objectType: "account",
+        objectId: "acme",
+      });
+      await t.mutation(api.rebac.addRelation, {
+        subjectType: "account",
+        subjectId: "acme",
+        relation: "parent",
+        objectType: "deal",
+        objectId: "d1",
+      });
+      // bob views deal:d2 directly
+      await t.mutation(api.rebac.addRelation, {
+        subjectType: "user",
+        subjectId: "bob",
+        relation: "viewer",
+        objectType: "deal",
+        objectId: "d2",
+      });
+    }
+
+    it("should list objects reachable through traversal rules", async () => {
+      const t = convexTest(schema, modules);
+      await seedCrm(t);
+
+      const deals = await t.query(api.rebac.listAccessibleObjects, {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "viewer",
+        objectType: "deal",
+        traversalRules: dealRules,
+      });
+
+      expect(deals).toHaveLength(1);
+      expect(deals[0].objectId).toBe("d1");
+      expect(deals[0].via).toBe("team:sales");
+      expect(deals[0].path).toEqual([
+        "account:acme -[parent]-> deal:d1",
+        "team:sales -[owner]-> account:acme",
+        "user:alice -[member]-> team:sales",
+      ]);
+
+      // Agrees with the single-object check
+      const check = await t.query(api.rebac.checkRelationWithTraversal, {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "viewer",
+        objectType: "deal",
+        objectId: "d1",
+        traversalRules: dealRules,
+      });
+      expect(check.allowed).toBe(true);
+      expect(check.path).toEqual(deals[0].path);
+    });
+
+    it("should respect the depth limit", async () => {
+      const t = convexTest(schema, modules);
+      await seedCrm(t);
+
+      const deals = await t.query(api.rebac.listAccessibleObjects, {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "viewer",
+        objectType: "deal",
+        traversalRules: dealRules,
+        maxDepth: 2,
+      });
+
+      expect(deals).toHaveLength(0);
+    });
+
+    it("should list users with direct and inherited access", async () => {
+      const t = convexTest(schema, modules);
+      await seedCrm(t);
+      await t.mutation(api.rebac.addRelation, {
+        subjectType: "user",
+        subjectId: "bob",
+        relation: "viewer",
+        objectType: "deal",
+        objectId: "d1",
+      });
+
+      const users = await t.query(api.rebac.listUsersWithAccess, {
+        objectType: "deal",
+        objectId: "d1",
+        relation: "viewer",
+        traversalRules: dealRules,
+      });
+
+      expect(users.map((u) => u.userId)).toEqual(["bob", "alice"]);
+      expect(users[0].via).toBe("direct");
+      expect(users[1].via).toBe("team:sales");
+      expect(users[1].path).toEqual([
+        "account:acme -[parent]-> deal:d1",
+        "team:sales -[owner]-> account:acme",
+        "user:alice -[member]-> team:sales",
+      ]);
+    });
+  });
+
+  describe("userset subjects", () => {
+    const engViewers = {
+      subjectType: "team",
+      subjectId: "eng",
+      subjectRelation: "member",
+      relation: "viewer",
+      objectType: "document",
+      objectId: "42",
+    };
+    const aliceViews = {
+      subjectType: "user",
+      subjectId: "alice",
+      relation: "viewer",
+      objectType: "document",
+      objectId: "42",
+    };
+
+    it("should grant a relation to every member of the userset", async () => {
+      const t = convexTest(schema, modules);
+      await t.mutation(api.rebac.addRelation, engViewers);
+
+      const before = await t.query(api.rebac.checkRelationWithTraversal, aliceViews);
+      expect(before.allowed).toBe(false);
+
+      await t.mutation(api.rebac.addRelation, {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "member",
+        objectType: "team",
+        objectId: "eng",
+      });
+
+      const after = await t.query(api.rebac.checkRelationWithTraversal, aliceViews);
+      expect(after.allowed).toBe(true);
+      expect(after.path).toEqual([
+        "team:eng#member -[viewer]-> document:42",
+        "user:alice -[member]-> team:eng",
+      ]);
+
+      // The team itself does not hold the relation
+      const team = await t.query(api.rebac.hasDirectRelation, {
+        ...engViewers,
+        subjectRelation: undefined,
+      });
+      expect(team).toBe(false);
+    });
+
+    it("should list userset members in both directions", async () => {
+      const t = convexTest(schema, modules);
+      await t.mutation(api.rebac.addRelation, engViewers);
+      await t.mutation(api.rebac.addRelation, {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "member",
+        objectType: "team",
+        objectId: "eng",
+      });
+
+      const users = await t.query(api.rebac.listUsersWithAccess, {
+        objectType: "document",
+        objectId: "42",
+        relation: "viewer",
+      });
+      expect(users).toEqual([
+        expect.objectContaining({ userId: "alice", via: "team:eng" }),
+      ]);
+
+      const documents = await t.query(api.rebac.listAccessibleObjects, {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "viewer",
+        objectType: "document",
+      });
+      expect(documents.map((d) => d.objectId)).toEqual(["42"]);
+    });
+  });
+
+  describe("wildcard subjects", () => {
+    const publicViewers = {
+      subjectType: "user",
+      subjectId: "*",
+      relation: "viewer",
+      objectType: "document",
+      objectId: "42",
+    };
+
+    it("should grant a wildcard relation to every subject of the type", async () => {
+      const t = convexTest(schema, modules);
+      await t.mutation(api.rebac.addRelation, publicViewers);
+      const aliceViews = { ...publicViewers, subjectId: "alice" };
+
+      expect(await t.query(api.rebac.hasDirectRelation, aliceViews)).toBe(true);
+      expect(
+        await t.query(api.rebac.hasDirectRelation, { ...aliceViews, subjectType: "team" })
+      ).toBe(false);
+
+      const check = await t.query(api.rebac.checkRelationWithTraversal, aliceViews);
+      expect(check.allowed).toBe(true);
+      expect(check.path).toEqual(["user:* -[viewer]-> document:42"]);
+
+      const documents = await t.query(api.rebac.listAccessibleObjects, {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "viewer",
+        objectType: "document",
+      });
+      expect(documents.map((d) => d.objectId)).toEqual(["42"]);
+    });
+
+    it("should list a wildcard once instead of every user", async () => {
+      const t = convexTest(schema, modules);
+      await t.mutation(api.rebac.addRelation, publicViewers);
+      await t.mutation(api.rebac.addRelation, { ...publicViewers, subjectId: "alice" });
+
+      const users = await t.query(api.rebac.listUsersWithAccess, {
+        objectType: "document",
+        objectId: "42",
+        relation: "viewer",
+      });
+      expect(users.map((u) => u.userId).sort()).toEqual(["*", "alice"]);
+    });
+
+    it("should reject wildcard usersets", async () => {
+      const t = convexTest(schema, modules);
+      await expect(
+        t.mutation(api.rebac.addRelation, { ...publicViewers, subjectRelation: "member" })
+      ).rejects.toThrow(/INVALID_RELATION/);
+    });
+  });
+
+  describe("set operators", () => {
+    const onDocument = (subjectId: string, relation: string) => ({
+      subjectType: "user",
+      subjectId,
+      relation,
+      objectType: "document",
+      objectId: "42",
+    });
+
+    it("should exclude members who are blocked", async () => {
+      const t = convexTest(schema, modules);
+      const traversalRules = {
+        "document:viewer": { union: [{ inherit: "member" }], exclusion: ["blocked"] },
+      };
+      await t.mutation(api.rebac.addRelation, onDocument("alice", "member"));
+      await t.mutation(api.rebac.addRelation, onDocument("bob", "member"));
+      await t.mutation(api.rebac.addRelation, onDocument("bob", "blocked"));
+
+      const alice = await t.query(api.rebac.checkRelationWithTraversal, {
+        ...onDocument("alice", "viewer"),
+        traversalRules,
+      });
+      expect(alice.allowed).toBe(true);
+      expect(alice.path).toEqual(["user:alice -[member]-> document:42"]);
+
+      const bob = await t.query(api.rebac.checkRelationWithTraversal, {
+        ...onDocument("bob", "viewer"),
+        traversalRules,
+      });
+      expect(bob.allowed).toBe(false);
+      expect(bob.reason).toBe("Excluded by blocked on document:42");
+      expect(bob.path).toEqual(["user:bob -[blocked]-> document:42"]);
+
+      const users = await t.query(api.rebac.listUsersWithAccess, {
+        objectType: "document",
+        objectId: "42",
+        relation: "viewer",
+        traversalRules,
+      });
+      expect(users.map((u) => u.userId)).toEqual(["alice"]);
+
+      const documents = await t.query(api.rebac.listAccessibleObjects, {
+        subjectType: "user",
+        subjectId: "bob",
+        relation: "viewer",
+        objectType: "document",
+        traversalRules,
+      });
+      expect(documents).toEqual([]);
+    });
+
+    it("should require every relation of an intersection", async () => {
+      const t = convexTest(schema, modules);
+      const traversalRules = {
+        "document:can_approve": { intersection: ["editor", "manager"] },
+      };
+      const check = { ...onDocument("alice", "can_approve"), traversalRules };
+      await t.mutation(api.rebac.addRelation, onDocument("alice", "editor"));
+
+      const before = await t.query(api.rebac.checkRelationWithTraversal, check);
+      expect(before.allowed).toBe(false);
+      expect(before.reason).toBe(
+        "Missing manager on document:42, required for can_approve"
+      );
+
+      await t.mutation(api.rebac.addRelation, onDocument("alice", "manager"));
+
+      const after = await t.query(api.rebac.checkRelationWithTraversal, check);
+      expect(after.allowed).toBe(true);
+      expect(after.path).toEqual([
+        "user:alice -[editor]-> document:42",
+        "user:alice -[manager]-> document:42",
+      ]);
+    });
+
+    it("should deny when an exclusion is cut off by the depth limit", async () => {
+      const t = convexTest(schema, modules);
+      const inheritBlocked = [{ through: "folder", via: "parent", inherit: "blocked" }];
+      const traversalRules = {
+        "document:viewer": { union: [{ inherit: "member" }], exclusion: ["blocked"] },
+        "document:blocked": inheritBlocked,
+        "folder:blocked": inheritBlocked,
+      };
+      // document:42 <- f1 <- f2 <- f3 <- f4, bob is blocked on f4
+      await t.mutation(api.rebac.addRelation, {
+        subjectType: "folder",
+        subjectId: "f1",
+        relation: "parent",
+        objectType: "document",
+        objectId: "42",
+      });
+      for (let i = 2; i <= 4; i++) {
+        await t.mutation(api.rebac.addRelation, {
+          subjectType: "folder",
+          subjectId: `f${i}`,
+          relation: "parent",
+          objectType: "folder",
+          objectId: `f${i - 1}`,
+        });
+      }
+      await t.mutation(api.rebac.addRelation, onDocument("bob", "member"));
+      await t.mutation(api.rebac.addRelation, {
+        subjectType: "user",
+        subjectId: "bob",
+        relation: "blocked",
+        objectType: "folder",
+        objectId: "f4",
+      });
+
+      const shallow = await t.query(api.rebac.checkRelationWithTraversal, {
+        ...onDocument("bob", "viewer"),
+        traversalRules,
+        maxDepth: 3,
+      });
+      expect(shallow.allowed).toBe(false);
+      expect(shallow.reason).toBe(
+        "Depth limit reached checking exclusion blocked on document:42"
+      );
+
+      const deep = await t.query(api.rebac.checkRelationWithTraversal, {
+        ...onDocument("bob", "viewer"),
+        traversalRules,
+        maxDepth: 10,
+      });
+      expect(deep.allowed).toBe(false);
+      expect(deep.reason).toBe("Excluded by blocked on document:42");
+    });
+  });
+
+  describe("conditional tuples", () => {
+    const aliceViews = {
+      subjectType: "user",
+      subjectId: "alice",
+      relation: "viewer",
+      objectType: "document",
+      objectId: "42",
+    };
+    const officeOnly = { ipInCidr: [{ ref: "environment.ip" }, "10.0.0.0/8"] };
+
+    it("should stop holding an expired tuple", async () => {
+      const t = convexTest(schema, modules);
+      const expiresAt = Date.now() + 60_000;
+      await t.mutation(api.rebac.addRelation, { ...aliceViews, expiresAt });
+
+      expect(await t.query(api.rebac.hasDirectRelation, aliceViews)).toBe(true);
+      expect(
+        await t.query(api.rebac.hasDirectRelation, {
+          ...aliceViews,
+          environment: { timestamp: expiresAt + 1 },
+        })
+      ).toBe(false);
+
+      const later = await t.query(api.rebac.checkRelationWithTraversal, {
+        ...aliceViews,
+        environment: { timestamp: expiresAt + 1 },
+      });
+      expect(later.allowed).toBe(false);
+
+      const users = await t.query(api.rebac.listUsersWithAccess, {
+        objectType: "document",
+        objectId: "42",
+        relation: "viewer",
+        environment: { timestamp: expiresAt + 1 },
+      });
+      expect(users).toEqual([]);
+    });
+
+    it("should only follow a conditional edge while its condition passes", async () => {
+      const t = convexTest(schema, modules);
+      const traversalRules = {
+        "document:viewer": [{ through: "folder", via: "parent", inherit: "viewer" }],
+      };
+      await t.mutation(api.rebac.addRelation, {
+        subjectType: "folder",
+        subjectId: "shared",
+        relation: "parent",
+        objectType: "document",
+        objectId: "42",
+        condition: officeOnly,
+      });
+      await t.mutation(api.rebac.addRelation, {
+        ...aliceViews,
+        objectType: "folder",
+        objectId: "shared",
+      });
+
+      const inOffice = await t.query(api.rebac.checkRelationWithTraversal, {
+        ...aliceViews,
+        traversalRules,
+        environment: { ip: "10.1.2.3" },
+      });
+      expect(inOffice.allowed).toBe(true);
+
+      const remote = await t.query(api.rebac.checkRelationWithTraversal, {
+        ...aliceViews,
+        traversalRules,
+        environment: { ip: "203.0.113.7" },
+      });
+      expect(remote.allowed).toBe(false);
+
+      const documents = await t.query(api.rebac.listAccessibleObjects, {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "viewer",
+        objectType: "document",
+        traversalRules,
+        environment: { ip: "203.0.113.7" },
+      });
+      expect(documents).toEqual([]);
+    });
+
+    it("should update the terms when a tuple is added again", async () => {
+      const t = convexTest(schema, modules);
+      const first = await t.mutation(api.rebac.addRelation, {
+        ...aliceViews,
+        condition: officeOnly,
+      });
+      const second = await t.mutation(api.rebac.addRelation, aliceViews);
+
+      expect(second).toBe(first);
+      expect(
+        await t.query(api.rebac.hasDirectRelation, {
+          ...aliceViews,
+          environment: { ip: "203.0.113.7" },
+        })
+      ).toBe(true);
+    });
+
+    it("should reject conditions that reference more than the environment", async () => {
+      const t = convexTest(schema, modules);
+      await expect(
+        t.mutation(api.rebac.addRelation, {
+          ...aliceViews,
+          condition: { eq: [{ ref: "subject.userId" }, "alice"] },
+        })
+      ).rejects.toThrow(/INVALID_CONDITION/);
+    });
+  });
+
   describe("object relationships", () => {
     it("should get all subjects with relation to an object", async () => {
       const t = convexTest(schema, modules);
@@ -227,4 +760,76 @@ describe("ReBAC (Relationship-Based Access Control)", () => {
       expect(relations.map((r: { subjectId: string }) => r.subjectId)).toContain("bob");
     });
   });
+
+  describe("paginated relations", () => {
+    it("should page through an object's subjects with a relation filter", async () => {
+      const t = convexTest(schema, modules);
+
+      for (const id of ["a", "b", "c"]) {
+        await t.mutation(api.rebac.addRelation, {
+          subjectType: "user",
+          subjectId: id,
+          relation: "member",
+          objectType: "team",
+          objectId: "sales",
+        });
+      }
+      await t.mutation(api.rebac.addRelation, {
+        subjectType: "user",
+        subjectId: "d",
+        relation: "owner",
+        objectType: "team",
+        objectId: "sales",
+      });
+
+      const first = await t.query(api.rebac.getObjectRelationsPage, {
+        objectType: "team",
+        objectId: "sales",
+        relation: "member",
+        paginationOpts: { numItems: 2, cursor: null },
+      });
+      expect(first.page).toHaveLength(2);
+      expect(first.isDone).toBe(false);
+
+      const second = await t.query(api.rebac.getObjectRelationsPage, {
+        objectType: "team",
+        objectId: "sales",
+        relation: "member",
+        paginationOpts: { numItems: 2, cursor: first.continueCursor },
+      });
+      expect(second.page).toHaveLength(1);
+      expect(second.isDone).toBe(true);
+
+      const subjects = [...first.page, ...second.page].map((r) => r.subjectId);
+      expect(subjects.sort()).toEqual(["a", "b", "c"]);
+    });
+
+    it("should page through a subject's relations by object type", async () => {
+      const t = convexTest(schema, modules);
+
+      await t.mutation(api.rebac.addRelation, {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "member",
+        objectType: "team",
+        objectId: "sales",
+      });
+      await t.mutation(api.rebac.addRelation, {
+        subjectType: "user",
+        subjectId: "alice",
+        relation: "viewer",
+        objectType: "document",
+        objectId: "d1",
+      });
+
+      const result = await t.query(api.rebac.getSubjectRelationsPage, {
+        subjectType: "user",
+        subjectId: "alice",
+        objectType: "document",
+        paginationOpts: { numItems: 10, cursor: null },
+      });
+      expect(result.page.map((r) => r.objectId)).toEqual(["d1"]);
+      expect(result.isDone).toBe(true);
+    });
+  });
 });
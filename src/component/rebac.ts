@@ -6,33 +6,174 @@
  *
  * Key concepts:
  * - Tuples: (user, relation, object) e.g., (user:123, member, team:456)
+ * - Usersets: a subject can be everyone holding a relation on an object,
+ *   e.g., (team:456#member, viewer, document:42)
+ * - Wildcards: a subject can be every subject of a type,
+ *   e.g., (user:*, viewer, document:42) for a public document
+ * - Conditional tuples: a tuple can expire or hold only under a condition
+ *   on the environment of the check, e.g. an office IP range
  * - Computed relations: Access can be derived through relationships
  * - Type definitions: Define what relations are valid for each object type
  */
 
-import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { v, ConvexError, type Infer } from "convex/values";
+import {
+  paginationOptsValidator,
+  paginationResultValidator,
+} from "convex/server";
+import { mutation, query, type QueryCtx } from "./_generated/server";
+import {
+  relationSnapshot,
+  subjectAuditKey,
+  writeAuditEntry,
+} from "./audit";
+import {
+  evaluateCondition,
+  validateCondition,
+  type Condition,
+  type ConditionContext,
+} from "./conditions";
+import { environmentContextValidator } from "./policies";
+
+type EnvironmentContext = Infer<typeof environmentContextValidator>;
 
 // ============================================================================
 // Relationship Tuple Storage
 // ============================================================================
 
+/**
+ * Subject ID standing for every subject of its type, as in "user:*"
+ */
+export const WILDCARD_SUBJECT_ID = "*";
+
+/**
+ * The condition under which a tuple holds: its own condition, and being
+ * checked no later than its expiry. Undefined for unconditional tuples.
+ */
+export function tupleCondition(tuple: {
+  condition?: unknown;
+  expiresAt?: number;
+}): Condition | undefined {
+  const conditions: Condition[] = [];
+  if (tuple.condition !== undefined) {
+    conditions.push(tuple.condition as Condition);
+  }
+  if (tuple.expiresAt !== undefined) {
+    conditions.push({ lte: [{ ref: "environment.timestamp" }, tuple.expiresAt] });
+  }
+  if (conditions.length === 0) return undefined;
+  return conditions.length === 1 ? conditions[0] : { and: conditions };
+}
+
+/**
+ * Tuple conditions only see the environment of the check
+ */
+export function tupleConditionContext(environment?: EnvironmentContext): ConditionContext {
+  return {
+    subject: { userId: "", roles: [], attributes: {} },
+    environment: {
+      timestamp: environment?.timestamp ?? Date.now(),
+      ip: environment?.ip,
+    },
+    action: "",
+  };
+}
+
+export function tupleHolds(
+  tuple: { condition?: unknown; expiresAt?: number },
+  context: ConditionContext
+): boolean {
+  const condition = tupleCondition(tuple);
+  return condition === undefined || evaluateCondition(condition, context);
+}
+
+/**
+ * Throw INVALID_CONDITION unless a tuple condition is well-formed and only
+ * references the environment
+ */
+export function validateTupleTerms(args: { condition?: unknown }) {
+  if (args.condition !== undefined) {
+    validateCondition(args.condition, "condition", ["environment"]);
+  }
+}
+
+/**
+ * Check if a stored tuple already has the requested expiry and condition
+ */
+export function hasSameTerms(
+  tuple: { expiresAt?: number; condition?: unknown },
+  terms: { expiresAt?: number; condition?: unknown }
+): boolean {
+  return (
+    tuple.expiresAt === terms.expiresAt &&
+    JSON.stringify(tuple.condition) === JSON.stringify(terms.condition)
+  );
+}
+
+/**
+ * Find the tuple granting a relation to a subject: its own tuple, or the
+ * wildcard tuple for its type, skipping tuples whose condition fails
+ */
+async function findSubjectTuple(
+  ctx: QueryCtx,
+  args: {
+    subjectType: string;
+    subjectId: string;
+    relation: string;
+    objectType: string;
+    objectId: string;
+  },
+  context: ConditionContext
+) {
+  for (const subjectId of new Set([args.subjectId, WILDCARD_SUBJECT_ID])) {
+    const tuple = await ctx.db
+      .query("relationships")
+      .withIndex("by_subject_relation_object", (q) =>
+        q
+          .eq("subjectType", args.subjectType)
+          .eq("subjectId", subjectId)
+          .eq("relation", args.relation)
+          .eq("objectType", args.objectType)
+          .eq("objectId", args.objectId)
+          .eq("subjectRelation", undefined)
+      )
+      .unique();
+    if (tuple && tupleHolds(tuple, context)) return tuple;
+  }
+  return null;
+}
+
 /**
  * Store a relationship tuple
  * Format: (subject, relation, object)
  * Example: (user:123, member, team:456)
+ * Adding an existing tuple replaces its expiry and condition.
  */
 export const addRelation = mutation({
   args: {
     subjectType: v.string(), // e.g., "user", "team"
     subjectId: v.string(), // e.g., "123"
+    // Userset subject, e.g. "member" for every member of team:123
+    subjectRelation: v.optional(v.string()),
     relation: v.string(), // e.g., "member", "owner", "viewer"
     objectType: v.string(), // e.g., "team", "account", "deal"
     objectId: v.string(), // e.g., "456"
+    expiresAt: v.optional(v.number()),
+    // JSON condition on the environment of the check (see conditions.ts)
+    condition: v.optional(v.any()),
     createdBy: v.optional(v.string()),
+    enableAudit: v.optional(v.boolean()),
   },
   returns: v.string(),
   handler: async (ctx, args) => {
+    if (args.subjectId === WILDCARD_SUBJECT_ID && args.subjectRelation !== undefined) {
+      throw new ConvexError({
+        code: "INVALID_RELATION",
+        message: `Wildcard subject "${args.subjectType}:*" cannot be a userset`,
+      });
+    }
+    validateTupleTerms(args);
+
     // Check if relation already exists
     const existing = await ctx.db
       .query("relationships")
@@ -43,22 +184,49 @@ export const addRelation = mutation({
           .eq("relation", args.relation)
           .eq("objectType", args.objectType)
           .eq("objectId", args.objectId)
+          .eq("subjectRelation", args.subjectRelation)
       )
       .unique();
 
-    if (existing) {
+    if (existing && hasSameTerms(existing, args)) {
       return existing._id as string;
     }
 
-    const id = await ctx.db.insert("relationships", {
-      subjectType: args.subjectType,
-      subjectId: args.subjectId,
-      relation: args.relation,
-      objectType: args.objectType,
-      objectId: args.objectId,
-      createdBy: args.createdBy,
-      createdAt: Date.now(),
-    });
+    let id;
+    if (existing) {
+      id = existing._id;
+      await ctx.db.patch(existing._id, {
+        expiresAt: args.expiresAt,
+        condition: args.condition,
+      });
+    } else {
+      id = await ctx.db.insert("relationships", {
+        subjectType: args.subjectType,
+        subjectId: args.subjectId,
+        subjectRelation: args.subjectRelation,
+        relation: args.relation,
+        objectType: args.objectType,
+        objectId: args.objectId,
+        expiresAt: args.expiresAt,
+        condition: args.condition,
+        createdBy: args.createdBy,
+        createdAt: Date.now(),
+      });
+    }
+
+    if (args.enableAudit) {
+      await writeAuditEntry(ctx, {
+        action: "relation_added",
+        userId: subjectAuditKey(args.subjectType, args.subjectId),
+        actorId: args.createdBy,
+        details: {
+          relation: args.relation,
+          scope: { type: args.objectType, id: args.objectId },
+          before: existing ? relationSnapshot(existing) : undefined,
+          after: relationSnapshot(args),
+        },
+      });
+    }
 
     return id as string;
   },
@@ -71,9 +239,12 @@ export const removeRelation = mutation({
   args: {
     subjectType: v.string(),
     subjectId: v.string(),
+    subjectRelation: v.optional(v.string()),
     relation: v.string(),
     objectType: v.string(),
     objectId: v.string(),
+    removedBy: v.optional(v.string()),
+    enableAudit: v.optional(v.boolean()),
   },
   returns: v.boolean(),
   handler: async (ctx, args) => {
@@ -86,11 +257,26 @@ export const removeRelation = mutation({
           .eq("relation", args.relation)
           .eq("objectType", args.objectType)
           .eq("objectId", args.objectId)
+          .eq("subjectRelation", args.subjectRelation)
       )
       .unique();
 
     if (existing) {
       await ctx.db.delete(existing._id);
+
+      if (args.enableAudit) {
+        await writeAuditEntry(ctx, {
+          action: "relation_removed",
+          userId: subjectAuditKey(args.subjectType, args.subjectId),
+          actorId: args.removedBy,
+          details: {
+            relation: args.relation,
+            scope: { type: args.objectType, id: args.objectId },
+            before: relationSnapshot(existing),
+          },
+        });
+      }
+
       return true;
     }
     return false;
@@ -98,18 +284,27 @@ export const removeRelation = mutation({
 });
 
 /**
- * Check if a direct relationship exists
+ * Check if a direct relationship holds, including one granted to every
+ * subject of the type through a wildcard tuple. Conditional tuples are
+ * evaluated against the environment (the current time by default).
  */
 export const hasDirectRelation = query({
   args: {
     subjectType: v.string(),
     subjectId: v.string(),
+    subjectRelation: v.optional(v.string()),
     relation: v.string(),
     objectType: v.string(),
     objectId: v.string(),
+    environment: v.optional(environmentContextValidator),
   },
   returns: v.boolean(),
   handler: async (ctx, args) => {
+    const context = tupleConditionContext(args.environment);
+    if (args.subjectRelation === undefined) {
+      return (await findSubjectTuple(ctx, args, context)) !== null;
+    }
+
     const existing = await ctx.db
       .query("relationships")
       .withIndex("by_subject_relation_object", (q) =>
@@ -119,13 +314,30 @@ export const hasDirectRelation = query({
           .eq("relation", args.relation)
           .eq("objectType", args.objectType)
           .eq("objectId", args.objectId)
+          .eq("subjectRelation", args.subjectRelation)
       )
       .unique();
 
-    return existing !== null;
+    return existing !== null && tupleHolds(existing, context);
   },
 });
 
+const subjectRelationValidator = v.object({
+  _id: v.string(),
+  subjectRelation: v.optional(v.string()),
+  relation: v.string(),
+  objectType: v.string(),
+  objectId: v.string(),
+});
+
+const objectRelationValidator = v.object({
+  _id: v.string(),
+  subjectType: v.string(),
+  subjectId: v.string(),
+  subjectRelation: v.optional(v.string()),
+  relation: v.string(),
+});
+
 /**
  * Get all relations for a subject
  */
@@ -135,14 +347,7 @@ export const getSubjectRelations = query({
     subjectId: v.string(),
     objectType: v.optional(v.string()),
   },
-  returns: v.array(
-    v.object({
-      _id: v.string(),
-      relation: v.string(),
-      objectType: v.string(),
-      objectId: v.string(),
-    })
-  ),
+  returns: v.array(subjectRelationValidator),
   handler: async (ctx, args) => {
     let relations = await ctx.db
       .query("relationships")
@@ -157,6 +362,7 @@ export const getSubjectRelations = query({
 
     return relations.map((r) => ({
       _id: r._id as string,
+      subjectRelation: r.subjectRelation,
       relation: r.relation,
       objectType: r.objectType,
       objectId: r.objectId,
@@ -173,14 +379,7 @@ export const getObjectRelations = query({
     objectId: v.string(),
     relation: v.optional(v.string()),
   },
-  returns: v.array(
-    v.object({
-      _id: v.string(),
-      subjectType: v.string(),
-      subjectId: v.string(),
-      relation: v.string(),
-    })
-  ),
+  returns: v.array(objectRelationValidator),
   handler: async (ctx, args) => {
     let relations = await ctx.db
       .query("relationships")
@@ -197,15 +396,488 @@ export const getObjectRelations = query({
       _id: r._id as string,
       subjectType: r.subjectType,
       subjectId: r.subjectId,
+      subjectRelation: r.subjectRelation,
       relation: r.relation,
     }));
   },
 });
 
+/**
+ * Page through the relations a subject has
+ */
+export const getSubjectRelationsPage = query({
+  args: {
+    subjectType: v.string(),
+    subjectId: v.string(),
+    objectType: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(subjectRelationValidator),
+  handler: async (ctx, args) => {
+    const objectType = args.objectType;
+    const bySubject = ctx.db
+      .query("relationships")
+      .withIndex("by_subject", (q) =>
+        q.eq("subjectType", args.subjectType).eq("subjectId", args.subjectId)
+      );
+
+    const result = await (objectType
+      ? bySubject.filter((q) => q.eq(q.field("objectType"), objectType))
+      : bySubject
+    ).paginate(args.paginationOpts);
+
+    return {
+      ...result,
+      page: result.page.map((r) => ({
+        _id: r._id as string,
+        subjectRelation: r.subjectRelation,
+        relation: r.relation,
+        objectType: r.objectType,
+        objectId: r.objectId,
+      })),
+    };
+  },
+});
+
+/**
+ * Page through the subjects related to an object
+ */
+export const getObjectRelationsPage = query({
+  args: {
+    objectType: v.string(),
+    objectId: v.string(),
+    relation: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(objectRelationValidator),
+  handler: async (ctx, args) => {
+    const relation = args.relation;
+    const result = await (relation
+      ? ctx.db
+          .query("relationships")
+          .withIndex("by_object_relation", (q) =>
+            q
+              .eq("objectType", args.objectType)
+              .eq("objectId", args.objectId)
+              .eq("relation", relation)
+          )
+      : ctx.db
+          .query("relationships")
+          .withIndex("by_object", (q) =>
+            q.eq("objectType", args.objectType).eq("objectId", args.objectId)
+          )
+    ).paginate(args.paginationOpts);
+
+    return {
+      ...result,
+      page: result.page.map((r) => ({
+        _id: r._id as string,
+        subjectType: r.subjectType,
+        subjectId: r.subjectId,
+        subjectRelation: r.subjectRelation,
+        relation: r.relation,
+      })),
+    };
+  },
+});
+
 // ============================================================================
 // Relationship Traversal (for inherited permissions)
 // ============================================================================
 
+/**
+ * A single traversal rule, keyed by "objectType:relation"
+ * Rules without `through`/`via` are same-object rewrites (e.g. viewer = owner).
+ */
+export interface TraversalRule {
+  through?: string; // intermediate object type
+  via?: string; // relation from intermediate to object
+  inherit: string; // relation to inherit from intermediate
+}
+
+/**
+ * Rules for a relation beyond a plain union. `intersection` and `exclusion`
+ * name relations on the same object: the relation is held only when every
+ * intersection relation is held and no exclusion relation is. Without a
+ * `union` (not even an empty one), an intersection alone decides and direct
+ * tuples are ignored.
+ */
+export interface RelationRewrite {
+  union?: TraversalRule[];
+  intersection?: string[];
+  exclusion?: string[];
+}
+
+/**
+ * Rules keyed by "objectType:relation". A plain array is a union.
+ */
+export type TraversalRules = Record<string, TraversalRule[] | RelationRewrite>;
+
+export const DEFAULT_MAX_DEPTH = 5;
+
+type NormalizedRewrite = Required<RelationRewrite> & { intersectionOnly: boolean };
+
+/**
+ * Normalize the rules for a "objectType:relation" key
+ */
+export function relationRewrite(
+  rules: TraversalRules,
+  key: string
+): NormalizedRewrite {
+  const entry = rules[key];
+  if (Array.isArray(entry)) {
+    return { union: entry, intersection: [], exclusion: [], intersectionOnly: false };
+  }
+  const intersection = entry?.intersection ?? [];
+  return {
+    union: entry?.union ?? [],
+    intersection,
+    exclusion: entry?.exclusion ?? [],
+    intersectionOnly: entry?.union === undefined && intersection.length > 0,
+  };
+}
+
+/**
+ * Check if a relation is more than a union of its rules
+ */
+export function hasSetOperators(rewrite: NormalizedRewrite): boolean {
+  return rewrite.intersection.length > 0 || rewrite.exclusion.length > 0;
+}
+
+function formatEdge(
+  subjectType: string,
+  subjectId: string,
+  relation: string,
+  objectType: string,
+  objectId: string,
+  subjectRelation?: string
+): string {
+  const subject = subjectRelation
+    ? `${subjectType}:${subjectId}#${subjectRelation}`
+    : `${subjectType}:${subjectId}`;
+  return `${subject} -[${relation}]-> ${objectType}:${objectId}`;
+}
+
+type RelationCheckResult = {
+  allowed: boolean;
+  path: string[];
+  reason: string;
+  // Set on denials when part of the graph was cut off by maxDepth, so the
+  // relation may still be held; exclusions must not treat it as absent
+  depthExhausted?: boolean;
+};
+
+/**
+ * Traverse relationships to decide whether a subject holds a relation.
+ * Shared by checkRelationWithTraversal and the permission check queries.
+ */
+export async function traverseRelation(
+  ctx: QueryCtx,
+  args: {
+    subjectType: string;
+    subjectId: string;
+    relation: string;
+    objectType: string;
+    objectId: string;
+    traversalRules?: unknown;
+    maxDepth?: number;
+    environment?: EnvironmentContext;
+  }
+): Promise<RelationCheckResult> {
+  const maxDepth = args.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const visited = new Set<string>();
+  const context = tupleConditionContext(args.environment);
+  const rules = (args.traversalRules ?? {}) as TraversalRules;
+
+  const rewrite = relationRewrite(rules, `${args.objectType}:${args.relation}`);
+  if (hasSetOperators(rewrite)) {
+    return await evaluateSetOperators(ctx, args, rules, rewrite, maxDepth);
+  }
+
+  // Check direct relation first
+  const direct = await findSubjectTuple(ctx, args, context);
+
+  if (direct) {
+    return {
+      allowed: true,
+      path: [formatEdge(direct.subjectType, direct.subjectId, args.relation, args.objectType, args.objectId)],
+      reason: "Direct relationship",
+    };
+  }
+
+  // The first denial explained by an intersection or exclusion on the way
+  let denial: RelationCheckResult | undefined;
+  let depthExhausted = false;
+
+  // BFS traversal to find path
+  interface QueueItem {
+    objectType: string;
+    objectId: string;
+    relation: string;
+    depth: number;
+    path: string[];
+  }
+
+  const queue: QueueItem[] = [
+    {
+      objectType: args.objectType,
+      objectId: args.objectId,
+      relation: args.relation,
+      depth: 0,
+      path: [],
+    },
+  ];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+
+    if (current.depth >= maxDepth) {
+      depthExhausted = true;
+      continue;
+    }
+
+    const visitKey = `${current.objectType}:${current.objectId}:${current.relation}`;
+    if (visited.has(visitKey)) continue;
+    visited.add(visitKey);
+
+    const currentRuleKey = `${current.objectType}:${current.relation}`;
+    const currentRewrite = relationRewrite(rules, currentRuleKey);
+    if (hasSetOperators(currentRewrite)) {
+      // Evaluated as a whole, within the depth left
+      const result = await traverseRelation(ctx, {
+        ...args,
+        objectType: current.objectType,
+        objectId: current.objectId,
+        relation: current.relation,
+        maxDepth: maxDepth - current.depth,
+      });
+      const path = [...current.path, ...result.path];
+      if (result.allowed) {
+        return { ...result, path };
+      }
+      if (result.depthExhausted) depthExhausted = true;
+      if (result.path.length > 0) {
+        denial ??= { ...result, path };
+      }
+      continue;
+    }
+
+    // Check if subject has this relation to current object
+    const hasRelation = await findSubjectTuple(
+      ctx,
+      {
+        ...args,
+        relation: current.relation,
+        objectType: current.objectType,
+        objectId: current.objectId,
+      },
+      context
+    );
+
+    if (hasRelation) {
+      const finalPath = [
+        ...current.path,
+        formatEdge(hasRelation.subjectType, hasRelation.subjectId, current.relation, current.objectType, current.objectId),
+      ];
+      return {
+        allowed: true,
+        path: finalPath,
+        reason: `Access via ${current.objectType}`,
+      };
+    }
+
+    // Usersets holding the relation: members of team:eng hold what
+    // team:eng#member holds, so check the member relation on team:eng
+    const usersets = await ctx.db
+      .query("relationships")
+      .withIndex("by_object_relation", (q) =>
+        q
+          .eq("objectType", current.objectType)
+          .eq("objectId", current.objectId)
+          .eq("relation", current.relation)
+      )
+      .filter((q) => q.neq(q.field("subjectRelation"), undefined))
+      .collect();
+
+    for (const userset of usersets) {
+      if (!tupleHolds(userset, context)) continue;
+      queue.push({
+        objectType: userset.subjectType,
+        objectId: userset.subjectId,
+        relation: userset.subjectRelation!,
+        depth: current.depth + 1,
+        path: [
+          ...current.path,
+          formatEdge(
+            userset.subjectType,
+            userset.subjectId,
+            current.relation,
+            current.objectType,
+            current.objectId,
+            userset.subjectRelation
+          ),
+        ],
+      });
+    }
+
+    // Find parent objects to traverse
+    // We need to find objects that point TO the current object via the 'via' relation
+    // Example: If checking deal:viewer and rule says inherit from account via "parent"
+    // We need to find: which account has "parent" relation pointing to this deal?
+    for (const rule of currentRewrite.union) {
+      const { through, via } = rule;
+      if (!through || !via) {
+        // Same-object rewrite: e.g. deal viewer = deal owner
+        queue.push({
+          ...current,
+          relation: rule.inherit,
+          depth: current.depth + 1,
+        });
+        continue;
+      }
+
+      // Find subjects that have 'via' relation TO the current object
+      // E.g., find accounts that have "parent" relation to this deal
+      const parentRelations = await ctx.db
+        .query("relationships")
+        .withIndex("by_object_relation", (q) =>
+          q
+            .eq("objectType", current.objectType)
+            .eq("objectId", current.objectId)
+            .eq("relation", via)
+        )
+        .collect();
+
+      // Filter to only the intermediate object type we're looking for.
+      // Wildcards only ever stand for the checked subject, not for parents.
+      const parents = parentRelations.filter(
+        (r) =>
+          r.subjectType === through &&
+          r.subjectRelation === undefined &&
+          r.subjectId !== WILDCARD_SUBJECT_ID &&
+          tupleHolds(r, context)
+      );
+
+      for (const parent of parents) {
+        // The parent becomes the new object to check
+        queue.push({
+          objectType: parent.subjectType,
+          objectId: parent.subjectId,
+          relation: rule.inherit,
+          depth: current.depth + 1,
+          path: [
+            ...current.path,
+            formatEdge(parent.subjectType, parent.subjectId, via, current.objectType, current.objectId),
+          ],
+        });
+      }
+    }
+  }
+
+  const result = denial ?? {
+    allowed: false,
+    path: [],
+    reason: "No relationship path found",
+  };
+  return depthExhausted ? { ...result, depthExhausted } : result;
+}
+
+/**
+ * Evaluate a relation defined with intersection or exclusion: its union
+ * part (direct tuples, usersets and union rules), then every intersection
+ * relation, then the exclusions. Denials name the branch that decided.
+ * An exclusion cut off by maxDepth denies, since it may still hold.
+ */
+async function evaluateSetOperators(
+  ctx: QueryCtx,
+  args: Parameters<typeof traverseRelation>[1],
+  rules: TraversalRules,
+  rewrite: NormalizedRewrite,
+  maxDepth: number
+): Promise<RelationCheckResult> {
+  const object = `${args.objectType}:${args.objectId}`;
+  if (maxDepth <= 0) {
+    return {
+      allowed: false,
+      path: [],
+      reason: `Depth limit reached at ${object}`,
+      depthExhausted: true,
+    };
+  }
+
+  const check = (relation: string) =>
+    traverseRelation(ctx, { ...args, relation, maxDepth: maxDepth - 1 });
+
+  const path: string[] = [];
+  let reason = `Intersection of ${rewrite.intersection.join(", ")} on ${object}`;
+
+  if (!rewrite.intersectionOnly) {
+    const base = await traverseRelation(ctx, {
+      ...args,
+      traversalRules: {
+        ...rules,
+        [`${args.objectType}:${args.relation}`]: rewrite.union,
+      },
+      maxDepth,
+    });
+    if (!base.allowed) return base;
+    path.push(...base.path);
+    reason = base.reason;
+  }
+
+  for (const relation of rewrite.intersection) {
+    const branch = await check(relation);
+    if (!branch.allowed) {
+      return {
+        allowed: false,
+        path,
+        reason: `Missing ${relation} on ${object}, required for ${args.relation}`,
+        depthExhausted: branch.depthExhausted,
+      };
+    }
+    path.push(...branch.path);
+  }
+
+  for (const relation of rewrite.exclusion) {
+    const branch = await check(relation);
+    if (branch.allowed) {
+      return {
+        allowed: false,
+        path: branch.path,
+        reason: `Excluded by ${relation} on ${object}`,
+      };
+    }
+    if (branch.depthExhausted) {
+      return {
+        allowed: false,
+        path,
+        reason: `Depth limit reached checking exclusion ${relation} on ${object}`,
+        depthExhausted: true,
+      };
+    }
+  }
+
+  return { allowed: true, path, reason };
+}
+
+/**
+ * Union rules plus intersection relations as same-object rewrites. Every
+ * holder of a relation is reachable through these, so listings walk them
+ * and then re-check their candidates when set operators are configured.
+ */
+function candidateRules(rewrite: NormalizedRewrite): TraversalRule[] {
+  return [
+    ...rewrite.union,
+    ...rewrite.intersection.map((inherit) => ({ inherit })),
+  ];
+}
+
+function usesSetOperators(rules: TraversalRules): boolean {
+  return Object.keys(rules).some((key) =>
+    hasSetOperators(relationRewrite(rules, key))
+  );
+}
+
 /**
  * Check if user has access through relationship chain
  *
@@ -217,6 +889,8 @@ export const getObjectRelations = query({
  *
  * @param rules - Traversal rules like:
  *   { "deal:viewer": [{ through: "account", via: "parent", inherit: "viewer" }] }
+ *   A rule with only `inherit` rewrites to another relation on the same object:
+ *   { "deal:viewer": [{ inherit: "owner" }] }
  */
 export const checkRelationWithTraversal = query({
   args: {
@@ -228,6 +902,8 @@ export const checkRelationWithTraversal = query({
     // Traversal rules encoded as JSON
     traversalRules: v.optional(v.any()),
     maxDepth: v.optional(v.number()),
+    // Conditional tuples are evaluated against this (default: now)
+    environment: v.optional(environmentContextValidator),
   },
   returns: v.object({
     allowed: v.boolean(),
@@ -235,50 +911,251 @@ export const checkRelationWithTraversal = query({
     reason: v.string(),
   }),
   handler: async (ctx, args) => {
-    const maxDepth = args.maxDepth ?? 5;
+    const { depthExhausted: _depthExhausted, ...result } = await traverseRelation(ctx, args);
+    return result;
+  },
+});
+
+// ============================================================================
+// Batch Operations
+// ============================================================================
+
+/**
+ * List all objects a user can access with a given relation
+ *
+ * Walks outward from the subject, applying traversal rules in reverse:
+ * holding `inherit` on a `through` object grants the rule's relation on
+ * every object the intermediate points to via `via`. This mirrors
+ * checkRelationWithTraversal, so both agree on the same rules.
+ */
+export const listAccessibleObjects = query({
+  args: {
+    subjectType: v.string(),
+    subjectId: v.string(),
+    relation: v.string(),
+    objectType: v.string(),
+    traversalRules: v.optional(v.any()),
+    maxDepth: v.optional(v.number()),
+    // Conditional tuples are evaluated against this (default: now)
+    environment: v.optional(environmentContextValidator),
+  },
+  returns: v.array(
+    v.object({
+      objectId: v.string(),
+      via: v.string(),
+      path: v.array(v.string()),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const maxDepth = args.maxDepth ?? DEFAULT_MAX_DEPTH;
+    const rules = (args.traversalRules ?? {}) as TraversalRules;
+    const context = tupleConditionContext(args.environment);
+    const results: Array<{ objectId: string; via: string; path: string[] }> = [];
+    const seenResults = new Set<string>();
+
+    // Index rules by what they inherit from: "through:inherit" -> targets
+    // Same-object rewrites are indexed under their own object type.
+    const reverseRules = new Map<
+      string,
+      Array<{ objectType: string; relation: string; via?: string }>
+    >();
+    for (const key of Object.keys(rules)) {
+      const separator = key.indexOf(":");
+      if (separator === -1) continue;
+      const objectType = key.slice(0, separator);
+      const relation = key.slice(separator + 1);
+      for (const rule of candidateRules(relationRewrite(rules, key))) {
+        const fromType = rule.through && rule.via ? rule.through : objectType;
+        const reverseKey = `${fromType}:${rule.inherit}`;
+        const targets = reverseRules.get(reverseKey) ?? [];
+        targets.push({ objectType, relation, via: rule.via });
+        reverseRules.set(reverseKey, targets);
+      }
+    }
+
+    interface QueueItem {
+      objectType: string;
+      objectId: string;
+      relation: string;
+      depth: number;
+      via: string;
+      path: string[];
+    }
+
+    // Direct relations, including those granted to every subject of the type
+    const directRelations = [];
+    for (const subjectId of new Set([args.subjectId, WILDCARD_SUBJECT_ID])) {
+      directRelations.push(
+        ...(await ctx.db
+          .query("relationships")
+          .withIndex("by_subject", (q) =>
+            q.eq("subjectType", args.subjectType).eq("subjectId", subjectId)
+          )
+          .filter((q) => q.eq(q.field("subjectRelation"), undefined))
+          .collect())
+      );
+    }
+
+    const queue: QueueItem[] = directRelations
+      .filter((r) => tupleHolds(r, context))
+      .map((r) => ({
+        objectType: r.objectType,
+        objectId: r.objectId,
+        relation: r.relation,
+        depth: 0,
+        via: "direct",
+        path: [
+          formatEdge(r.subjectType, r.subjectId, r.relation, r.objectType, r.objectId),
+        ],
+      }));
     const visited = new Set<string>();
 
-    // Check direct relation first
-    const direct = await ctx.db
-      .query("relationships")
-      .withIndex("by_subject_relation_object", (q) =>
-        q
-          .eq("subjectType", args.subjectType)
-          .eq("subjectId", args.subjectId)
-          .eq("relation", args.relation)
-          .eq("objectType", args.objectType)
-          .eq("objectId", args.objectId)
-      )
-      .unique();
+    while (queue.length > 0) {
+      const current = queue.shift()!;
 
-    if (direct) {
-      return {
-        allowed: true,
-        path: [`${args.subjectType}:${args.subjectId} -[${args.relation}]-> ${args.objectType}:${args.objectId}`],
-        reason: "Direct relationship",
-      };
+      const visitKey = `${current.objectType}:${current.objectId}:${current.relation}`;
+      if (visited.has(visitKey)) continue;
+      visited.add(visitKey);
+
+      if (
+        current.objectType === args.objectType &&
+        current.relation === args.relation &&
+        !seenResults.has(current.objectId)
+      ) {
+        seenResults.add(current.objectId);
+        results.push({
+          objectId: current.objectId,
+          via: current.via,
+          path: current.path,
+        });
+      }
+
+      if (current.depth + 1 >= maxDepth) continue;
+
+      const targets =
+        reverseRules.get(`${current.objectType}:${current.relation}`) ?? [];
+
+      for (const target of targets) {
+        if (!target.via && target.objectType === current.objectType) {
+          // Same-object rewrite: holding `inherit` grants `relation` here too
+          queue.push({
+            ...current,
+            relation: target.relation,
+            depth: current.depth + 1,
+          });
+        }
+      }
+
+      // Find objects the current object points to, directly or as a userset
+      const outgoing = (
+        await ctx.db
+          .query("relationships")
+          .withIndex("by_subject", (q) =>
+            q.eq("subjectType", current.objectType).eq("subjectId", current.objectId)
+          )
+          .collect()
+      ).filter((edge) => tupleHolds(edge, context));
+
+      const via = current.via === "direct"
+        ? `${current.objectType}:${current.objectId}`
+        : current.via;
+
+      // Holding the relation makes the subject part of the userset
+      for (const edge of outgoing) {
+        if (edge.subjectRelation !== current.relation) continue;
+        queue.push({
+          objectType: edge.objectType,
+          objectId: edge.objectId,
+          relation: edge.relation,
+          depth: current.depth + 1,
+          via,
+          path: [
+            formatEdge(
+              edge.subjectType,
+              edge.subjectId,
+              edge.relation,
+              edge.objectType,
+              edge.objectId,
+              edge.subjectRelation
+            ),
+            ...current.path,
+          ],
+        });
+      }
+
+      for (const target of targets) {
+        if (!target.via) continue;
+        for (const edge of outgoing) {
+          if (
+            edge.subjectRelation !== undefined ||
+            edge.relation !== target.via ||
+            edge.objectType !== target.objectType
+          ) {
+            continue;
+          }
+          queue.push({
+            objectType: edge.objectType,
+            objectId: edge.objectId,
+            relation: target.relation,
+            depth: current.depth + 1,
+            via,
+            path: [
+              formatEdge(edge.subjectType, edge.subjectId, edge.relation, edge.objectType, edge.objectId),
+              ...current.path,
+            ],
+          });
+        }
+      }
     }
 
-    // If no traversal rules, return false
-    if (!args.traversalRules) {
-      return {
-        allowed: false,
-        path: [],
-        reason: "No direct relationship and no traversal rules provided",
-      };
+    if (!usesSetOperators(rules)) return results;
+
+    // Drop candidates an intersection or exclusion denies
+    const allowed = [];
+    for (const result of results) {
+      const check = await traverseRelation(ctx, {
+        ...args,
+        objectId: result.objectId,
+        traversalRules: rules,
+      });
+      if (check.allowed) allowed.push(result);
     }
+    return allowed;
+  },
+});
+
+/**
+ * List all users who can access an object with a given relation
+ *
+ * Walks the same traversal rules as checkRelationWithTraversal from the
+ * object outward, collecting user subjects at every level. A wildcard
+ * tuple is listed once, with userId "*", rather than expanded.
+ */
+export const listUsersWithAccess = query({
+  args: {
+    objectType: v.string(),
+    objectId: v.string(),
+    relation: v.string(),
+    traversalRules: v.optional(v.any()),
+    maxDepth: v.optional(v.number()),
+    // Conditional tuples are evaluated against this (default: now)
+    environment: v.optional(environmentContextValidator),
+  },
+  returns: v.array(
+    v.object({
+      userId: v.string(),
+      via: v.string(),
+      path: v.array(v.string()),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const maxDepth = args.maxDepth ?? DEFAULT_MAX_DEPTH;
+    const rules = (args.traversalRules ?? {}) as TraversalRules;
+    const context = tupleConditionContext(args.environment);
+    const results: Array<{ userId: string; via: string; path: string[] }> = [];
+    const seenUsers = new Set<string>();
+    const visited = new Set<string>();
 
-    // Parse traversal rules
-    const rules = args.traversalRules as Record<
-      string,
-      Array<{
-        through: string; // intermediate object type
-        via: string; // relation from object to intermediate
-        inherit: string; // relation to inherit from intermediate
-      }>
-    >;
-
-    // BFS traversal to find path
     interface QueueItem {
       objectType: string;
       objectId: string;
@@ -306,58 +1183,88 @@ export const checkRelationWithTraversal = query({
       if (visited.has(visitKey)) continue;
       visited.add(visitKey);
 
-      // Check if subject has this relation to current object
-      const hasRelation = await ctx.db
+      // Users holding the relation on the current object
+      const holders = await ctx.db
         .query("relationships")
-        .withIndex("by_subject_relation_object", (q) =>
+        .withIndex("by_object_relation", (q) =>
           q
-            .eq("subjectType", args.subjectType)
-            .eq("subjectId", args.subjectId)
-            .eq("relation", current.relation)
             .eq("objectType", current.objectType)
             .eq("objectId", current.objectId)
+            .eq("relation", current.relation)
         )
-        .unique();
+        .collect();
 
-      if (hasRelation) {
-        const finalPath = [
-          ...current.path,
-          `${args.subjectType}:${args.subjectId} -[${current.relation}]-> ${current.objectType}:${current.objectId}`,
-        ];
-        return {
-          allowed: true,
-          path: finalPath,
-          reason: `Access via ${current.objectType}`,
-        };
+      for (const holder of holders) {
+        if (!tupleHolds(holder, context)) continue;
+        if (holder.subjectRelation !== undefined) {
+          // Userset: everyone holding its relation on the subject object
+          queue.push({
+            objectType: holder.subjectType,
+            objectId: holder.subjectId,
+            relation: holder.subjectRelation,
+            depth: current.depth + 1,
+            path: [
+              ...current.path,
+              formatEdge(
+                holder.subjectType,
+                holder.subjectId,
+                current.relation,
+                current.objectType,
+                current.objectId,
+                holder.subjectRelation
+              ),
+            ],
+          });
+          continue;
+        }
+        if (holder.subjectType !== "user" || seenUsers.has(holder.subjectId)) {
+          continue;
+        }
+        seenUsers.add(holder.subjectId);
+        results.push({
+          userId: holder.subjectId,
+          via: current.objectType === args.objectType && current.objectId === args.objectId
+            ? "direct"
+            : `${current.objectType}:${current.objectId}`,
+          path: [
+            ...current.path,
+            formatEdge(holder.subjectType, holder.subjectId, current.relation, current.objectType, current.objectId),
+          ],
+        });
       }
 
-      // Find parent objects to traverse
-      // We need to find objects that point TO the current object via the 'via' relation
-      // Example: If checking deal:viewer and rule says inherit from account via "parent"
-      // We need to find: which account has "parent" relation pointing to this deal?
-      const currentRuleKey = `${current.objectType}:${current.relation}`;
-      const currentRules = rules[currentRuleKey] || [];
+      // Follow traversal rules to parent objects
+      const currentRewrite = relationRewrite(rules, `${current.objectType}:${current.relation}`);
+      for (const rule of candidateRules(currentRewrite)) {
+        const { through, via } = rule;
+        if (!through || !via) {
+          queue.push({
+            ...current,
+            relation: rule.inherit,
+            depth: current.depth + 1,
+          });
+          continue;
+        }
 
-      for (const rule of currentRules) {
-        // Find subjects that have 'via' relation TO the current object
-        // E.g., find accounts that have "parent" relation to this deal
         const parentRelations = await ctx.db
           .query("relationships")
           .withIndex("by_object_relation", (q) =>
             q
               .eq("objectType", current.objectType)
               .eq("objectId", current.objectId)
-              .eq("relation", rule.via)
+              .eq("relation", via)
           )
           .collect();
 
-        // Filter to only the intermediate object type we're looking for
-        const parents = parentRelations.filter(
-          (r) => r.subjectType === rule.through
-        );
-
-        for (const parent of parents) {
-          // The parent becomes the new object to check
+        for (const parent of parentRelations) {
+          if (
+            parent.subjectType !== through ||
+            parent.subjectRelation !== undefined ||
+            parent.subjectId === WILDCARD_SUBJECT_ID ||
+            !tupleHolds(parent, context)
+          ) {
+            continue;
+          }
           queue.push({
             objectType: parent.subjectType,
             objectId: parent.subjectId,
@@ -365,104 +1272,26 @@ export const checkRelationWithTraversal = query({
             depth: current.depth + 1,
             path: [
               ...current.path,
-              `${parent.subjectType}:${parent.subjectId} -[${rule.via}]-> ${current.objectType}:${current.objectId}`,
+              formatEdge(parent.subjectType, parent.subjectId, via, current.objectType, current.objectId),
             ],
           });
         }
       }
     }
 
-    return {
-      allowed: false,
-      path: [],
-      reason: "No relationship path found",
-    };
-  },
-});
-
-// ============================================================================
-// Batch Operations
-// ============================================================================
-
-/**
- * List all objects a user can access with a given relation
- */
-export const listAccessibleObjects = query({
-  args: {
-    subjectType: v.string(),
-    subjectId: v.string(),
-    relation: v.string(),
-    objectType: v.string(),
-    traversalRules: v.optional(v.any()),
-  },
-  returns: v.array(
-    v.object({
-      objectId: v.string(),
-      via: v.string(),
-    })
-  ),
-  handler: async (ctx, args) => {
-    const results: Array<{ objectId: string; via: string }> = [];
-
-    // Direct relations
-    const directRelations = await ctx.db
-      .query("relationships")
-      .withIndex("by_subject", (q) =>
-        q.eq("subjectType", args.subjectType).eq("subjectId", args.subjectId)
-      )
-      .collect();
-
-    const directObjects = directRelations.filter(
-      (r) => r.relation === args.relation && r.objectType === args.objectType
-    );
-
-    for (const obj of directObjects) {
-      results.push({ objectId: obj.objectId, via: "direct" });
-    }
-
-    // TODO: Add traversal for inherited access
-    // This would require iterating through intermediate objects
-
-    return results;
-  },
-});
+    if (!usesSetOperators(rules)) return results;
 
-/**
- * List all users who can access an object with a given relation
- */
-export const listUsersWithAccess = query({
-  args: {
-    objectType: v.string(),
-    objectId: v.string(),
-    relation: v.string(),
-  },
-  returns: v.array(
-    v.object({
-      userId: v.string(),
-      via: v.string(),
-    })
-  ),
-  handler: async (ctx, args) => {
-    const results: Array<{ userId: string; via: string }> = [];
-
-    // Direct relations
-    const directRelations = await ctx.db
-      .query("relationships")
-      .withIndex("by_object", (q) =>
-        q.eq("objectType", args.objectType).eq("objectId", args.objectId)
-      )
-      .collect();
-
-    const directUsers = directRelations.filter(
-      (r) => r.relation === args.relation && r.subjectType === "user"
-    );
-
-    for (const user of directUsers) {
-      results.push({ userId: user.subjectId, via: "direct" });
+    // Drop candidates an intersection or exclusion denies
+    const allowed = [];
+    for (const result of results) {
+      const check = await traverseRelation(ctx, {
+        ...args,
+        subjectType: "user",
+        subjectId: result.userId,
+        traversalRules: rules,
+      });
+      if (check.allowed) allowed.push(result);
     }
-
-    // TODO: Add traversal for inherited access
-
-    return results;
+    return allowed;
   },
 });
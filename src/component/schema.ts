@@ -1,6 +1,34 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+/**
+ * Every action recorded in the audit log
+ */
+export const auditActionValidator = v.union(
+  v.literal("permission_check"),
+  v.literal("role_assigned"),
+  v.literal("role_revoked"),
+  v.literal("role_expired"),
+  v.literal("permission_granted"),
+  v.literal("permission_denied"),
+  v.literal("permission_revoked"),
+  v.literal("override_expired"),
+  v.literal("attribute_set"),
+  v.literal("attribute_removed"),
+  v.literal("role_definition_created"),
+  v.literal("role_definition_updated"),
+  v.literal("role_definition_deleted"),
+  v.literal("role_permissions_synced"),
+  v.literal("relation_added"),
+  v.literal("relation_removed"),
+  v.literal("scope_parent_set"),
+  v.literal("scope_parent_removed"),
+  v.literal("history_retention_updated"),
+  v.literal("policy_created"),
+  v.literal("policy_updated"),
+  v.literal("policy_deleted")
+);
+
 /**
  * Authz Component Schema
  *
@@ -27,10 +55,18 @@ export default defineSchema({
     assignedBy: v.optional(v.string()),
     // When this role assignment expires (null = never)
     expiresAt: v.optional(v.number()),
+    // When the assignment took effect (defaults to _creationTime)
+    validFrom: v.optional(v.number()),
+    // When it was revoked or expired; closed rows are kept as history
+    validTo: v.optional(v.number()),
+    revokedBy: v.optional(v.string()),
   })
     .index("by_user", ["userId"])
     .index("by_role", ["role"])
-    .index("by_user_and_role", ["userId", "role"]),
+    .index("by_user_and_role", ["userId", "role"])
+    .index("by_validity", ["validTo", "expiresAt"])
+    // Open (validTo unset) holders of a role in one scope, skipping history
+    .index("by_role_validity_scope", ["role", "validTo", "scope.type", "scope.id"]),
 
   // Role definitions table - stores dynamic role definitions
   // System roles are global, custom roles are scoped to a tenant
@@ -54,7 +90,8 @@ export default defineSchema({
   })
     .index("by_name", ["name"])
     .index("by_scope", ["scope.type", "scope.id"])
-    .index("by_name_and_scope", ["name", "scope.type", "scope.id"]),
+    .index("by_name_and_scope", ["name", "scope.type", "scope.id"])
+    .index("by_parent_role", ["parentRole"]),
 
   // User attributes table - stores user attributes for ABAC
   // Attributes can be used in policy conditions
@@ -85,18 +122,51 @@ export default defineSchema({
     createdBy: v.optional(v.string()),
     // When this override expires (null = never)
     expiresAt: v.optional(v.number()),
+    // When the override took effect (defaults to _creationTime)
+    validFrom: v.optional(v.number()),
+    // When it was removed, replaced or expired; closed rows are kept as history
+    validTo: v.optional(v.number()),
+    revokedBy: v.optional(v.string()),
   })
     .index("by_user", ["userId"])
-    .index("by_user_and_permission", ["userId", "permission"]),
+    .index("by_user_and_permission", ["userId", "permission"])
+    .index("by_validity", ["validTo", "expiresAt"]),
+
+  // Policies - ABAC policies with JSON conditions (see conditions.ts)
+  // Evaluated inside checkPermission; one policy per permission pattern and scope
+  policies: defineTable({
+    permission: v.string(), // Permission pattern (e.g., "documents:update", "billing:*")
+    // Tenant scope (null = system policy); scoped policies are deny-only
+    scope: v.optional(
+      v.object({
+        type: v.string(),
+        id: v.string(),
+      })
+    ),
+    condition: v.any(), // JSON condition, validated on write
+    effect: v.union(v.literal("allow"), v.literal("deny")),
+    message: v.optional(v.string()),
+    createdBy: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_permission_and_scope", ["permission", "scope.type", "scope.id"])
+    .index("by_scope", ["scope.type", "scope.id"]),
 
   // Relationships table - for ReBAC (Relationship-Based Access Control)
   // Stores tuples like (user:123, member, team:456)
   relationships: defineTable({
     subjectType: v.string(), // e.g., "user", "team", "account"
     subjectId: v.string(), // ID of the subject
+    // Set for userset subjects: "team:eng#member" means every member of team:eng
+    subjectRelation: v.optional(v.string()),
     relation: v.string(), // e.g., "member", "owner", "viewer", "parent"
     objectType: v.string(), // e.g., "team", "account", "deal"
     objectId: v.string(), // ID of the object
+    // Conditional tuples hold until expiresAt and while the condition
+    // (on the environment of the check) passes
+    expiresAt: v.optional(v.number()),
+    condition: v.optional(v.any()),
     createdBy: v.optional(v.string()),
     createdAt: v.number(),
   })
@@ -108,9 +178,23 @@ export default defineSchema({
       "relation",
       "objectType",
       "objectId",
+      "subjectRelation",
     ])
     .index("by_object_relation", ["objectType", "objectId", "relation"]),
 
+  // Scope hierarchy - parent links between scopes (document -> project -> org)
+  // Roles and permissions granted on a scope apply to all of its descendants
+  scopeParents: defineTable({
+    scopeType: v.string(), // e.g., "document"
+    scopeId: v.string(),
+    parentType: v.string(), // e.g., "project"
+    parentId: v.string(),
+    createdBy: v.optional(v.string()),
+    createdAt: v.number(),
+  })
+    .index("by_scope", ["scopeType", "scopeId"])
+    .index("by_parent", ["parentType", "parentId"]),
+
   // =========================================================================
   // O(1) Indexed Tables - Pre-computed permissions for fast lookups
   // =========================================================================
@@ -135,7 +219,8 @@ export default defineSchema({
   })
     .index("by_user", ["userId"])
     .index("by_user_scope", ["userId", "scopeKey"])
-    .index("by_user_permission_scope", ["userId", "permission", "scopeKey"]),
+    .index("by_user_permission_scope", ["userId", "permission", "scopeKey"])
+    .index("by_expiry", ["expiresAt"]),
 
   // Effective roles - denormalized for O(1) lookup
   effectiveRoles: defineTable({
@@ -149,19 +234,79 @@ export default defineSchema({
     updatedAt: v.number(),
   })
     .index("by_user", ["userId"])
+    .index("by_role", ["role"])
     .index("by_user_scope", ["userId", "scopeKey"])
-    .index("by_user_role_scope", ["userId", "role", "scopeKey"]),
+    .index("by_user_role_scope", ["userId", "role", "scopeKey"])
+    .index("by_expiry", ["expiresAt"]),
+
+  // Role grants last applied to the indexed tables (single row)
+  // Used to detect config changes that require a recompute
+  indexedConfig: defineTable({
+    configHash: v.string(),
+    rolePermissions: v.record(v.string(), v.array(v.string())),
+    updatedAt: v.number(),
+  }),
+
+  // Rules the materialized relations were derived with (single row)
+  // Re-derivations use these when a call does not pass its own
+  relationRules: defineTable({
+    // Compiled from the relations config
+    traversalRules: v.optional(v.any()),
+    // Accumulated from the inheritedRelations of added tuples
+    inheritedRules: v.any(),
+    maxDepth: v.optional(v.number()),
+    updatedAt: v.number(),
+  }),
+
+  // History settings (single row)
+  // How long closed role assignments and overrides are kept for checkAsOf
+  historySettings: defineTable({
+    retentionMs: v.union(v.number(), v.null()), // null = keep forever
+    updatedAt: v.number(),
+  }),
+
+  // Recompute jobs - rebuild effectivePermissions after role grants change
+  // Processed in batches by scheduled mutations, resumable via cursor
+  recomputeJobs: defineTable({
+    trigger: v.union(v.literal("config"), v.literal("role_definition")),
+    status: v.union(
+      v.literal("running"),
+      v.literal("completed"),
+      v.literal("superseded")
+    ),
+    configHash: v.optional(v.string()),
+    // Target grants for each role being recomputed
+    rolePermissions: v.record(v.string(), v.array(v.string())),
+    roles: v.array(v.string()), // Roles to process, in order
+    // Only recompute assignments in this scope (custom roles)
+    scopeKey: v.optional(v.string()),
+    roleIndex: v.number(), // Role currently being processed
+    cursor: v.union(v.string(), v.null()), // Pagination cursor within the role
+    processed: v.number(), // Role assignments recomputed so far
+    startedAt: v.number(),
+    updatedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  }).index("by_status", ["status"]),
 
   // Effective relationships - pre-computed transitive relations
   effectiveRelationships: defineTable({
-    subjectKey: v.string(), // "user:123" or "team:456"
+    subjectKey: v.string(), // "user:123", "team:456" or userset "team:456#member"
     subjectType: v.string(),
     subjectId: v.string(),
+    subjectRelation: v.optional(v.string()),
     relation: v.string(),
     objectKey: v.string(), // "account:789"
     objectType: v.string(),
     objectId: v.string(),
     isDirect: v.boolean(),
+    // Terms of a direct conditional tuple, as on relationships
+    expiresAt: v.optional(v.number()),
+    condition: v.optional(v.any()),
+    // Relation an intersection or exclusion currently takes out of effect
+    excluded: v.optional(v.boolean()),
+    // Condition under which the row holds, combining every path to it
+    // (unset when it holds unconditionally)
+    effectiveCondition: v.optional(v.any()),
     inheritedFrom: v.union(v.string(), v.null()), // ID of the relationship this was inherited from
     createdBy: v.optional(v.string()),
     createdAt: v.number(),
@@ -175,16 +320,10 @@ export default defineSchema({
   // Audit log - optional trail of permission checks and changes
   auditLog: defineTable({
     timestamp: v.number(),
-    action: v.union(
-      v.literal("permission_check"),
-      v.literal("role_assigned"),
-      v.literal("role_revoked"),
-      v.literal("permission_granted"),
-      v.literal("permission_denied"),
-      v.literal("attribute_set"),
-      v.literal("attribute_removed")
-    ),
-    userId: v.string(), // The user the action was performed on
+    action: auditActionValidator,
+    // The user the action was performed on, or the key of the changed
+    // entity (e.g. "role:editor", "team:eng") for non-user changes
+    userId: v.string(),
     actorId: v.optional(v.string()), // Who performed the action
     details: v.object({
       permission: v.optional(v.string()),
@@ -203,6 +342,10 @@ export default defineSchema({
         })
       ),
       reason: v.optional(v.string()),
+      relation: v.optional(v.string()),
+      // Snapshots of the changed record before and after the mutation
+      before: v.optional(v.any()),
+      after: v.optional(v.any()),
     }),
   })
     .index("by_user", ["userId"])
@@ -0,0 +1,246 @@
+/**
+ * Scope Hierarchy
+ *
+ * Scopes can declare a parent scope (document -> project -> org), so roles
+ * and permissions granted on an ancestor also apply further down the tree.
+ * Both the standard and indexed strategies walk the ancestors at check time,
+ * so re-parenting a scope takes effect immediately without recomputation.
+ */
+
+import { v, ConvexError } from "convex/values";
+import { mutation, query, type QueryCtx } from "./_generated/server";
+import { writeAuditEntry } from "./audit";
+
+type Scope = { type: string; id: string };
+
+const scopeValidator = v.object({
+  type: v.string(),
+  id: v.string(),
+});
+
+// Deepest ancestor chain a scope may have; setScopeParent enforces it
+export const MAX_SCOPE_DEPTH = 10;
+
+/**
+ * Load the ancestors of a scope, nearest first
+ * Checks stop after maxDepth; setScopeParent walks the full chain.
+ */
+export async function loadScopeAncestors(
+  ctx: Pick<QueryCtx, "db">,
+  scope: Scope | undefined,
+  maxDepth: number = MAX_SCOPE_DEPTH
+): Promise<Scope[]> {
+  if (!scope) return [];
+
+  const ancestors: Scope[] = [];
+  const visited = new Set([`${scope.type}:${scope.id}`]);
+  let current = scope;
+
+  for (let depth = 0; depth < maxDepth; depth++) {
+    const link = await ctx.db
+      .query("scopeParents")
+      .withIndex("by_scope", (q) =>
+        q.eq("scopeType", current.type).eq("scopeId", current.id)
+      )
+      .unique();
+
+    if (!link) break;
+
+    const key = `${link.parentType}:${link.parentId}`;
+    if (visited.has(key)) break; // Prevent cycles
+    visited.add(key);
+
+    current = { type: link.parentType, id: link.parentId };
+    ancestors.push(current);
+  }
+
+  return ancestors;
+}
+
+/**
+ * Number of levels below a scope (0 for a leaf), read breadth-first
+ * Stops once it passes `limit`, since the caller only compares against it.
+ */
+async function subtreeHeight(
+  ctx: Pick<QueryCtx, "db">,
+  scope: Scope,
+  limit: number
+): Promise<number> {
+  const visited = new Set([`${scope.type}:${scope.id}`]);
+  let level = [scope];
+  let height = 0;
+
+  while (level.length > 0 && height <= limit) {
+    const next: Scope[] = [];
+    for (const current of level) {
+      const links = await ctx.db
+        .query("scopeParents")
+        .withIndex("by_parent", (q) =>
+          q.eq("parentType", current.type).eq("parentId", current.id)
+        )
+        .collect();
+      for (const link of links) {
+        const key = `${link.scopeType}:${link.scopeId}`;
+        if (visited.has(key)) continue;
+        visited.add(key);
+        next.push({ type: link.scopeType, id: link.scopeId });
+      }
+    }
+    if (next.length === 0) break;
+    height++;
+    level = next;
+  }
+
+  return height;
+}
+
+/**
+ * Set (or move) the parent of a scope
+ */
+export const setScopeParent = mutation({
+  args: {
+    scope: scopeValidator,
+    parent: scopeValidator,
+    createdBy: v.optional(v.string()),
+    enableAudit: v.optional(v.boolean()),
+  },
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    const scopeKey = `${args.scope.type}:${args.scope.id}`;
+    // Walk the whole chain, so a cycle past the check-time limit is still caught
+    const parentChain = [
+      args.parent,
+      ...(await loadScopeAncestors(ctx, args.parent, Infinity)),
+    ];
+
+    if (parentChain.some((s) => `${s.type}:${s.id}` === scopeKey)) {
+      throw new ConvexError({
+        code: "INVALID_PARENT",
+        message: `Scope "${scopeKey}" cannot be its own ancestor`,
+      });
+    }
+
+    // Checks only walk MAX_SCOPE_DEPTH ancestors, so deeper chains are rejected
+    // rather than silently losing their top levels
+    const depth =
+      parentChain.length + (await subtreeHeight(ctx, args.scope, MAX_SCOPE_DEPTH));
+    if (depth > MAX_SCOPE_DEPTH) {
+      throw new ConvexError({
+        code: "INVALID_PARENT",
+        message: `Scope "${scopeKey}" would be nested ${depth} levels deep (max ${MAX_SCOPE_DEPTH})`,
+      });
+    }
+
+    const existing = await ctx.db
+      .query("scopeParents")
+      .withIndex("by_scope", (q) =>
+        q.eq("scopeType", args.scope.type).eq("scopeId", args.scope.id)
+      )
+      .unique();
+
+    if (args.enableAudit) {
+      await writeAuditEntry(ctx, {
+        action: "scope_parent_set",
+        userId: scopeKey,
+        actorId: args.createdBy,
+        details: {
+          scope: args.scope,
+          before: existing
+            ? { parent: { type: existing.parentType, id: existing.parentId } }
+            : undefined,
+          after: { parent: args.parent },
+        },
+      });
+    }
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        parentType: args.parent.type,
+        parentId: args.parent.id,
+      });
+      return existing._id as string;
+    }
+
+    return await ctx.db.insert("scopeParents", {
+      scopeType: args.scope.type,
+      scopeId: args.scope.id,
+      parentType: args.parent.type,
+      parentId: args.parent.id,
+      createdBy: args.createdBy,
+      createdAt: Date.now(),
+    }) as string;
+  },
+});
+
+/**
+ * Detach a scope from its parent
+ */
+export const removeScopeParent = mutation({
+  args: {
+    scope: scopeValidator,
+    removedBy: v.optional(v.string()),
+    enableAudit: v.optional(v.boolean()),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("scopeParents")
+      .withIndex("by_scope", (q) =>
+        q.eq("scopeType", args.scope.type).eq("scopeId", args.scope.id)
+      )
+      .unique();
+
+    if (!existing) {
+      return false;
+    }
+
+    await ctx.db.delete(existing._id);
+
+    if (args.enableAudit) {
+      await writeAuditEntry(ctx, {
+        action: "scope_parent_removed",
+        userId: `${args.scope.type}:${args.scope.id}`,
+        actorId: args.removedBy,
+        details: {
+          scope: args.scope,
+          before: { parent: { type: existing.parentType, id: existing.parentId } },
+        },
+      });
+    }
+
+    return true;
+  },
+});
+
+/**
+ * Get the ancestors of a scope, nearest first
+ */
+export const getScopeAncestors = query({
+  args: {
+    scope: scopeValidator,
+  },
+  returns: v.array(scopeValidator),
+  handler: async (ctx, args) => {
+    return await loadScopeAncestors(ctx, args.scope);
+  },
+});
+
+/**
+ * Get the direct children of a scope
+ */
+export const getScopeChildren = query({
+  args: {
+    scope: scopeValidator,
+  },
+  returns: v.array(scopeValidator),
+  handler: async (ctx, args) => {
+    const links = await ctx.db
+      .query("scopeParents")
+      .withIndex("by_parent", (q) =>
+        q.eq("parentType", args.scope.type).eq("parentId", args.scope.id)
+      )
+      .collect();
+
+    return links.map((link) => ({ type: link.scopeType, id: link.scopeId }));
+  },
+});
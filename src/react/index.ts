@@ -1,7 +1,124 @@
 "use client";
 
-// This is where React components / hooks go.
+import type { ReactNode } from "react";
+import { useQuery } from "convex/react";
+import type { FunctionReference } from "convex/server";
+import type { ExplainResult, Scope } from "../client/types.js";
 
-export const useMyComponent = () => {
-  return {};
-};
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * References to the queries built by `authz.exposeApi()` in your app.
+ * Example: `createAuthzHooks(api.permissions)`
+ */
+export interface AuthzApi<Permission extends string = string> {
+  can: FunctionReference<
+    "query",
+    "public",
+    { permission: Permission; scope?: Scope },
+    boolean
+  >;
+  roles: FunctionReference<
+    "query",
+    "public",
+    { scope?: Scope },
+    Array<{ role: string; scope?: Scope; expiresAt?: number }>
+  >;
+  explain: FunctionReference<
+    "query",
+    "public",
+    { permission: Permission; scope?: Scope },
+    ExplainResult
+  >;
+}
+
+export type PermissionStatus = "loading" | "allowed" | "denied";
+
+export interface PermissionState {
+  status: PermissionStatus;
+  isLoading: boolean;
+  /**
+   * False while loading, so it is always safe to gate on
+   */
+  allowed: boolean;
+}
+
+export interface CanProps<Permission extends string = string> {
+  permission: Permission;
+  scope?: Scope;
+  /**
+   * Rendered when the permission is denied
+   */
+  fallback?: ReactNode;
+  /**
+   * Rendered while the check is in flight
+   */
+  loading?: ReactNode;
+  children?: ReactNode;
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+function toPermissionState(allowed: boolean | undefined): PermissionState {
+  if (allowed === undefined) {
+    return { status: "loading", isLoading: true, allowed: false };
+  }
+  return {
+    status: allowed ? "allowed" : "denied",
+    isLoading: false,
+    allowed,
+  };
+}
+
+/**
+ * Create permission hooks bound to your app's exposed authz queries.
+ * Results update reactively when roles, overrides or relations change.
+ */
+export function createAuthzHooks<Permission extends string>(
+  api: AuthzApi<Permission>
+) {
+  /**
+   * Check a single permission for the current user
+   */
+  function useCan(permission: Permission, scope?: Scope): PermissionState {
+    const allowed = useQuery(api.can, { permission, scope });
+    return toPermissionState(allowed);
+  }
+
+  /**
+   * List the current user's roles, optionally within a scope.
+   * Undefined while loading.
+   */
+  function useRoles(scope?: Scope) {
+    return useQuery(api.roles, { scope });
+  }
+
+  /**
+   * Get the decision with its reason and the matched role or relation.
+   * Undefined while loading.
+   */
+  function useExplain(permission: Permission, scope?: Scope) {
+    return useQuery(api.explain, { permission, scope });
+  }
+
+  /**
+   * Render children only when the current user holds the permission
+   */
+  function Can({
+    permission,
+    scope,
+    fallback = null,
+    loading = null,
+    children,
+  }: CanProps<Permission>): ReactNode {
+    const state = useCan(permission, scope);
+    if (state.isLoading) return loading;
+    return state.allowed ? children : fallback;
+  }
+
+  return { useCan, useRoles, useExplain, Can };
+}